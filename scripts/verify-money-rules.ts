@@ -0,0 +1,80 @@
+import 'fake-indexeddb/auto';
+import assert from 'node:assert/strict';
+import { getInstallmentInterest, getMonthlyRate } from '../src/lib/interest';
+import { computePayroll } from '../src/lib/payroll';
+import { openLocalStore, restoreEntries } from '../src/lib/localStore';
+import { toRow } from '../src/lib/mappers';
+
+// Worked examples of the money and sync rules in src/lib; run with `npm run verify` after changing them
+const close = (actual: number, expected: number, digits: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) < Math.pow(10, -digits) / 2, `${label}: expected ${expected}, got ${actual}`);
+
+// --- Installment interest ---
+// 12x R$ 100 for a R$ 1.000 cash price: RATE(12; -100; 1000) = 2,9229% a.m., CET 41,30% a.a.
+const notebook = getInstallmentInterest(1000, 100, 12)!;
+close(notebook.monthlyRate * 100, 2.9229, 4, 'monthly rate, 12x 100 on 1000');
+close(notebook.cet * 100, 41.2999, 4, 'CET, 12x 100 on 1000');
+close(notebook.interest, 200, 2, 'interest, 12x 100 on 1000');
+// 10x R$ 110 on R$ 1.000: RATE(10; -110; 1000) = 1,7715% a.m., CET 23,46% a.a.
+close(getMonthlyRate(1000, 110, 10) * 100, 1.7715, 4, 'monthly rate, 10x 110 on 1000');
+// Interest-free installments
+assert.equal(getMonthlyRate(1000, 100, 10), 0, 'monthly rate, 10x 100 on 1000');
+assert.equal(getInstallmentInterest(0, 100, 10), null, 'unknown cash price');
+
+// --- Payroll (INSS and IRRF tables) ---
+// [gross, dependents, month, INSS, IRRF, net]
+const payrolls: [number, number, string, number, number, number][] = [
+  // 2025: IRRF takes the larger of the simplified deduction (R$ 607,20) and INSS + dependents
+  [3000, 0, '2025-06', 253.41, 0, 2746.59],
+  [5000, 0, '2025-06', 509.60, 312.89, 4177.51],
+  [10000, 0, '2025-06', 951.63, 1579.57, 7468.80], // INSS at the ceiling
+  // 2026: Lei 15.270 exempts up to R$ 5.000 and phases the cut out until R$ 7.350
+  [5000, 0, '2026-01', 501.51, 0, 4498.49],
+  [6000, 1, '2026-03', 641.51, 332.97, 5025.52], // 512,72 - (978,62 - 0,133145 x 6.000)
+  [8000, 0, '2026-01', 921.51, 1037.85, 6040.64],
+  [10000, 0, '2026-01', 988.09, 1569.55, 7442.36],
+];
+payrolls.forEach(([gross, dependents, month, inss, irrf, net]) => {
+  const result = computePayroll({ gross, dependents, healthPlan: 0, otherDeductions: 0 }, month);
+  const label = `${gross} with ${dependents} dependents in ${month}`;
+  close(result.inss, inss, 2, `INSS, ${label}`);
+  close(result.irrf, irrf, 2, `IRRF, ${label}`);
+  close(result.net, net, 2, `net, ${label}`);
+});
+
+// --- Local store: undo/redo and rolled back writes ---
+const store = await openLocalStore('verify');
+const income = { id: 'salary', title: 'Salário', categoryId: 'work', type: 'fixed', valueHistory: [{ monthYear: '2026-01', value: 5000 }] };
+const incomeNow = async () => (await store.getAll('incomes')).find(record => record.id === 'salary');
+await store.commit({ table: 'incomes', op: 'insert', records: [income] });
+
+// Ending an income adds endMonth; undoing it must clear the field locally and in the cloud
+const ending = await store.commit({ table: 'incomes', op: 'update', key: 'salary', changes: { endMonth: '2026-06' } });
+const undo = restoreEntries('incomes', ending.before, ending.after);
+assert.equal(undo.length, 1, 'undo of an update is one update');
+assert.equal(undo[0].changes!.endMonth, null, 'undo sends endMonth as null');
+assert.equal(toRow('incomes', undo[0].changes!).end_month, null, 'undo clears end_month in the cloud');
+const undone = await store.commit(undo[0]);
+assert.equal((await incomeNow()).endMonth ?? null, null, 'undo clears endMonth locally');
+assert.deepEqual((await incomeNow()).valueHistory, income.valueHistory, 'undo keeps the other fields');
+for (const entry of restoreEntries('incomes', undone.before, undone.after)) await store.commit(entry);
+assert.equal((await incomeNow()).endMonth, '2026-06', 'redo ends the income again');
+
+// Undoing an insert deletes the record, undoing the delete brings it back
+const inserted = await store.commit({ table: 'incomes', op: 'insert', records: [{ id: 'bonus', title: 'Bônus', categoryId: 'work', type: 'temporary', amount: 800 }] });
+assert.deepEqual(restoreEntries('incomes', inserted.before, inserted.after), [{ table: 'incomes', op: 'delete', key: 'bonus' }], 'undo of an insert');
+const deleted = await store.commit({ table: 'incomes', op: 'delete', key: 'bonus' });
+assert.deepEqual(restoreEntries('incomes', deleted.before, deleted.after)[0].records, [inserted.after[0].record], 'undo of a delete');
+
+// A write the backend rejects is rolled back and leaves the outbox
+await store.commit({ table: 'incomes', op: 'update', key: 'salary', changes: { title: 'Salário novo', endMonth: null } });
+await store.commit({ table: 'incomes', op: 'insert', records: [{ id: 'rejected', title: 'Recusada', categoryId: 'work', type: 'fixed' }] });
+const queued = await store.listOutbox();
+await store.rollback(queued.slice(-2));
+assert.equal((await incomeNow()).title, 'Salário', 'rejected update is rolled back');
+assert.equal((await incomeNow()).endMonth, '2026-06', 'rolled back update restores the whole record');
+assert.equal((await store.getAll('incomes')).some(record => record.id === 'rejected'), false, 'rejected insert is removed');
+assert.equal((await store.listOutbox()).length, queued.length - 2, 'rejected entries leave the outbox');
+store.close();
+
+console.log('Money rules OK');
@@ -0,0 +1,192 @@
+import express, { Response } from 'express';
+import crypto from 'crypto';
+import { DB } from './db';
+import { TABLES, TableSchema, decodeRow, encodeValue } from './schema';
+import { AuthedRequest, bearerToken, createSession, hashPassword, requireAuth, verifyPassword } from './auth';
+import { createChangeFeed } from './events';
+
+const schemaOf = (req: AuthedRequest, res: Response): [string, TableSchema] | null => {
+  const table = req.params.table;
+  const schema = TABLES[table];
+  if (!schema) {
+    res.status(404).json({ error: `Tabela desconhecida: ${table}` });
+    return null;
+  }
+  return [table, schema];
+};
+
+// Only known columns of the table are ever written
+const knownColumns = (schema: TableSchema, row: Record<string, any>) =>
+  Object.keys(row).filter(column => column in schema.columns && column !== 'user_id');
+
+const keyWhere = (schema: TableSchema) => schema.key.map(column => `${column} = ?`).join(' AND ');
+
+/** REST API mirroring the Supabase tables, scoped to the logged in user. */
+export const createApi = (db: DB, { allowSignup }: { allowSignup: boolean }) => {
+  const api = express.Router();
+  const feed = createChangeFeed();
+  api.use(express.json({ limit: '5mb' }));
+
+  // --- AUTH ---
+  api.post('/auth/register', (req, res) => {
+    const { email, password } = req.body || {};
+    const userCount = (db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number }).count;
+    // The first account can always be created; more only with ALLOW_SIGNUP
+    if (userCount > 0 && !allowSignup) {
+      res.status(403).json({ error: 'Cadastro desabilitado neste servidor.' });
+      return;
+    }
+    if (!email || !password || String(password).length < 6) {
+      res.status(400).json({ error: 'Informe email e uma senha com pelo menos 6 caracteres.' });
+      return;
+    }
+    const normalized = String(email).trim().toLowerCase();
+    if (db.prepare('SELECT id FROM users WHERE email = ?').get(normalized)) {
+      res.status(409).json({ error: 'Este email já está cadastrado.' });
+      return;
+    }
+    const id = crypto.randomUUID();
+    db.prepare('INSERT INTO users (id, email, password_hash, created_at) VALUES (?, ?, ?, ?)')
+      .run(id, normalized, hashPassword(String(password)), new Date().toISOString());
+    res.status(201).json({ token: createSession(db, id), user: { id, email: normalized } });
+  });
+
+  api.post('/auth/login', (req, res) => {
+    const { email, password } = req.body || {};
+    const user = db.prepare('SELECT id, email, password_hash FROM users WHERE email = ?')
+      .get(String(email || '').trim().toLowerCase()) as { id: string; email: string; password_hash: string } | undefined;
+    if (!user || !verifyPassword(String(password || ''), user.password_hash)) {
+      res.status(401).json({ error: 'Email ou senha inválidos.' });
+      return;
+    }
+    res.json({ token: createSession(db, user.id), user: { id: user.id, email: user.email } });
+  });
+
+  api.post('/auth/logout', (req, res) => {
+    const token = bearerToken(req);
+    if (token) db.prepare('DELETE FROM sessions WHERE token = ?').run(token);
+    res.status(204).end();
+  });
+
+  api.use(requireAuth(db));
+
+  api.get('/auth/me', (req: AuthedRequest, res) => {
+    const user = db.prepare('SELECT id, email FROM users WHERE id = ?').get(req.userId);
+    res.json({ user });
+  });
+
+  // Realtime: every change to the user's rows, as server-sent events
+  api.get('/events', (req: AuthedRequest, res) => {
+    feed.connect(req.userId!, res);
+  });
+
+  const findRow = (table: string, schema: TableSchema, userId: string, keyValues: any[]) => {
+    const row = db.prepare(`SELECT * FROM ${table} WHERE user_id = ? AND ${keyWhere(schema)}`).get(userId, ...keyValues) as Record<string, any> | undefined;
+    return row ? decodeRow(schema, row) : undefined;
+  };
+
+  // --- TABELAS ---
+  api.get('/:table', (req: AuthedRequest, res) => {
+    const found = schemaOf(req, res);
+    if (!found) return;
+    const [table, schema] = found;
+    const rows = db.prepare(`SELECT * FROM ${table} WHERE user_id = ?`).all(req.userId) as Record<string, any>[];
+    res.json(rows.map(row => decodeRow(schema, row)));
+  });
+
+  // Insert or replace (replays from the client outbox must be idempotent)
+  api.post('/:table', (req: AuthedRequest, res) => {
+    const found = schemaOf(req, res);
+    if (!found) return;
+    const [table, schema] = found;
+    const rows: Record<string, any>[] = Array.isArray(req.body) ? req.body : [req.body];
+
+    const changes: { type: 'INSERT' | 'UPDATE'; new: Record<string, any> }[] = [];
+    const upsert = db.transaction((items: Record<string, any>[]) => {
+      items.forEach(row => {
+        const keyValues = schema.key.map(column => row[column]);
+        if (schema.key.some(column => !row[column])) throw new Error(`Chave ausente: ${schema.key.join(', ')}`);
+        const columns = knownColumns(schema, row);
+        const updates = columns.filter(column => !schema.key.includes(column));
+        const sql = `INSERT INTO ${table} (user_id, ${columns.join(', ')}) VALUES (?, ${columns.map(() => '?').join(', ')})
+          ON CONFLICT (${['user_id', ...schema.key].join(', ')}) DO ${updates.length ? `UPDATE SET ${updates.map(c => `${c} = excluded.${c}`).join(', ')}` : 'NOTHING'}`;
+        const existed = !!findRow(table, schema, req.userId!, keyValues);
+        db.prepare(sql).run(req.userId, ...columns.map(column => encodeValue(schema.columns[column], row[column])));
+        changes.push({ type: existed ? 'UPDATE' : 'INSERT', new: findRow(table, schema, req.userId!, keyValues)! });
+      });
+    });
+
+    try {
+      upsert(rows);
+      changes.forEach(change => feed.publish(req.userId!, { table, ...change }));
+      res.status(201).json({ count: rows.length });
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  // /:table/:id, or /card_payments/:cardId/:monthYear for composite keys
+  api.patch(['/:table/:k1', '/:table/:k1/:k2'], (req: AuthedRequest, res) => {
+    const found = schemaOf(req, res);
+    if (!found) return;
+    const [table, schema] = found;
+    const keyValues = [req.params.k1, req.params.k2].filter(Boolean);
+    const columns = knownColumns(schema, req.body || {}).filter(column => !schema.key.includes(column));
+    if (keyValues.length !== schema.key.length) {
+      res.status(400).json({ error: 'Chave inválida.' });
+      return;
+    }
+    if (columns.length === 0) {
+      res.status(204).end();
+      return;
+    }
+    const result = db.prepare(`UPDATE ${table} SET ${columns.map(c => `${c} = ?`).join(', ')} WHERE user_id = ? AND ${keyWhere(schema)}`)
+      .run(...columns.map(column => encodeValue(schema.columns[column], req.body[column])), req.userId, ...keyValues);
+    if (result.changes) feed.publish(req.userId!, { table, type: 'UPDATE', new: findRow(table, schema, req.userId!, keyValues) });
+    res.status(result.changes ? 204 : 404).end();
+  });
+
+  // Several rows at once; the body lists their keys as rows
+  api.delete('/:table', (req: AuthedRequest, res) => {
+    const found = schemaOf(req, res);
+    if (!found) return;
+    const [table, schema] = found;
+    const keys: Record<string, any>[] = Array.isArray(req.body) ? req.body : [];
+
+    const olds: Record<string, any>[] = [];
+    const remove = db.transaction((items: Record<string, any>[]) => {
+      items.forEach(item => {
+        const keyValues = schema.key.map(column => item[column]);
+        if (keyValues.some(value => !value)) throw new Error(`Chave ausente: ${schema.key.join(', ')}`);
+        const old = findRow(table, schema, req.userId!, keyValues);
+        db.prepare(`DELETE FROM ${table} WHERE user_id = ? AND ${keyWhere(schema)}`).run(req.userId, ...keyValues);
+        if (old) olds.push(old);
+      });
+    });
+
+    try {
+      remove(keys);
+      olds.forEach(old => feed.publish(req.userId!, { table, type: 'DELETE', old }));
+      res.status(204).end();
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  api.delete(['/:table/:k1', '/:table/:k1/:k2'], (req: AuthedRequest, res) => {
+    const found = schemaOf(req, res);
+    if (!found) return;
+    const [table, schema] = found;
+    const keyValues = [req.params.k1, req.params.k2].filter(Boolean);
+    if (keyValues.length !== schema.key.length) {
+      res.status(400).json({ error: 'Chave inválida.' });
+      return;
+    }
+    const old = findRow(table, schema, req.userId!, keyValues);
+    db.prepare(`DELETE FROM ${table} WHERE user_id = ? AND ${keyWhere(schema)}`).run(req.userId, ...keyValues);
+    if (old) feed.publish(req.userId!, { table, type: 'DELETE', old });
+    res.status(204).end();
+  });
+
+  return api;
+};
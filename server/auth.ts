@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { DB } from './db';
+
+export interface AuthedRequest extends Request {
+  userId?: string;
+}
+
+const KEY_LENGTH = 64;
+// Sessions last this long; after that the user logs in again
+const SESSION_DAYS = 30;
+
+export const hashPassword = (password: string) => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, KEY_LENGTH).toString('hex');
+  return `${salt}:${hash}`;
+};
+
+export const verifyPassword = (password: string, stored: string) => {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  const candidate = crypto.scryptSync(password, salt, KEY_LENGTH);
+  const expected = Buffer.from(hash, 'hex');
+  return expected.length === candidate.length && crypto.timingSafeEqual(candidate, expected);
+};
+
+export const createSession = (db: DB, userId: string) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  db.prepare('DELETE FROM sessions WHERE expires_at IS NULL OR expires_at <= ?').run(now.toISOString());
+  db.prepare('INSERT INTO sessions (token, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)').run(token, userId, now.toISOString(), expiresAt.toISOString());
+  return token;
+};
+
+// EventSource cannot send headers, so only the event stream takes the token from the query string
+export const bearerToken = (req: Request) => {
+  const header = req.headers.authorization || '';
+  if (header.startsWith('Bearer ')) return header.slice(7);
+  return req.path === '/events' && typeof req.query.token === 'string' ? req.query.token : null;
+};
+
+/** Rejects requests without a valid session and exposes the user id as req.userId. */
+export const requireAuth = (db: DB) => (req: AuthedRequest, res: Response, next: NextFunction) => {
+  const token = bearerToken(req);
+  const session = token
+    ? db.prepare('SELECT user_id FROM sessions WHERE token = ? AND expires_at > ?').get(token, new Date().toISOString()) as { user_id: string } | undefined
+    : undefined;
+  if (!session) {
+    res.status(401).json({ error: 'Sessão inválida. Faça login novamente.' });
+    return;
+  }
+  req.userId = session.user_id;
+  next();
+};
@@ -0,0 +1,52 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { TABLES, sqlType } from './schema';
+
+export type DB = Database.Database;
+
+/** Opens the SQLite file and brings its schema up to date. */
+export const openDatabase = (file: string): DB => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS sessions (
+      token TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TEXT NOT NULL,
+      expires_at TEXT
+    );
+  `);
+  // Sessions from before expiry existed have none and are no longer accepted
+  const sessionColumns = (db.prepare('PRAGMA table_info(sessions)').all() as { name: string }[]).map(c => c.name);
+  if (!sessionColumns.includes('expires_at')) db.exec('ALTER TABLE sessions ADD COLUMN expires_at TEXT');
+
+  Object.entries(TABLES).forEach(([table, schema]) => {
+    const columns = Object.entries(schema.columns).map(([column, type]) => `${column} ${sqlType(type)}`);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        ${columns.join(',\n        ')},
+        PRIMARY KEY (${['user_id', ...schema.key].join(', ')})
+      );
+      CREATE INDEX IF NOT EXISTS ${table}_user_idx ON ${table} (user_id);
+    `);
+
+    // Columns added to the schema after the table was created
+    const existing = new Set((db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name));
+    Object.entries(schema.columns).forEach(([column, type]) => {
+      if (!existing.has(column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${sqlType(type)}`);
+    });
+  });
+
+  return db;
+};
@@ -0,0 +1,38 @@
+import { Response } from 'express';
+
+export interface ChangeEvent {
+  table: string;
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  new?: Record<string, any>;
+  old?: Record<string, any>;
+}
+
+/** Fan-out of row changes to the user's open EventSource connections. */
+export const createChangeFeed = () => {
+  const clients = new Map<string, Set<Response>>();
+
+  const connect = (userId: string, res: Response) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    if (!clients.has(userId)) clients.set(userId, new Set());
+    clients.get(userId)!.add(res);
+    // Keeps proxies from closing idle connections
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), 25000);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      clients.get(userId)?.delete(res);
+    });
+  };
+
+  const publish = (userId: string, change: ChangeEvent) => {
+    clients.get(userId)?.forEach(res => res.write(`data: ${JSON.stringify(change)}\n\n`));
+  };
+
+  return { connect, publish };
+};
+
+export type ChangeFeed = ReturnType<typeof createChangeFeed>;
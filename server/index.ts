@@ -0,0 +1,24 @@
+import 'dotenv/config';
+import express from 'express';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { openDatabase } from './db';
+import { createApi } from './api';
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const port = Number(process.env.PORT) || 3001;
+const databasePath = process.env.DATABASE_PATH || path.join(rootDir, 'data', 'fluxonext.db');
+const distDir = path.join(rootDir, 'dist');
+
+const db = openDatabase(databasePath);
+const app = express();
+
+app.use('/api', createApi(db, { allowSignup: process.env.ALLOW_SIGNUP === 'true' }));
+
+// Built app (npm run build); routing is hash based so index.html covers every page
+app.use(express.static(distDir));
+app.get('/', (_req, res) => res.sendFile(path.join(distDir, 'index.html')));
+
+app.listen(port, () => {
+  console.log(`FluxoNext server listening on http://localhost:${port} (database: ${databasePath})`);
+});
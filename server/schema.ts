@@ -0,0 +1,170 @@
+export type ColumnType = 'text' | 'real' | 'integer' | 'boolean' | 'json';
+
+export interface TableSchema {
+  // Primary key besides user_id scoping
+  key: string[];
+  columns: Record<string, ColumnType>;
+}
+
+// Mirrors the Supabase tables used by the app (snake_case rows)
+export const TABLES: Record<string, TableSchema> = {
+  expenses: {
+    key: ['id'],
+    columns: {
+      id: 'text',
+      title: 'text',
+      category_id: 'text',
+      type: 'text',
+      purchase_date: 'text',
+      billing_month: 'text',
+      is_installment: 'boolean',
+      total_value: 'real',
+      installment_value: 'real',
+      cash_price: 'real',
+      payment_method: 'text',
+      is_paid: 'boolean',
+      original_id: 'text',
+      refund_of: 'text',
+      value_history: 'json',
+      recurrence: 'json',
+      installments_current: 'integer',
+      installments_total: 'integer',
+      created_at: 'text',
+    },
+  },
+  incomes: {
+    key: ['id'],
+    columns: {
+      id: 'text',
+      title: 'text',
+      category_id: 'text',
+      payment_method: 'text',
+      type: 'text',
+      amount: 'real',
+      start_month: 'text',
+      duration_months: 'integer',
+      schedule: 'json',
+      value_history: 'json',
+      end_month: 'text',
+      payday: 'json',
+      salary_extra: 'json',
+    },
+  },
+  cards: {
+    key: ['id'],
+    columns: {
+      id: 'text',
+      name: 'text',
+      closing_day: 'integer',
+      due_day: 'integer',
+      color: 'text',
+      credit_limit: 'real',
+      revolving_rate: 'real',
+    },
+  },
+  accounts: {
+    key: ['id'],
+    columns: {
+      id: 'text',
+      name: 'text',
+      type: 'text',
+      color: 'text',
+      opening_balance: 'real',
+      opening_month: 'text',
+    },
+  },
+  transfers: {
+    key: ['id'],
+    columns: {
+      id: 'text',
+      from_account_id: 'text',
+      to_account_id: 'text',
+      amount: 'real',
+      date: 'text',
+      description: 'text',
+    },
+  },
+  categories: {
+    key: ['id'],
+    columns: {
+      id: 'text',
+      name: 'text',
+      color: 'text',
+      type: 'text',
+      budget: 'real',
+      budget_history: 'json',
+    },
+  },
+  card_payments: {
+    key: ['card_id', 'month_year'],
+    columns: {
+      card_id: 'text',
+      month_year: 'text',
+      is_paid: 'boolean',
+      paid_amount: 'real',
+      paid_at: 'text',
+      rollover: 'boolean',
+      account_id: 'text',
+    },
+  },
+  expense_payments: {
+    key: ['id'],
+    columns: {
+      id: 'text',
+      expense_id: 'text',
+      month_year: 'text',
+      is_paid: 'boolean',
+      paid_value: 'real',
+    },
+  },
+  income_receipts: {
+    key: ['id'],
+    columns: {
+      id: 'text',
+      income_id: 'text',
+      month_year: 'text',
+      is_received: 'boolean',
+      received_value: 'real',
+      received_at: 'text',
+    },
+  },
+  settings: {
+    key: ['id'],
+    columns: {
+      id: 'text',
+      opening_balance: 'real',
+      opening_month: 'text',
+    },
+  },
+};
+
+const SQL_TYPES: Record<ColumnType, string> = {
+  text: 'TEXT',
+  real: 'REAL',
+  integer: 'INTEGER',
+  boolean: 'INTEGER',
+  json: 'TEXT',
+};
+
+export const sqlType = (type: ColumnType) => SQL_TYPES[type];
+
+/** Converts a JSON row from the client into SQLite values. */
+export const encodeValue = (type: ColumnType, value: any) => {
+  if (value === undefined || value === null) return null;
+  if (type === 'boolean') return value ? 1 : 0;
+  if (type === 'json') return JSON.stringify(value);
+  return value;
+};
+
+/** Converts a SQLite row back into the JSON shape Supabase would return. */
+export const decodeRow = (schema: TableSchema, row: Record<string, any>) => {
+  const decoded: Record<string, any> = {};
+  Object.entries(schema.columns).forEach(([column, type]) => {
+    const value = row[column];
+    if (value === null || value === undefined) decoded[column] = null;
+    else if (type === 'boolean') decoded[column] = value === 1;
+    else if (type === 'json') decoded[column] = JSON.parse(value);
+    else decoded[column] = value;
+  });
+  return decoded;
+};
@@ -1,26 +1,30 @@
 import React, { useState, useRef } from 'react';
-import { LayoutDashboard, PlusCircle, Home, Menu, CreditCard, Tag, DollarSign, Wallet, Download, Upload, Trash2, AlertTriangle, X, ChevronUp } from 'lucide-react';
+import { LayoutDashboard, PlusCircle, Home, Menu, CreditCard, Landmark, Tag, DollarSign, Wallet, Download, Upload, Trash2, AlertTriangle, X, ChevronUp, FlaskConical } from 'lucide-react';
 import { Summary } from './components/Summary';
 import { Expenses } from './components/Expenses';
 import { Income } from './components/Income';
 import { Dashboard } from './components/Dashboard';
 import { Cards } from './components/Cards';
+import { Accounts } from './components/Accounts';
 import { Categories } from './components/Categories';
+import { Simulator } from './components/Simulator';
 import { useFinance } from './hooks/useFinance';
 import { UserMenu } from './components/UserMenu';
 import { LoginModal } from './components/LoginModal';
+import { BackupModal } from './components/BackupModal';
 import { cn } from './utils';
 import { motion, AnimatePresence } from 'motion/react';
 import { CheckCircle2 } from 'lucide-react';
 
-type View = 'home' | 'income' | 'expenses' | 'dashboard' | 'cards' | 'categories';
+type View = 'home' | 'income' | 'expenses' | 'dashboard' | 'cards' | 'accounts' | 'categories' | 'simulator';
 
 function App() {
-  const { user, loading, loadData, isSaving } = useFinance();
+  const { user, loading, loadData, isSaving, isOnline, pendingWrites, failedWrites, clearFailedWrites } = useFinance();
   const [currentView, setCurrentView] = useState<View>('home');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
   const [showLoginModal, setShowLoginModal] = useState(false);
+  const [showBackupModal, setShowBackupModal] = useState(false);
   const [showToast, setShowToast] = useState(false);
 
   // Hash Routing Logic
@@ -34,7 +38,9 @@ function App() {
         '#/despesas': 'expenses',
         '#/dashboard': 'dashboard',
         '#/cartoes': 'cards',
+        '#/contas': 'accounts',
         '#/categorias': 'categories',
+        '#/simulador': 'simulator',
       };
 
       const view = routeMap[hash] || 'home';
@@ -54,7 +60,9 @@ function App() {
     { id: 'expenses', label: 'Despesas', icon: Wallet, hash: '#/despesas' },
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard, hash: '#/dashboard' },
     { id: 'cards', label: 'Cartões', icon: CreditCard, hash: '#/cartoes' },
+    { id: 'accounts', label: 'Contas', icon: Landmark, hash: '#/contas' },
     { id: 'categories', label: 'Categorias', icon: Tag, hash: '#/categorias' },
+    { id: 'simulator', label: 'Simulador', icon: FlaskConical, hash: '#/simulador' },
   ] as const;
 
   const handleEditExpense = (id: string) => {
@@ -101,9 +109,14 @@ function App() {
         <div className="p-4 border-t border-zinc-800">
           <UserMenu 
             user={user}
-            syncing={loading}
+            syncing={loading || isSaving}
             onSync={handleManualSync}
             onLogin={() => setShowLoginModal(true)}
+            isOnline={isOnline}
+            pendingCount={pendingWrites}
+            failedCount={failedWrites}
+            onClearFailed={clearFailedWrites}
+            onBackup={() => setShowBackupModal(true)}
           />
         </div>
       </aside>
@@ -150,9 +163,17 @@ function App() {
             <div className="pb-8 pt-4 border-t border-zinc-800">
               <UserMenu 
                 user={user}
-                syncing={loading}
+                syncing={loading || isSaving}
                 onSync={handleManualSync}
                 onLogin={() => setShowLoginModal(true)}
+                isOnline={isOnline}
+                pendingCount={pendingWrites}
+                failedCount={failedWrites}
+                onClearFailed={clearFailedWrites}
+                onBackup={() => {
+                  setShowBackupModal(true);
+                  setIsMobileMenuOpen(false);
+                }}
               />
             </div>
           </motion.div>
@@ -172,7 +193,9 @@ function App() {
           )}
           {currentView === 'dashboard' && <Dashboard />}
           {currentView === 'cards' && <Cards />}
+          {currentView === 'accounts' && <Accounts />}
           {currentView === 'categories' && <Categories />}
+          {currentView === 'simulator' && <Simulator />}
         </div>
       </main>
 
@@ -191,6 +214,7 @@ function App() {
       </motion.button>
 
       {showLoginModal && <LoginModal onClose={() => setShowLoginModal(false)} />}
+      {showBackupModal && <BackupModal onClose={() => setShowBackupModal(false)} />}
 
       {/* Toast Notification */}
       <AnimatePresence>
@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useFinance } from '../hooks/useFinance';
+import { Card, Button, Input, Select } from './ui';
+import { Plus, Trash2, Edit2, X, Landmark, PiggyBank, Wallet, QrCode, Utensils, ArrowRightLeft } from 'lucide-react';
+import { motion } from 'motion/react';
+import { formatCurrency, cn } from '../utils';
+import { ACCOUNT_TYPE_LABELS, paymentMethodName } from '../lib/accounts';
+import { TransferModal } from './TransferModal';
+import { Account, AccountType } from '../types';
+
+const ACCOUNT_ICONS: Record<AccountType, React.ElementType> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  wallet: Wallet,
+  pix: QrCode,
+  meal_voucher: Utensils,
+};
+
+const emptyForm = () => ({
+  name: '',
+  type: 'checking' as AccountType,
+  color: '#10B981',
+  openingBalance: '',
+  openingMonth: format(new Date(), 'yyyy-MM'),
+});
+
+export const Accounts = () => {
+  const { cards, accounts, transfers, addAccount, updateAccount, deleteAccount, deleteTransfer, getAccountFlow } = useFinance();
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newAccount, setNewAccount] = useState(emptyForm());
+  const [editForm, setEditForm] = useState(emptyForm());
+  // undefined = closed, '' = no account preselected
+  const [transferFrom, setTransferFrom] = useState<string | undefined>(undefined);
+  const currentMonth = format(new Date(), 'yyyy-MM');
+
+  const handleAdd = async () => {
+    if (!newAccount.name) return;
+    await addAccount({ ...newAccount, openingBalance: parseFloat(newAccount.openingBalance) || 0 });
+    setNewAccount(emptyForm());
+    setIsAdding(false);
+  };
+
+  const startEdit = (account: Account) => {
+    setEditingId(account.id);
+    setEditForm({
+      name: account.name,
+      type: account.type,
+      color: account.color,
+      openingBalance: account.openingBalance ? String(account.openingBalance) : '',
+      openingMonth: account.openingMonth || currentMonth,
+    });
+  };
+
+  const saveEdit = async () => {
+    if (editingId && editForm.name) {
+      await updateAccount(editingId, { ...editForm, openingBalance: parseFloat(editForm.openingBalance) || 0 });
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-zinc-100">Contas</h2>
+        <div className="flex gap-2">
+          {accounts.length > 0 && (
+            <Button onClick={() => setTransferFrom('')} size="sm" variant="outline" className="w-full sm:w-auto">
+              <ArrowRightLeft className="w-4 h-4 mr-2" /> <span className="hidden sm:inline">Transferir</span><span className="sm:hidden">Transf.</span>
+            </Button>
+          )}
+          <Button onClick={() => setIsAdding(true)} size="sm" className="w-full sm:w-auto">
+            <Plus className="w-4 h-4 mr-2" /> <span className="hidden sm:inline">Nova Conta</span><span className="sm:hidden">Nova</span>
+          </Button>
+        </div>
+      </div>
+
+      {isAdding && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-2xl shadow-2xl overflow-y-auto max-h-[90vh]"
+          >
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold text-zinc-100">Nova Conta</h3>
+              <button onClick={() => setIsAdding(false)} className="p-2 text-zinc-400 hover:text-zinc-100">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Nome da Conta"
+                value={newAccount.name}
+                onChange={e => setNewAccount({...newAccount, name: e.target.value})}
+                placeholder="Ex: Nubank, Carteira, VR"
+                autoFocus
+                required
+              />
+              <Select
+                label="Tipo"
+                value={newAccount.type}
+                onChange={e => setNewAccount({...newAccount, type: e.target.value as AccountType})}
+              >
+                {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(type => (
+                  <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>
+                ))}
+              </Select>
+              <Input
+                label="Saldo inicial"
+                type="number" step="0.01"
+                value={newAccount.openingBalance}
+                onChange={e => setNewAccount({...newAccount, openingBalance: e.target.value})}
+              />
+              <Input
+                label="No início de"
+                type="month"
+                value={newAccount.openingMonth}
+                onChange={e => setNewAccount({...newAccount, openingMonth: e.target.value})}
+              />
+              <div className="space-y-1 md:col-span-2">
+                <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Cor da Conta</label>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="color"
+                    value={newAccount.color}
+                    onChange={e => setNewAccount({...newAccount, color: e.target.value})}
+                    className="h-12 w-full rounded-xl cursor-pointer bg-zinc-900 border border-zinc-800 p-1"
+                  />
+                  <div className="w-12 h-12 rounded-xl shrink-0" style={{ backgroundColor: newAccount.color }} />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-end gap-3 pt-6">
+              <Button variant="ghost" onClick={() => setIsAdding(false)} className="w-full sm:w-auto">Cancelar</Button>
+              <Button onClick={handleAdd} disabled={!newAccount.openingMonth} className="w-full sm:w-auto bg-yellow-500 hover:bg-yellow-400 text-black font-bold">
+                Salvar Conta
+              </Button>
+            </div>
+          </motion.div>
+        </div>
+      )}
+
+      {accounts.length === 0 && !isAdding && (
+        <p className="text-zinc-500 text-sm">
+          Cadastre suas contas, carteiras e vales para saber de onde sai cada pagamento. Sem contas, tudo fora dos cartões conta como dinheiro.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {accounts.map(account => {
+          const flow = getAccountFlow(account.id, currentMonth);
+          const Icon = ACCOUNT_ICONS[account.type] || Landmark;
+          return (
+            <Card key={account.id} className="relative overflow-hidden group p-4 sm:p-5">
+              <div className="absolute top-0 left-0 w-1 h-full" style={{ backgroundColor: account.color }} />
+
+              {editingId === account.id ? (
+                <div className="space-y-4">
+                  <Input
+                    label="Nome"
+                    value={editForm.name}
+                    onChange={e => setEditForm({...editForm, name: e.target.value})}
+                  />
+                  <Select
+                    label="Tipo"
+                    value={editForm.type}
+                    onChange={e => setEditForm({...editForm, type: e.target.value as AccountType})}
+                  >
+                    {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(type => (
+                      <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>
+                    ))}
+                  </Select>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      label="Saldo inicial"
+                      type="number" step="0.01"
+                      value={editForm.openingBalance}
+                      onChange={e => setEditForm({...editForm, openingBalance: e.target.value})}
+                    />
+                    <Input
+                      label="No início de"
+                      type="month"
+                      value={editForm.openingMonth}
+                      onChange={e => setEditForm({...editForm, openingMonth: e.target.value})}
+                    />
+                  </div>
+                  <div className="flex justify-between items-center pt-2">
+                     <input
+                      type="color"
+                      value={editForm.color}
+                      onChange={e => setEditForm({...editForm, color: e.target.value})}
+                      className="h-10 w-10 rounded-xl cursor-pointer bg-zinc-900 border border-zinc-800 p-1"
+                    />
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>Cancelar</Button>
+                      <Button size="sm" onClick={saveEdit} disabled={!editForm.openingMonth}>Salvar</Button>
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h4 className="font-semibold text-zinc-100 text-base sm:text-lg">{account.name}</h4>
+                      <p className="text-xs text-zinc-500 mt-1">{ACCOUNT_TYPE_LABELS[account.type]}</p>
+                    </div>
+                    <div className="p-2 bg-zinc-800 rounded-lg">
+                      <Icon className="w-4 h-4 text-zinc-400" />
+                    </div>
+                  </div>
+
+                  {flow && flow.closingBalance !== null ? (
+                    <div className="space-y-1 mb-2">
+                      <p className={cn("text-2xl font-bold", flow.closingBalance >= 0 ? "text-zinc-100" : "text-red-500")}>
+                        {formatCurrency(flow.closingBalance)}
+                      </p>
+                      <p className="text-[10px] text-zinc-500">
+                        Saldo ao fim do mês • Movimento {formatCurrency(flow.net)}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-zinc-500 mb-2">Saldo a partir de {account.openingMonth}.</p>
+                  )}
+
+                  <div className="flex justify-end gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity pt-2 border-t border-zinc-800/50 mt-2">
+                    <button onClick={() => setTransferFrom(account.id)} title="Transferir desta conta" className="p-2 text-zinc-400 hover:text-yellow-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
+                      <ArrowRightLeft className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => startEdit(account)} className="p-2 text-zinc-400 hover:text-yellow-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => deleteAccount(account.id)} className="p-2 text-zinc-400 hover:text-red-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </Card>
+          );
+        })}
+      </div>
+
+      {transfers.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold text-zinc-200 flex items-center gap-2">
+            <ArrowRightLeft className="w-5 h-5 text-yellow-500" /> Transferências
+          </h3>
+          <Card>
+            <div className="space-y-3">
+              {[...transfers].sort((a, b) => b.date.localeCompare(a.date)).map(transfer => (
+                <div key={transfer.id} className="flex items-center justify-between group">
+                  <div>
+                    <p className="font-medium text-zinc-200">
+                      {paymentMethodName(transfer.fromAccountId, cards, accounts)} → {paymentMethodName(transfer.toAccountId, cards, accounts)}
+                    </p>
+                    <p className="text-xs text-zinc-500">
+                      {format(parseISO(transfer.date), 'dd/MM/yyyy')}{transfer.description && ` • ${transfer.description}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-zinc-300">{formatCurrency(transfer.amount)}</span>
+                    <button onClick={() => deleteTransfer(transfer.id)} title="Excluir transferência" className="p-2 text-zinc-600 hover:text-red-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        </div>
+      )}
+
+      {transferFrom !== undefined && (
+        <TransferModal fromAccountId={transferFrom || undefined} onClose={() => setTransferFrom(undefined)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useRef, useState } from 'react';
+import { X, Download, Upload, AlertTriangle, FileJson } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, isValid, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from './ui';
+import { cn } from '../utils';
+import { useFinance } from '../hooks/useFinance';
+import { RESTORE_ORDER, BackupData, BackupFile, backupCounts, backupFileName, backupTableLabel, createBackup, parseBackup } from '../lib/backup';
+
+interface BackupModalProps {
+  onClose: () => void;
+}
+
+export const BackupModal = ({ onClose }: BackupModalProps) => {
+  const { expenses, incomes, cards, accounts, transfers, cardPayments, expensePayments, incomeReceipts, expenseCategories, incomeCategories, settings, importBackup } = useFinance();
+  const [file, setFile] = useState<BackupFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const current: BackupData = {
+    expenses, incomes, cards, accounts, transfers, card_payments: cardPayments, expense_payments: expensePayments, income_receipts: incomeReceipts,
+    categories: [...expenseCategories, ...incomeCategories], settings: settings ? [settings] : []
+  };
+  const currentCounts = backupCounts(current);
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(createBackup(current), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = backupFileName();
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    setError(null);
+    setFile(null);
+    try {
+      setFile(parseBackup(await selected.text()));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    await importBackup(file.data, mode);
+    setImporting(false);
+    onClose();
+  };
+
+  const fileCounts = file ? backupCounts(file.data) : null;
+  const exportedAt = typeof file?.exportedAt === 'string' ? parseISO(file.exportedAt) : null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-lg shadow-2xl overflow-y-auto max-h-[90vh]"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-zinc-100">Backup dos Dados</h3>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <section className="space-y-3">
+            <p className="text-sm text-zinc-400">
+              Baixe um arquivo JSON com cartões, contas, transferências, categorias, receitas, despesas, pagamentos, recebimentos e saldo inicial.
+            </p>
+            <Button variant="secondary" className="w-full gap-2" onClick={handleExport}>
+              <Download className="w-4 h-4" />
+              Exportar backup
+            </Button>
+          </section>
+
+          <section className="space-y-3 pt-6 border-t border-zinc-800">
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+            <Button variant="outline" className="w-full gap-2" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4" />
+              {file ? 'Escolher outro arquivo' : 'Importar backup'}
+            </Button>
+
+            {error && (
+              <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-xs">
+                {error}
+              </div>
+            )}
+
+            {file && fileCounts && (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2 text-sm text-zinc-300">
+                  <FileJson className="w-4 h-4 text-yellow-500" />
+                  {exportedAt && isValid(exportedAt)
+                    ? `Backup de ${format(exportedAt, "dd 'de' MMMM 'de' yyyy, HH:mm", { locale: ptBR })}`
+                    : 'Backup sem data'}
+                </div>
+
+                <div className="rounded-xl border border-zinc-800 divide-y divide-zinc-800 text-sm">
+                  <div className="grid grid-cols-3 px-4 py-2 text-[10px] uppercase tracking-wider text-zinc-500 font-bold">
+                    <span>Dados</span>
+                    <span className="text-right">Atual</span>
+                    <span className="text-right">No arquivo</span>
+                  </div>
+                  {RESTORE_ORDER.map(table => (
+                    <div key={table} className="grid grid-cols-3 px-4 py-2 text-zinc-300">
+                      <span className="capitalize">{backupTableLabel(table)}</span>
+                      <span className="text-right text-zinc-500">{currentCounts[table]}</span>
+                      <span className="text-right font-medium">{fileCounts[table]}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  {(['merge', 'replace'] as const).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setMode(option)}
+                      className={cn(
+                        "p-3 rounded-xl border text-left transition-all",
+                        mode === option ? "border-yellow-500 bg-yellow-500/10" : "border-zinc-800 hover:bg-zinc-900"
+                      )}
+                    >
+                      <p className="text-sm font-bold text-zinc-100">{option === 'merge' ? 'Mesclar' : 'Substituir'}</p>
+                      <p className="text-xs text-zinc-500 mt-1">
+                        {option === 'merge' ? 'Adiciona aos dados atuais' : 'Apaga os dados atuais'}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+
+                {mode === 'replace' && (
+                  <div className="flex gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-xs">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    Todos os {Object.values(currentCounts).reduce((a, b) => a + b, 0)} registros atuais serão substituídos pelo conteúdo do arquivo.
+                  </div>
+                )}
+
+                <Button className="w-full" variant={mode === 'replace' ? 'danger' : 'primary'} disabled={importing} onClick={handleImport}>
+                  {importing ? 'Importando...' : mode === 'replace' ? 'Substituir dados' : 'Mesclar dados'}
+                </Button>
+              </div>
+            )}
+          </section>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button, Input, Select } from './ui';
+import { formatCurrency } from '../utils';
+import { useFinance } from '../hooks/useFinance';
+
+interface CardPaymentModalProps {
+  cardId: string;
+  monthYear: string;
+  onClose: () => void;
+}
+
+export const CardPaymentModal = ({ cardId, monthYear, onClose }: CardPaymentModalProps) => {
+  const { cards, accounts, getCardInvoice, payCardInvoice } = useFinance();
+  const card = cards.find(c => c.id === cardId);
+  const invoice = getCardInvoice(cardId, monthYear);
+  const [amount, setAmount] = useState(invoice?.payment?.paidAmount !== undefined ? String(invoice.payment.paidAmount) : invoice ? invoice.total.toFixed(2) : '');
+  const [paidAt, setPaidAt] = useState(invoice?.payment?.paidAt || format(new Date(), 'yyyy-MM-dd'));
+  const [rollover, setRollover] = useState(invoice?.payment?.rollover ?? true);
+  // 'cash' = paid without picking an account
+  const [accountId, setAccountId] = useState(invoice?.payment?.accountId || accounts[0]?.id || 'cash');
+  const [saving, setSaving] = useState(false);
+
+  if (!card || !invoice) return null;
+
+  const paidAmount = parseFloat(amount) || 0;
+  const remainder = Math.max(invoice.total - paidAmount, 0);
+  const rate = card.revolvingRate || 0;
+
+  const handleSave = async () => {
+    setSaving(true);
+    await payCardInvoice(cardId, monthYear, { paidAmount, paidAt, rollover: rollover && remainder > 0, accountId: accountId === 'cash' ? undefined : accountId });
+    setSaving(false);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-md shadow-2xl"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-zinc-100">Pagar fatura {card.name}</h3>
+            <p className="text-zinc-500 text-sm capitalize">{format(parseISO(monthYear + '-01'), 'MMM/yyyy', { locale: ptBR })}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="p-3 rounded-xl bg-zinc-900 border border-zinc-800 text-sm space-y-1">
+            <div className="flex justify-between text-zinc-400">
+              <span>Compras do mês</span>
+              <span>{formatCurrency(invoice.charges)}</span>
+            </div>
+            {invoice.carried > 0 && (
+              <div className="flex justify-between text-red-400">
+                <span>Saldo anterior + rotativo</span>
+                <span>{formatCurrency(invoice.carried)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-bold text-zinc-100">
+              <span>Total da fatura</span>
+              <span>{formatCurrency(invoice.total)}</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <Input label="Valor pago" type="number" min="0" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} autoFocus />
+            <Input label="Data do pagamento" type="date" value={paidAt} onChange={e => setPaidAt(e.target.value)} />
+          </div>
+
+          <Select label="Pagar com" value={accountId} onChange={e => setAccountId(e.target.value)}>
+            <option value="cash">Dinheiro</option>
+            {accounts.map(a => (
+              <option key={a.id} value={a.id}>{a.name}</option>
+            ))}
+          </Select>
+          {accountId !== 'cash' && (
+            <p className="text-xs text-zinc-500">
+              Sai da conta como pagamento de fatura: as compras do cartão já contam como despesas e não são somadas de novo.
+            </p>
+          )}
+
+          {remainder > 0 && (
+            <>
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="rollover"
+                  checked={rollover}
+                  onChange={e => setRollover(e.target.checked)}
+                  className="w-5 h-5 rounded border-zinc-700 bg-zinc-900 text-yellow-500 focus:ring-yellow-500"
+                />
+                <label htmlFor="rollover" className="text-sm font-medium text-zinc-300">
+                  Levar o restante para a próxima fatura
+                </label>
+              </div>
+              <p className="text-xs text-zinc-500">
+                {rollover
+                  ? `Restam ${formatCurrency(remainder)}; com ${rate.toLocaleString('pt-BR')}% de rotativo, entram ${formatCurrency(remainder * (1 + rate / 100))} na próxima fatura.`
+                  : `Restam ${formatCurrency(remainder)} em aberto nesta fatura.`}
+              </p>
+            </>
+          )}
+
+          <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+            <Button variant="ghost" onClick={onClose} className="w-full sm:w-auto">Cancelar</Button>
+            <Button onClick={handleSave} disabled={!paidAt || saving} className="w-full sm:w-auto bg-yellow-500 hover:bg-yellow-400 text-black font-bold">
+              {saving ? 'Salvando...' : 'Registrar Pagamento'}
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
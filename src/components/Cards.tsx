@@ -1,31 +1,37 @@
 import React, { useState } from 'react';
 import { useFinance } from '../hooks/useFinance';
 import { Card, Button, Input } from './ui';
-import { Plus, Trash2, Edit2, X, Check, CreditCard as CardIcon } from 'lucide-react';
+import { Plus, Trash2, Edit2, X, Check, Upload, CreditCard as CardIcon } from 'lucide-react';
 import { motion } from 'motion/react';
+import { InvoiceImportModal } from './InvoiceImportModal';
+import { formatCurrency, cn } from '../utils';
+import { LIMIT_WARNING_RATIO } from '../lib/creditLimit';
 
 export const Cards = () => {
-  const { cards, addCard, updateCard, deleteCard } = useFinance();
+  const { cards, addCard, updateCard, deleteCard, getCardLimit } = useFinance();
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [newCard, setNewCard] = useState({ name: '', closingDay: 1, dueDay: 10, color: '#820AD1' });
-  const [editForm, setEditForm] = useState({ name: '', closingDay: 1, dueDay: 10, color: '' });
+  const [newCard, setNewCard] = useState({ name: '', closingDay: 1, dueDay: 10, color: '#820AD1', limit: '', revolvingRate: '' });
+  const [editForm, setEditForm] = useState({ name: '', closingDay: 1, dueDay: 10, color: '', limit: '', revolvingRate: '' });
+  // undefined = closed, '' = no card preselected
+  const [importCardId, setImportCardId] = useState<string | undefined>(undefined);
 
   const handleAdd = async () => {
     if (!newCard.name) return;
-    await addCard(newCard);
-    setNewCard({ name: '', closingDay: 1, dueDay: 10, color: '#820AD1' });
+    await addCard({ ...newCard, limit: parseFloat(newCard.limit) || undefined, revolvingRate: parseFloat(newCard.revolvingRate) || undefined });
+    setNewCard({ name: '', closingDay: 1, dueDay: 10, color: '#820AD1', limit: '', revolvingRate: '' });
     setIsAdding(false);
   };
 
   const startEdit = (card: any) => {
     setEditingId(card.id);
-    setEditForm({ name: card.name, closingDay: card.closingDay, dueDay: card.dueDay, color: card.color });
+    setEditForm({ name: card.name, closingDay: card.closingDay, dueDay: card.dueDay, color: card.color, limit: card.limit ? String(card.limit) : '', revolvingRate: card.revolvingRate ? String(card.revolvingRate) : '' });
   };
 
   const saveEdit = async () => {
     if (editingId && editForm.name) {
-      await updateCard(editingId, editForm);
+      // null clears a removed limit or rate
+      await updateCard(editingId, { ...editForm, limit: parseFloat(editForm.limit) || null, revolvingRate: parseFloat(editForm.revolvingRate) || null });
       setEditingId(null);
     }
   };
@@ -34,9 +40,16 @@ export const Cards = () => {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-zinc-100">Cartões</h2>
-        <Button onClick={() => setIsAdding(true)} size="sm" className="w-full sm:w-auto">
-          <Plus className="w-4 h-4 mr-2" /> <span className="hidden sm:inline">Novo Cartão</span><span className="sm:hidden">Novo</span>
-        </Button>
+        <div className="flex gap-2">
+          {cards.length > 0 && (
+            <Button onClick={() => setImportCardId('')} size="sm" variant="outline" className="w-full sm:w-auto">
+              <Upload className="w-4 h-4 mr-2" /> <span className="hidden sm:inline">Importar Fatura</span><span className="sm:hidden">Fatura</span>
+            </Button>
+          )}
+          <Button onClick={() => setIsAdding(true)} size="sm" className="w-full sm:w-auto">
+            <Plus className="w-4 h-4 mr-2" /> <span className="hidden sm:inline">Novo Cartão</span><span className="sm:hidden">Novo</span>
+          </Button>
+        </div>
       </div>
 
       {isAdding && (
@@ -77,6 +90,20 @@ export const Cards = () => {
                   required
                 />
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <Input 
+                  label="Limite (opcional)" 
+                  type="number" min="0" step="0.01"
+                  value={newCard.limit} 
+                  onChange={e => setNewCard({...newCard, limit: e.target.value})}
+                />
+                <Input 
+                  label="Rotativo (% a.m.)" 
+                  type="number" min="0" step="0.01"
+                  value={newCard.revolvingRate} 
+                  onChange={e => setNewCard({...newCard, revolvingRate: e.target.value})}
+                />
+              </div>
               <div className="space-y-1 md:col-span-2">
                 <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Cor do Cartão</label>
                 <div className="flex items-center gap-3">
@@ -102,72 +129,120 @@ export const Cards = () => {
       )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {cards.map(card => (
-          <Card key={card.id} className="relative overflow-hidden group p-4 sm:p-5">
-            <div className="absolute top-0 left-0 w-1 h-full" style={{ backgroundColor: card.color }} />
-            
-            {editingId === card.id ? (
-              <div className="space-y-4">
-                <Input 
-                  label="Nome"
-                  value={editForm.name} 
-                  onChange={e => setEditForm({...editForm, name: e.target.value})}
-                />
-                <div className="grid grid-cols-2 gap-3">
-                  <Input 
-                    label="Fech."
-                    type="number"
-                    value={editForm.closingDay} 
-                    onChange={e => setEditForm({...editForm, closingDay: parseInt(e.target.value)})}
-                  />
+        {cards.map(card => {
+          const usage = getCardLimit(card.id);
+          return (
+            <Card key={card.id} className="relative overflow-hidden group p-4 sm:p-5">
+              <div className="absolute top-0 left-0 w-1 h-full" style={{ backgroundColor: card.color }} />
+              
+              {editingId === card.id ? (
+                <div className="space-y-4">
                   <Input 
-                    label="Venc."
-                    type="number"
-                    value={editForm.dueDay} 
-                    onChange={e => setEditForm({...editForm, dueDay: parseInt(e.target.value)})}
+                    label="Nome"
+                    value={editForm.name} 
+                    onChange={e => setEditForm({...editForm, name: e.target.value})}
                   />
-                </div>
-                <div className="flex justify-between items-center pt-2">
-                   <input 
-                    type="color" 
-                    value={editForm.color}
-                    onChange={e => setEditForm({...editForm, color: e.target.value})}
-                    className="h-10 w-10 rounded-xl cursor-pointer bg-zinc-900 border border-zinc-800 p-1"
-                  />
-                  <div className="flex gap-2">
-                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>Cancelar</Button>
-                    <Button size="sm" onClick={saveEdit}>Salvar</Button>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input 
+                      label="Fech."
+                      type="number"
+                      value={editForm.closingDay} 
+                      onChange={e => setEditForm({...editForm, closingDay: parseInt(e.target.value)})}
+                    />
+                    <Input 
+                      label="Venc."
+                      type="number"
+                      value={editForm.dueDay} 
+                      onChange={e => setEditForm({...editForm, dueDay: parseInt(e.target.value)})}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input 
+                      label="Limite"
+                      type="number" min="0" step="0.01"
+                      value={editForm.limit} 
+                      onChange={e => setEditForm({...editForm, limit: e.target.value})}
+                    />
+                    <Input 
+                      label="Rotativo %"
+                      type="number" min="0" step="0.01"
+                      value={editForm.revolvingRate} 
+                      onChange={e => setEditForm({...editForm, revolvingRate: e.target.value})}
+                    />
+                  </div>
+                  <div className="flex justify-between items-center pt-2">
+                     <input 
+                      type="color" 
+                      value={editForm.color}
+                      onChange={e => setEditForm({...editForm, color: e.target.value})}
+                      className="h-10 w-10 rounded-xl cursor-pointer bg-zinc-900 border border-zinc-800 p-1"
+                    />
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>Cancelar</Button>
+                      <Button size="sm" onClick={saveEdit}>Salvar</Button>
+                    </div>
                   </div>
                 </div>
-              </div>
-            ) : (
-              <>
-                <div className="flex justify-between items-start mb-4">
-                  <div>
-                    <h4 className="font-semibold text-zinc-100 text-base sm:text-lg">{card.name}</h4>
-                    <div className="flex gap-3 text-xs text-zinc-500 mt-1">
-                      <span>Fecha dia {card.closingDay}</span>
-                      <span>Vence dia {card.dueDay}</span>
+              ) : (
+                <>
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h4 className="font-semibold text-zinc-100 text-base sm:text-lg">{card.name}</h4>
+                      <div className="flex gap-3 text-xs text-zinc-500 mt-1">
+                        <span>Fecha dia {card.closingDay}</span>
+                        <span>Vence dia {card.dueDay}</span>
+                      </div>
+                    </div>
+                    <div className="p-2 bg-zinc-800 rounded-lg">
+                      <CardIcon className="w-4 h-4 text-zinc-400" />
                     </div>
                   </div>
-                  <div className="p-2 bg-zinc-800 rounded-lg">
-                    <CardIcon className="w-4 h-4 text-zinc-400" />
+
+                  {usage && (
+                    <div className="space-y-1 mb-2">
+                      <div className="flex justify-between text-xs">
+                        <span className="text-zinc-500">Limite usado</span>
+                        <span className={cn(usage.ratio > 1 ? "text-red-500" : "text-zinc-300")}>
+                          {formatCurrency(usage.used)} de {formatCurrency(usage.limit)}
+                        </span>
+                      </div>
+                      <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+                        <div
+                          className={cn(
+                            "h-full rounded-full transition-all",
+                            usage.ratio > 1 ? "bg-red-500" : usage.ratio >= LIMIT_WARNING_RATIO ? "bg-yellow-500" : "bg-emerald-500"
+                          )}
+                          style={{ width: `${Math.min(usage.ratio, 1) * 100}%` }}
+                        />
+                      </div>
+                      <div className="flex justify-between text-[10px] text-zinc-500">
+                        <span>Fatura {formatCurrency(usage.openInvoice)} • Parcelas futuras {formatCurrency(usage.future)}</span>
+                        <span className={cn(usage.available < 0 && "text-red-500")}>Disponível {formatCurrency(usage.available)}</span>
+                      </div>
+                    </div>
+                  )}
+                  
+                  <div className="flex justify-end gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity pt-2 border-t border-zinc-800/50 mt-2">
+                    <button onClick={() => setImportCardId(card.id)} title="Importar fatura (CSV)" className="p-2 text-zinc-400 hover:text-yellow-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
+                      <Upload className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => startEdit(card)} className="p-2 text-zinc-400 hover:text-yellow-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => deleteCard(card.id)} className="p-2 text-zinc-400 hover:text-red-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
                   </div>
-                </div>
-                
-                <div className="flex justify-end gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity pt-2 border-t border-zinc-800/50 mt-2">
-                  <button onClick={() => startEdit(card)} className="p-2 text-zinc-400 hover:text-yellow-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
-                    <Edit2 className="w-4 h-4" />
-                  </button>
-                  <button onClick={() => deleteCard(card.id)} className="p-2 text-zinc-400 hover:text-red-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
-                    <Trash2 className="w-4 h-4" />
-                  </button>
-                </div>
-              </>
-            )}
-          </Card>
-        ))}
+                </>
+              )}
+            </Card>
+          );
+        })}
       </div>
+
+      {importCardId !== undefined && (
+        <InvoiceImportModal initialCardId={importCardId || undefined} onClose={() => setImportCardId(undefined)} />
+      )}
     </div>
   );
 };
@@ -1,25 +1,36 @@
 import React, { useState } from 'react';
 import { useFinance } from '../hooks/useFinance';
 import { Card, Button, Input } from './ui';
-import { Plus, Trash2, Edit2, X, Check } from 'lucide-react';
+import { Plus, Trash2, Edit2, X, Check, Target, ArrowLeft, ArrowRight } from 'lucide-react';
+import { format, addMonths, subMonths, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
 import { Category } from '../types';
-import { cn } from '../utils';
+import { cn, formatCurrency } from '../utils';
 import { motion } from 'motion/react';
+import { BUDGET_WARNING_RATIO, getBudgetStatus } from '../lib/budget';
+import { CategoryBudgetModal } from './CategoryBudgetModal';
 
 export const Categories = () => {
-  const { incomeCategories, expenseCategories, addCategory, updateCategory, deleteCategory } = useFinance();
+  const { incomeCategories, expenseCategories, expenses, addCategory, updateCategory, deleteCategory, getExpenseValueForMonth } = useFinance();
   const [activeTab, setActiveTab] = useState<'expense' | 'income'>('expense');
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [newCategory, setNewCategory] = useState({ name: '', color: '#F59E0B' });
+  const [newCategory, setNewCategory] = useState({ name: '', color: '#F59E0B', budget: '' });
   const [editForm, setEditForm] = useState({ name: '', color: '' });
+  const [budgetMonth, setBudgetMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [budgetCategoryId, setBudgetCategoryId] = useState<string | null>(null);
 
   const currentCategories = activeTab === 'expense' ? expenseCategories : incomeCategories;
+  const budgetStatus = getBudgetStatus(expenseCategories, expenses, budgetMonth, getExpenseValueForMonth);
+
+  const handlePrevMonth = () => setBudgetMonth(prev => format(subMonths(parseISO(prev + '-01'), 1), 'yyyy-MM'));
+  const handleNextMonth = () => setBudgetMonth(prev => format(addMonths(parseISO(prev + '-01'), 1), 'yyyy-MM'));
 
   const handleAdd = async () => {
     if (!newCategory.name) return;
-    await addCategory({ ...newCategory, type: activeTab });
-    setNewCategory({ name: '', color: '#F59E0B' });
+    const budget = activeTab === 'expense' ? parseFloat(newCategory.budget) || undefined : undefined;
+    await addCategory({ name: newCategory.name, color: newCategory.color, type: activeTab, budget });
+    setNewCategory({ name: '', color: '#F59E0B', budget: '' });
     setIsAdding(false);
   };
 
@@ -61,7 +72,20 @@ export const Categories = () => {
         </div>
       </div>
 
-      <div className="flex justify-end">
+      <div className={cn("flex flex-col sm:flex-row gap-3", activeTab === 'expense' ? "sm:justify-between" : "sm:justify-end")}>
+        {activeTab === 'expense' && (
+          <div className="flex items-center bg-zinc-900 rounded-xl p-1 border border-zinc-800">
+            <button onClick={handlePrevMonth} className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-yellow-500 transition-colors">
+              <ArrowLeft className="w-4 h-4" />
+            </button>
+            <span className="flex-1 px-4 text-sm font-medium text-zinc-200 text-center capitalize min-w-[140px]">
+              Orçamento de {format(parseISO(budgetMonth + '-01'), 'MMM/yyyy', { locale: ptBR })}
+            </span>
+            <button onClick={handleNextMonth} className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-yellow-500 transition-colors">
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
         <Button onClick={() => setIsAdding(true)} size="sm" className="w-full sm:w-auto">
           <Plus className="w-4 h-4 mr-2" /> Nova Categoria
         </Button>
@@ -101,6 +125,16 @@ export const Categories = () => {
                   <div className="w-12 h-12 rounded-xl shrink-0" style={{ backgroundColor: newCategory.color }} />
                 </div>
               </div>
+              {activeTab === 'expense' && (
+                <Input
+                  label="Orçamento mensal (opcional)"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={newCategory.budget}
+                  onChange={e => setNewCategory({...newCategory, budget: e.target.value})}
+                />
+              )}
               
               <div className="flex flex-col sm:flex-row justify-end gap-3 pt-4">
                 <Button variant="ghost" onClick={() => setIsAdding(false)} className="w-full sm:w-auto">Cancelar</Button>
@@ -114,47 +148,77 @@ export const Categories = () => {
       )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {currentCategories.map(category => (
-          <Card key={category.id} className="flex items-center justify-between group p-3 sm:p-4">
-            {editingId === category.id ? (
-              <div className="flex flex-col sm:flex-row gap-2 w-full items-start sm:items-center">
-                <div className="flex gap-2 w-full">
-                  <Input 
-                    value={editForm.name} 
-                    onChange={e => setEditForm({...editForm, name: e.target.value})}
-                    className="h-10 flex-1"
-                  />
-                  <input 
-                    type="color" 
-                    value={editForm.color}
-                    onChange={e => setEditForm({...editForm, color: e.target.value})}
-                    className="h-10 w-10 rounded-xl cursor-pointer bg-zinc-900 border border-zinc-800 p-1"
-                  />
-                </div>
-                <div className="flex gap-2 w-full sm:w-auto justify-end">
-                  <button onClick={saveEdit} className="p-2 text-emerald-500 hover:bg-emerald-500/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center border border-zinc-800 sm:border-none"><Check className="w-5 h-5" /></button>
-                  <button onClick={() => setEditingId(null)} className="p-2 text-red-500 hover:bg-red-500/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center border border-zinc-800 sm:border-none"><X className="w-5 h-5" /></button>
+        {currentCategories.map(category => {
+          const status = activeTab === 'expense' ? budgetStatus.find(b => b.category.id === category.id) : undefined;
+          return (
+            <Card key={category.id} className="flex items-center justify-between group p-3 sm:p-4">
+              {editingId === category.id ? (
+                <div className="flex flex-col sm:flex-row gap-2 w-full items-start sm:items-center">
+                  <div className="flex gap-2 w-full">
+                    <Input 
+                      value={editForm.name} 
+                      onChange={e => setEditForm({...editForm, name: e.target.value})}
+                      className="h-10 flex-1"
+                    />
+                    <input 
+                      type="color" 
+                      value={editForm.color}
+                      onChange={e => setEditForm({...editForm, color: e.target.value})}
+                      className="h-10 w-10 rounded-xl cursor-pointer bg-zinc-900 border border-zinc-800 p-1"
+                    />
+                  </div>
+                  <div className="flex gap-2 w-full sm:w-auto justify-end">
+                    <button onClick={saveEdit} className="p-2 text-emerald-500 hover:bg-emerald-500/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center border border-zinc-800 sm:border-none"><Check className="w-5 h-5" /></button>
+                    <button onClick={() => setEditingId(null)} className="p-2 text-red-500 hover:bg-red-500/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center border border-zinc-800 sm:border-none"><X className="w-5 h-5" /></button>
+                  </div>
                 </div>
-              </div>
-            ) : (
-              <>
-                <div className="flex items-center gap-3">
-                  <div className="w-4 h-4 rounded-full" style={{ backgroundColor: category.color }} />
-                  <span className="font-medium text-zinc-200">{category.name}</span>
-                </div>
-                <div className="flex gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
-                  <button onClick={() => startEdit(category)} className="p-2 text-zinc-400 hover:text-yellow-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
-                    <Edit2 className="w-4 h-4" />
-                  </button>
-                  <button onClick={() => deleteCategory(category.id)} className="p-2 text-zinc-400 hover:text-red-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
-                    <Trash2 className="w-4 h-4" />
-                  </button>
-                </div>
-              </>
-            )}
-          </Card>
-        ))}
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-3">
+                      <div className="w-4 h-4 rounded-full shrink-0" style={{ backgroundColor: category.color }} />
+                      <span className="font-medium text-zinc-200 truncate">{category.name}</span>
+                    </div>
+                    {status && (
+                      <div className="mt-2 pl-7 space-y-1">
+                        <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+                          <div
+                            className={cn(
+                              "h-full rounded-full transition-all",
+                              status.ratio > 1 ? "bg-red-500" : status.ratio >= BUDGET_WARNING_RATIO ? "bg-yellow-500" : "bg-emerald-500"
+                            )}
+                            style={{ width: `${Math.min(status.ratio, 1) * 100}%` }}
+                          />
+                        </div>
+                        <p className={cn("text-xs", status.ratio > 1 ? "text-red-500" : "text-zinc-500")}>
+                          {formatCurrency(status.spent)} de {formatCurrency(status.budget)}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                    {activeTab === 'expense' && (
+                      <button onClick={() => setBudgetCategoryId(category.id)} className="p-2 text-zinc-400 hover:text-yellow-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center" title="Orçamento">
+                        <Target className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button onClick={() => startEdit(category)} className="p-2 text-zinc-400 hover:text-yellow-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => deleteCategory(category.id)} className="p-2 text-zinc-400 hover:text-red-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </Card>
+          );
+        })}
       </div>
+
+      {budgetCategoryId && (
+        <CategoryBudgetModal categoryId={budgetCategoryId} initialMonth={budgetMonth} onClose={() => setBudgetCategoryId(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { X, Trash2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button, Input } from './ui';
+import { formatCurrency } from '../utils';
+import { useFinance } from '../hooks/useFinance';
+import { getBudgetForMonth } from '../lib/budget';
+
+interface CategoryBudgetModalProps {
+  categoryId: string;
+  initialMonth: string;
+  onClose: () => void;
+}
+
+export const CategoryBudgetModal = ({ categoryId, initialMonth, onClose }: CategoryBudgetModalProps) => {
+  const { expenseCategories, updateCategory, updateCategoryBudget, deleteCategoryBudgetItem } = useFinance();
+  const category = expenseCategories.find(c => c.id === categoryId);
+  const [defaultBudget, setDefaultBudget] = useState(category?.budget ? String(category.budget) : '');
+  const [month, setMonth] = useState(initialMonth);
+  const [monthValue, setMonthValue] = useState(category ? String(getBudgetForMonth(category, initialMonth) || '') : '');
+
+  if (!category) return null;
+
+  const history = [...(category.budgetHistory || [])].sort((a, b) => b.monthYear.localeCompare(a.monthYear));
+
+  const handleSaveDefault = async () => {
+    await updateCategory(category.id, { budget: parseFloat(defaultBudget) || 0 });
+  };
+
+  const handleSaveMonth = async (isException: boolean) => {
+    if (!month) return;
+    await updateCategoryBudget(category.id, month, parseFloat(monthValue) || 0, isException);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-lg shadow-2xl overflow-y-auto max-h-[90vh]"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-zinc-100 flex items-center gap-2">
+            <span className="w-4 h-4 rounded-full" style={{ backgroundColor: category.color }} />
+            Orçamento: {category.name}
+          </h3>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <section className="space-y-3">
+            <div className="flex gap-2 items-end">
+              <div className="flex-1">
+                <Input
+                  label="Orçamento mensal padrão"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={defaultBudget}
+                  onChange={e => setDefaultBudget(e.target.value)}
+                />
+              </div>
+              <Button variant="secondary" className="h-10" onClick={handleSaveDefault}>Salvar</Button>
+            </div>
+            <p className="text-xs text-zinc-500">Vale para todos os meses sem ajuste. Deixe 0 para não acompanhar esta categoria.</p>
+          </section>
+
+          <section className="space-y-3 pt-6 border-t border-zinc-800">
+            <h4 className="text-sm font-bold text-zinc-300">Ajustar um mês</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <Input label="Mês" type="month" value={month} onChange={e => setMonth(e.target.value)} />
+              <Input label="Valor" type="number" min="0" step="0.01" value={monthValue} onChange={e => setMonthValue(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Button className="bg-zinc-800 hover:bg-zinc-700 text-white" onClick={() => handleSaveMonth(true)} disabled={!month}>
+                Apenas neste mês
+              </Button>
+              <Button className="bg-yellow-500 hover:bg-yellow-400 text-black font-bold" onClick={() => handleSaveMonth(false)} disabled={!month}>
+                Deste mês em diante
+              </Button>
+            </div>
+          </section>
+
+          {history.length > 0 && (
+            <section className="space-y-2 pt-6 border-t border-zinc-800">
+              <h4 className="text-sm font-bold text-zinc-300">Ajustes</h4>
+              {history.map(item => (
+                <div key={`${item.monthYear}-${item.type}`} className="flex items-center justify-between p-3 rounded-xl bg-zinc-900 border border-zinc-800">
+                  <div>
+                    <p className="text-sm font-medium text-zinc-200 capitalize">
+                      {format(parseISO(item.monthYear + '-01'), 'MMM/yyyy', { locale: ptBR })}
+                    </p>
+                    <p className="text-xs text-zinc-500">{item.type === 'exception' ? 'Apenas neste mês' : 'Deste mês em diante'}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-zinc-100">{formatCurrency(item.value)}</span>
+                    <button
+                      onClick={() => deleteCategoryBudgetItem(category.id, item.monthYear, item.type)}
+                      className="p-2 text-zinc-500 hover:text-red-500 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -2,11 +2,14 @@ import React, { useMemo } from 'react';
 import { useFinance } from '../hooks/useFinance';
 import { Card } from './ui';
 import { formatCurrency, cn } from '../utils';
-import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend } from 'recharts';
+import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, ComposedChart, Line, XAxis, YAxis, Tooltip, Legend } from 'recharts';
 import { format, addMonths, subMonths, parseISO, eachMonthOfInterval, getMonth } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { ArrowLeft, ArrowRight, ChevronDown, CreditCard as CardIcon } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
+import { getBudgetStatus } from '../lib/budget';
+import { formatRate, getExpenseInterest, getParcelInterest } from '../lib/interest';
+import { CASH_LABEL, paymentMethodName } from '../lib/accounts';
 
 const StatCard = ({ title, value, sub }: { title: string, value: string, sub?: string }) => (
   <Card className="p-4 bg-zinc-900 border-zinc-800">
@@ -17,7 +20,7 @@ const StatCard = ({ title, value, sub }: { title: string, value: string, sub?: s
 );
 
 export const Dashboard = () => {
-  const { expenses, incomes, expenseCategories, cards, getIncomeValueForMonth, getExpenseValueForMonth } = useFinance();
+  const { expenses, expenseCategories, cards, accounts, getExpenseValueForMonth, getCashFlow } = useFinance();
   const [selectedMonth, setSelectedMonth] = React.useState(format(addMonths(new Date(), 1), 'yyyy-MM'));
   const [isMonthDropdownOpen, setIsMonthDropdownOpen] = React.useState(false);
 
@@ -39,16 +42,28 @@ export const Dashboard = () => {
     return { total: active.length, paid, remaining };
   }, [expenses]);
 
+  // Interest inside the month's parcels and per purchase (one entry per series)
+  const interestMetrics = useMemo(() => {
+    const monthInterest = expenses
+      .filter(e => e.type === 'installment' && e.billingMonth === selectedMonth)
+      .reduce((acc, e) => acc + getParcelInterest(e), 0);
+    const seen = new Set<string>();
+    const series = expenses.flatMap(e => {
+      const key = e.originalId || e.id;
+      const interest = getExpenseInterest(e);
+      if (!interest || interest.interest <= 0 || seen.has(key)) return [];
+      seen.add(key);
+      return [{ id: key, title: e.title, total: e.installments!.total, installmentValue: e.installmentValue, ...interest }];
+    }).sort((a, b) => b.interest - a.interest);
+    return { monthInterest, series, total: series.reduce((acc, s) => acc + s.interest, 0) };
+  }, [expenses, selectedMonth]);
+
   const { cardUsageData, preferredCard } = useMemo(() => {
     const data: Record<string, number> = {};
     expenses.forEach(e => {
       const { value, paymentMethod } = getExpenseValueForMonth(e, selectedMonth);
-      if (value > 0) {
-        let name = 'Dinheiro';
-        if (paymentMethod !== 'cash') {
-          const card = cards.find(c => c.id === paymentMethod);
-          name = card ? card.name : 'Dinheiro';
-        }
+      if (value !== 0) {
+        const name = paymentMethodName(paymentMethod, cards, accounts);
         data[name] = (data[name] || 0) + value;
       }
     });
@@ -58,7 +73,7 @@ export const Dashboard = () => {
       .sort((a, b) => b.value - a.value);
       
     return { cardUsageData: sorted, preferredCard: sorted[0]?.name || 'N/A' };
-  }, [expenses, cards, selectedMonth, getExpenseValueForMonth]);
+  }, [expenses, cards, accounts, selectedMonth, getExpenseValueForMonth]);
 
   const peakExpenseMonth = useMemo(() => {
     const monthlyCounts = new Array(12).fill(0);
@@ -79,7 +94,7 @@ export const Dashboard = () => {
     const data: Record<string, number> = {};
     expenses.forEach(e => {
       const { value } = getExpenseValueForMonth(e, selectedMonth);
-      if (value > 0) {
+      if (value !== 0) {
         const catName = expenseCategories.find(c => c.id === e.categoryId)?.name || 'Outros';
         data[catName] = (data[catName] || 0) + value;
       }
@@ -87,33 +102,23 @@ export const Dashboard = () => {
     return Object.entries(data).map(([name, value]) => ({ name, value }));
   }, [expenses, expenseCategories, selectedMonth, getExpenseValueForMonth]);
 
-  // Cash Flow (Last 3 months + Next 3 months)
+  const budgetData = useMemo(() => getBudgetStatus(expenseCategories, expenses, selectedMonth, getExpenseValueForMonth).map(status => ({
+    name: status.category.name,
+    budget: status.budget,
+    spent: status.spent,
+    over: status.spent > status.budget
+  })), [expenses, expenseCategories, selectedMonth, getExpenseValueForMonth]);
+
+  // Cash Flow (Last 3 months + Next 3 months), with the balance carried over month by month
   const monthlyData = useMemo(() => {
-    const data: any[] = [];
     const today = new Date();
-    
-    for (let i = -2; i <= 3; i++) {
-        const date = addMonths(today, i);
-        const monthStr = format(date, 'yyyy-MM');
-        const label = format(date, 'MMM/yyyy', { locale: ptBR });
-        
-        // Calculate Income
-        const income = incomes.reduce((acc, inc) => acc + getIncomeValueForMonth(inc, monthStr), 0);
-        
-        // Calculate Expense
-        const expense = expenses.reduce((acc, e) => {
-          const { value } = getExpenseValueForMonth(e, monthStr);
-          return acc + value;
-        }, 0);
-
-        data.push({
-            name: label,
-            income,
-            expense
-        });
-    }
-    return data;
-  }, [expenses, incomes, getIncomeValueForMonth, getExpenseValueForMonth]);
+    return getCashFlow(format(addMonths(today, -2), 'yyyy-MM'), format(addMonths(today, 3), 'yyyy-MM')).map(month => ({
+      name: format(parseISO(month.monthYear + '-01'), 'MMM/yyyy', { locale: ptBR }),
+      income: month.income,
+      expense: month.expense,
+      balance: month.closingBalance
+    }));
+  }, [getCashFlow]);
 
   const COLORS = ['#F59E0B', '#3B82F6', '#10B981', '#8B5CF6', '#EF4444', '#6B7280'];
 
@@ -170,11 +175,12 @@ export const Dashboard = () => {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
         <StatCard title="Parcelas Ativas" value={installmentMetrics.total.toString()} sub={`${formatCurrency(installmentMetrics.remaining)} restantes`} />
         <StatCard title="Gasto Mês Atual" value={formatCurrency(monthlyData.find(m => m.name === format(parseISO(selectedMonth + '-01'), 'MMM/yyyy', { locale: ptBR }))?.expense || 0)} />
         <StatCard title="Cartão Preferido" value={preferredCard} />
         <StatCard title="Mês de Pico" value={peakExpenseMonth} />
+        <StatCard title="Juros no Mês" value={formatCurrency(interestMetrics.monthInterest)} sub={`${formatCurrency(interestMetrics.total)} em juros nas compras parceladas`} />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -209,7 +215,7 @@ export const Dashboard = () => {
         </Card>
 
         <Card className="h-[400px] flex flex-col">
-          <h3 className="text-lg font-medium text-zinc-300 mb-4">Cartões e Dinheiro</h3>
+          <h3 className="text-lg font-medium text-zinc-300 mb-4">Cartões e Contas</h3>
           <div className="flex-1">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={cardUsageData} layout="vertical">
@@ -223,7 +229,7 @@ export const Dashboard = () => {
                 />
                 <Bar dataKey="value" name="Total Gasto" fill="#8B5CF6" radius={[0, 4, 4, 0]} barSize={32}>
                   {cardUsageData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.name === 'Dinheiro' ? '#6B7280' : COLORS[index % COLORS.length]} />
+                    <Cell key={`cell-${index}`} fill={entry.name === CASH_LABEL ? '#6B7280' : COLORS[index % COLORS.length]} />
                   ))}
                 </Bar>
               </BarChart>
@@ -235,7 +241,7 @@ export const Dashboard = () => {
           <h3 className="text-lg font-medium text-zinc-300 mb-4">Fluxo de Caixa (6 Meses)</h3>
           <div className="flex-1">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={monthlyData}>
+              <ComposedChart data={monthlyData}>
                 <XAxis dataKey="name" stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} />
                 <YAxis stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `R$${value/1000}k`} />
                 <Tooltip 
@@ -247,10 +253,61 @@ export const Dashboard = () => {
                 <Legend />
                 <Bar dataKey="income" name="Receitas" fill="#10B981" radius={[4, 4, 0, 0]} />
                 <Bar dataKey="expense" name="Despesas" fill="#EF4444" radius={[4, 4, 0, 0]} />
-              </BarChart>
+                <Line type="monotone" dataKey="balance" name="Saldo em Conta" stroke="#3B82F6" strokeWidth={2} dot={{ r: 3 }} connectNulls={false} />
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
         </Card>
+
+        {interestMetrics.series.length > 0 && (
+          <Card className="flex flex-col lg:col-span-2">
+            <h3 className="text-lg font-medium text-zinc-300 mb-4">Juros por Compra</h3>
+            <div className="space-y-2">
+              {interestMetrics.series.map(s => (
+                <div key={s.id} className="flex items-center justify-between gap-4 p-3 rounded-xl bg-zinc-900 border border-zinc-800">
+                  <div className="min-w-0">
+                    <p className="font-medium text-zinc-200 truncate">{s.title}</p>
+                    <p className="text-xs text-zinc-500">
+                      {s.total}x de {formatCurrency(s.installmentValue)} • à vista {formatCurrency(s.cashPrice)} • {formatRate(s.monthlyRate)} a.m. • CET {formatRate(s.cet)} a.a.
+                    </p>
+                  </div>
+                  <span className="font-bold text-red-500 shrink-0">{formatCurrency(s.interest)}</span>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        <Card className="h-[400px] flex flex-col lg:col-span-2">
+          <h3 className="text-lg font-medium text-zinc-300 mb-4">Orçamento x Realizado</h3>
+          {budgetData.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-sm text-zinc-500 text-center">
+              Defina orçamentos nas categorias de despesa para acompanhar os gastos do mês.
+            </div>
+          ) : (
+            <div className="flex-1">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={budgetData}>
+                  <XAxis dataKey="name" stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `R$${value}`} />
+                  <Tooltip 
+                    cursor={{ fill: '#27272a' }}
+                    contentStyle={{ backgroundColor: '#18181b', borderColor: '#27272a', borderRadius: '8px' }}
+                    itemStyle={{ color: '#e4e4e7' }}
+                    formatter={(value: number) => formatCurrency(value)}
+                  />
+                  <Legend />
+                  <Bar dataKey="budget" name="Orçamento" fill="#3f3f46" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="spent" name="Realizado" fill="#10B981" radius={[4, 4, 0, 0]}>
+                    {budgetData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.over ? '#EF4444' : '#10B981'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </Card>
       </div>
     </div>
   );
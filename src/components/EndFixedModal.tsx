@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button, Input } from './ui';
+import { endMonthBefore } from '../lib/recurrence';
+
+interface EndFixedModalProps {
+  title: string;
+  kind: 'receita' | 'despesa';
+  initialMonth: string;
+  onConfirm: (fromMonth: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export const EndFixedModal = ({ title, kind, initialMonth, onConfirm, onClose }: EndFixedModalProps) => {
+  const [fromMonth, setFromMonth] = useState(initialMonth);
+  const [saving, setSaving] = useState(false);
+
+  const handleConfirm = async () => {
+    if (!fromMonth) return;
+    setSaving(true);
+    await onConfirm(fromMonth);
+    setSaving(false);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-md shadow-2xl"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-zinc-100">Encerrar {kind}</h3>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <p className="text-sm text-zinc-400">
+            <span className="font-medium text-zinc-200">{title}</span> deixa de entrar nas contas a partir do mês escolhido. O histórico é mantido.
+          </p>
+          <Input label="Cancelar a partir de" type="month" value={fromMonth} onChange={e => setFromMonth(e.target.value)} />
+          {fromMonth && (
+            <p className="text-xs text-zinc-500">
+              Último mês: {format(parseISO(endMonthBefore(fromMonth) + '-01'), 'MMM/yyyy', { locale: ptBR })}
+            </p>
+          )}
+          <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+            <Button variant="ghost" onClick={onClose} className="w-full sm:w-auto">Cancelar</Button>
+            <Button variant="danger" onClick={handleConfirm} disabled={!fromMonth || saving} className="w-full sm:w-auto">
+              {saving ? 'Salvando...' : 'Encerrar'}
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
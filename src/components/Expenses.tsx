@@ -1,14 +1,22 @@
 import React, { useState, useRef } from 'react';
 import { useFinance } from '../hooks/useFinance';
 import { Card, Button, Input, Select } from './ui';
-import { Plus, Trash2, Calendar, CreditCard as CardIcon, DollarSign, MessageSquare, List, Send, Check, Edit2, ArrowLeft, ArrowRight, ChevronDown, X, Search, Filter, Clock, Pause, Play } from 'lucide-react';
+import { Plus, Trash2, Calendar, CreditCard as CardIcon, DollarSign, MessageSquare, List, Send, Check, Edit2, ArrowLeft, ArrowRight, ChevronDown, X, Search, Filter, Clock, Pause, Play, Upload, CalendarX2, ArchiveRestore, Layers, Undo2 } from 'lucide-react';
 import { formatCurrency, cn } from '../utils';
 import { format, parseISO, addMonths, subMonths, eachMonthOfInterval } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { parseTransactionText } from '../services/geminiService';
-import { ExtractedData, Expense } from '../types';
+import { ExtractedData, Expense, Recurrence, RecurrenceFrequency } from '../types';
 import { motion, AnimatePresence } from 'motion/react';
 import { LoginModal } from './LoginModal';
+import { getBillingMonth } from '../lib/billing';
+import { StatementImport } from './StatementImport';
+import { RECURRENCE_LABELS, describeRecurrence, getExpenseEndMonth, isArchived, isExpenseDueInMonth, monthName } from '../lib/recurrence';
+import { EndFixedModal } from './EndFixedModal';
+import { InstallmentSeriesModal } from './InstallmentSeriesModal';
+import { RefundModal } from './RefundModal';
+import { formatRate, getInstallmentInterest } from '../lib/interest';
+import { paymentMethodName } from '../lib/accounts';
 
 interface FilterState {
   categoryId: string;
@@ -26,12 +34,41 @@ const initialFilters: FilterState = {
   type: 'all',
 };
 
+interface RecurrenceForm {
+  frequency: RecurrenceFrequency;
+  months: number[];
+  startMonth: string;
+  endMonth: string;
+}
+
+const recurrenceForm = (recurrence?: Recurrence | null, startMonth = ''): RecurrenceForm => ({
+  frequency: recurrence?.frequency || 'monthly',
+  months: recurrence?.months || [],
+  startMonth: recurrence?.startMonth || startMonth,
+  endMonth: recurrence?.endMonth || '',
+});
+
+// New fixed expenses start in the current month
+const newRecurrenceForm = () => recurrenceForm(undefined, format(new Date(), 'yyyy-MM'));
+
+// null clears the rule of an existing expense (every month, no bounds)
+const toRecurrence = (form: RecurrenceForm): Recurrence | null => {
+  if (form.frequency === 'monthly' && !form.startMonth && !form.endMonth) return null;
+  return {
+    frequency: form.frequency,
+    months: form.frequency === 'custom' ? [...form.months].sort((a, b) => a - b) : undefined,
+    startMonth: form.startMonth || undefined,
+    endMonth: form.endMonth || undefined,
+  };
+};
+
 export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseId?: string | null, onClearEditing?: () => void }) => {
   const { 
     user,
     expenses, 
     expenseCategories, 
     cards, 
+    accounts,
     addExpense, 
     addInstallmentExpense, 
     updateExpense, 
@@ -40,18 +77,26 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
     lastUsedPaymentMethod,
     setLastUsedPaymentMethod,
     getExpenseValueForMonth,
+    getCardLimit,
     expensePayments,
     togglePauseFixedExpense,
+    endFixedExpense,
     deleteFixedExpenseHistoryItem
   } = useFinance();
-  const [activeTab, setActiveTab] = useState<'manual' | 'fixed' | 'chat'>('manual');
+  const [activeTab, setActiveTab] = useState<'manual' | 'fixed' | 'chat' | 'import'>('manual');
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [isMonthDropdownOpen, setIsMonthDropdownOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isFilterModalOpen, setIsFilterModalOpen] = useState(false);
   const [activeFilters, setActiveFilters] = useState<FilterState>(initialFilters);
   const [historyModalData, setHistoryModalData] = useState<{ expenseId: string; title: string; history: any[] } | null>(null);
-  const [fixedEditData, setFixedEditData] = useState<{ id: string, effectiveMonth: string, totalValue: number, paymentMethod: string, title: string, categoryId: string } | null>(null);
+  const [fixedEditData, setFixedEditData] = useState<{ id: string, effectiveMonth: string, totalValue: number, paymentMethod: string, title: string, categoryId: string, recurrence: Recurrence | null } | null>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceForm>(newRecurrenceForm);
+  const [endingExpense, setEndingExpense] = useState<Expense | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [seriesId, setSeriesId] = useState<string | null>(null);
+  // { expense: undefined } = standalone credit
+  const [refunding, setRefunding] = useState<{ expense?: Expense } | null>(null);
 
   // Default tab logic based on login
   React.useEffect(() => {
@@ -68,11 +113,14 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
     updates: Partial<Expense>;
   } | null>(null);
 
+  // Invoice month for a purchase made today with the given payment method
+  const defaultBillingMonth = (paymentMethod: string) => getBillingMonth(new Date().toISOString().slice(0, 10), paymentMethod, cards);
+
   // Form State
   const [formData, setFormData] = useState({
     id: '',
     purchaseDate: new Date().toISOString().slice(0, 10),
-    billingMonth: format(addMonths(new Date(), 1), 'yyyy-MM'), // Default next month
+    billingMonth: defaultBillingMonth(lastUsedPaymentMethod || 'cash'),
     title: '',
     categoryId: '',
     paymentMethod: lastUsedPaymentMethod || 'cash', // 'cash' or cardId
@@ -80,6 +128,7 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
     totalInstallments: 2,
     totalValue: '',
     installmentValue: '',
+    cashPrice: '',
     effectiveMonth: format(new Date(), 'yyyy-MM'),
   });
 
@@ -92,6 +141,7 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
           setActiveTab('fixed');
           // For fixed, we show the latest value in history
           const latest = exp.valueHistory?.[exp.valueHistory.length - 1];
+          setRecurrence(recurrenceForm(exp.recurrence));
           setFormData({
             id: exp.id,
             purchaseDate: exp.purchaseDate,
@@ -103,6 +153,7 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
             totalInstallments: 1,
             totalValue: (latest?.value || exp.totalValue).toString(),
             installmentValue: (latest?.value || exp.totalValue).toString(),
+            cashPrice: '',
           });
         } else {
           setActiveTab('manual');
@@ -117,6 +168,7 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
             totalInstallments: exp.installments?.total || 1,
             totalValue: exp.totalValue.toString(),
             installmentValue: exp.installmentValue.toString(),
+            cashPrice: exp.cashPrice ? exp.cashPrice.toString() : '',
           });
         }
       }
@@ -160,10 +212,21 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
   };
 
   const handlePurchaseDateChange = (date: string) => {
-    const nextMonth = format(addMonths(parseISO(date), 1), 'yyyy-MM');
-    setFormData(prev => ({ ...prev, purchaseDate: date, billingMonth: nextMonth }));
+    setFormData(prev => ({ ...prev, purchaseDate: date, billingMonth: getBillingMonth(date, prev.paymentMethod, cards) }));
+  };
+
+  const handlePaymentMethodChange = (paymentMethod: string) => {
+    setFormData(prev => ({ ...prev, paymentMethod, billingMonth: getBillingMonth(prev.purchaseDate, paymentMethod, cards) }));
   };
 
+  // New purchases on a card with a limit are checked against what is still available
+  const formLimit = activeTab === 'manual' && !formData.id ? getCardLimit(formData.paymentMethod) : null;
+  const exceedsLimit = !!formLimit && (parseFloat(formData.totalValue) || 0) > formLimit.available;
+
+  const formInterest = formData.isInstallment
+    ? getInstallmentInterest(parseFloat(formData.cashPrice), parseFloat(formData.installmentValue) || 0, formData.totalInstallments)
+    : null;
+
   const handlePrevMonth = () => setViewMonth(prev => format(subMonths(parseISO(prev + '-01'), 1), 'yyyy-MM'));
   const handleNextMonth = () => setViewMonth(prev => format(addMonths(parseISO(prev + '-01'), 1), 'yyyy-MM'));
 
@@ -184,8 +247,10 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
       totalInstallments: exp.installments?.total || 1,
       totalValue: exp.totalValue.toString(),
       installmentValue: exp.installmentValue.toString(),
+      cashPrice: exp.cashPrice ? exp.cashPrice.toString() : '',
       effectiveMonth: viewMonth,
     });
+    if (exp.type === 'fixed') setRecurrence(recurrenceForm(exp.recurrence));
     setActiveTab(exp.type === 'fixed' ? 'fixed' : 'manual');
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
@@ -193,9 +258,11 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.title || !formData.totalValue) return;
+    if (activeTab === 'fixed' && recurrence.frequency === 'custom' && !recurrence.months.length) return;
 
     const totalVal = parseFloat(formData.totalValue);
     const instVal = formData.isInstallment ? parseFloat(formData.installmentValue) : totalVal;
+    const cashPrice = formData.isInstallment ? parseFloat(formData.cashPrice) || undefined : undefined;
 
     if (formData.id) {
       // Update existing
@@ -206,7 +273,9 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
         totalValue: totalVal,
         installmentValue: instVal,
         paymentMethod: formData.paymentMethod,
-        installments: formData.isInstallment ? { current: exp?.installments?.current || 1, total: formData.totalInstallments } : undefined
+        installments: formData.isInstallment ? { current: exp?.installments?.current || 1, total: formData.totalInstallments } : undefined,
+        // null clears a cash price removed in the form
+        cashPrice: formData.isInstallment ? cashPrice || null : undefined
       };
 
       if (activeTab === 'fixed') {
@@ -216,10 +285,11 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
           totalValue: totalVal,
           paymentMethod: formData.paymentMethod,
           title: formData.title,
-          categoryId: formData.categoryId
+          categoryId: formData.categoryId,
+          recurrence: toRecurrence(recurrence)
         });
         return; // Wait for modal confirmation
-      } else if (exp?.originalId) {
+      } else if (exp?.type === 'installment' && exp.originalId) {
         // It's an installment, show modal
         setInstallmentEditData({ expense: exp, updates });
       } else {
@@ -236,6 +306,7 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
         isInstallment: formData.isInstallment,
         totalValue: totalVal,
         installmentValue: instVal,
+        cashPrice,
         paymentMethod: formData.paymentMethod,
         isPaid: false,
       };
@@ -244,7 +315,8 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
         await addExpense({
           ...baseData,
           type: 'fixed',
-          valueHistory: [{ monthYear: formData.effectiveMonth, value: totalVal, paymentMethod: formData.paymentMethod }]
+          valueHistory: [{ monthYear: recurrence.startMonth || formData.effectiveMonth, value: totalVal, paymentMethod: formData.paymentMethod }],
+          recurrence: toRecurrence(recurrence)
         });
       } else if (formData.isInstallment) {
         await addInstallmentExpense(baseData, formData.billingMonth, formData.totalInstallments);
@@ -255,12 +327,13 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
 
     // Save last used payment method
     setLastUsedPaymentMethod(formData.paymentMethod);
+    setRecurrence(newRecurrenceForm());
 
     // Reset form
     setFormData({
       id: '',
       purchaseDate: new Date().toISOString().slice(0, 10),
-      billingMonth: format(addMonths(new Date(), 1), 'yyyy-MM'),
+      billingMonth: defaultBillingMonth(formData.paymentMethod),
       title: '',
       categoryId: '',
       paymentMethod: formData.paymentMethod, // Keep the last used one
@@ -268,6 +341,7 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
       totalInstallments: 2,
       totalValue: '',
       installmentValue: '',
+      cashPrice: '',
       effectiveMonth: format(new Date(), 'yyyy-MM'),
     });
   };
@@ -275,7 +349,8 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
   const handleConfirmFixedEdit = async (isException: boolean) => {
     if (!fixedEditData) return;
     await updateFixedExpenseValue(fixedEditData.id, fixedEditData.effectiveMonth, fixedEditData.totalValue, fixedEditData.paymentMethod, isException);
-    await updateExpense(fixedEditData.id, { title: fixedEditData.title, categoryId: fixedEditData.categoryId });
+    await updateExpense(fixedEditData.id, { title: fixedEditData.title, categoryId: fixedEditData.categoryId, recurrence: fixedEditData.recurrence });
+    setRecurrence(newRecurrenceForm());
     
     setLastUsedPaymentMethod(fixedEditData.paymentMethod);
     setFixedEditData(null);
@@ -284,7 +359,7 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
     setFormData({
       id: '',
       purchaseDate: new Date().toISOString().slice(0, 10),
-      billingMonth: format(addMonths(new Date(), 1), 'yyyy-MM'),
+      billingMonth: defaultBillingMonth(fixedEditData.paymentMethod),
       title: '',
       categoryId: '',
       paymentMethod: fixedEditData.paymentMethod,
@@ -292,6 +367,7 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
       totalInstallments: 2,
       totalValue: '',
       installmentValue: '',
+      cashPrice: '',
       effectiveMonth: format(new Date(), 'yyyy-MM'),
     });
   };
@@ -306,7 +382,9 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
     }
     return { ...e, currentMonthValue: value, currentMonthPaymentMethod: paymentMethod, isPaid };
   }).filter(e => {
-    if (e.currentMonthValue <= 0 && e.type !== 'fixed') return false;
+    if (e.currentMonthValue === 0 && e.type !== 'fixed') return false;
+    // Fixed expenses outside their recurrence have nothing due (unlike paused ones)
+    if (e.type === 'fixed' && !isExpenseDueInMonth(e, viewMonth)) return false;
     
     // Search Query
     if (searchQuery) {
@@ -330,8 +408,8 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
     return true;
   }).sort((a, b) => {
     // Paused (value 0) at the bottom
-    if (a.currentMonthValue === 0 && b.currentMonthValue > 0) return 1;
-    if (a.currentMonthValue > 0 && b.currentMonthValue === 0) return -1;
+    if (a.currentMonthValue === 0 && b.currentMonthValue !== 0) return 1;
+    if (a.currentMonthValue !== 0 && b.currentMonthValue === 0) return -1;
 
     // Sort by createdAt desc (newest created first)
     const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
@@ -342,6 +420,8 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
     return new Date(b.purchaseDate).getTime() - new Date(a.purchaseDate).getTime();
   });
 
+  const archivedExpenses = expenses.filter(e => e.type === 'fixed' && isArchived(getExpenseEndMonth(e)));
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
@@ -377,6 +457,16 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
             <MessageSquare className="w-4 h-4" /> 
             <span>Chat IA</span>
           </button>
+          <button
+            onClick={() => setActiveTab('import')}
+            className={cn(
+              "flex-1 sm:flex-none px-3 sm:px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center justify-center gap-2 whitespace-nowrap",
+              activeTab === 'import' ? "bg-yellow-500/10 text-yellow-500" : "text-zinc-400 hover:text-zinc-200"
+            )}
+          >
+            <Upload className="w-4 h-4" /> 
+            <span>Extrato</span>
+          </button>
         </div>
       </div>
 
@@ -405,7 +495,9 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
         )
       )}
 
-      {activeTab !== 'chat' && (
+      {activeTab === 'import' && <StatementImport />}
+
+      {(activeTab === 'manual' || activeTab === 'fixed') && (
         <Card className="border-yellow-500/50 p-4 sm:p-6">
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -446,9 +538,12 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
               <Select
                 label="Método de Pagamento"
                 value={formData.paymentMethod}
-                onChange={e => setFormData({ ...formData, paymentMethod: e.target.value })}
+                onChange={e => handlePaymentMethodChange(e.target.value)}
               >
-                <option value="cash">Dinheiro / Débito</option>
+                <option value="cash">Dinheiro</option>
+                {accounts.map(a => (
+                  <option key={a.id} value={a.id}>Conta: {a.name}</option>
+                ))}
                 {cards.map(c => (
                   <option key={c.id} value={c.id}>Cartão: {c.name}</option>
                 ))}
@@ -481,8 +576,12 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
                 </>
               )}
 
+              {activeTab === 'fixed' && (
+                <RecurrenceFields value={recurrence} onChange={setRecurrence} />
+              )}
+
               <Input 
-                label={activeTab === 'fixed' ? "Valor Mensal" : (formData.isInstallment ? "Valor Total" : "Valor")} 
+                label={activeTab === 'fixed' ? (recurrence.frequency === 'monthly' ? "Valor Mensal" : "Valor por Cobrança") : (formData.isInstallment ? "Valor Total" : "Valor")} 
                 type="number" step="0.01"
                 value={formData.totalValue} 
                 onChange={e => handleTotalValueChange(e.target.value)}
@@ -508,16 +607,40 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
                   required
                 />
               )}
+
+              {activeTab === 'manual' && formData.isInstallment && (
+                <Input 
+                  label="Preço à Vista (se tiver juros)" 
+                  type="number" step="0.01" min="0"
+                  value={formData.cashPrice} 
+                  onChange={e => setFormData({...formData, cashPrice: e.target.value})}
+                />
+              )}
+
+              {activeTab === 'manual' && formInterest && (
+                <div className="md:col-span-2 p-3 bg-yellow-500/10 rounded-xl border border-yellow-500/20 text-yellow-500 text-xs text-center font-medium">
+                  {formInterest.interest > 0
+                    ? `Juros: ${formatCurrency(formInterest.interest)} • ${formatRate(formInterest.monthlyRate)} a.m. • CET ${formatRate(formInterest.cet)} a.a.`
+                    : 'Sem juros: as parcelas somam o preço à vista.'}
+                </div>
+              )}
+
+              {exceedsLimit && (
+                <div className="md:col-span-2 p-3 bg-red-500/10 rounded-xl border border-red-500/20 text-red-500 text-xs text-center font-medium">
+                  Esta compra ultrapassa o limite disponível do cartão ({formatCurrency(formLimit!.available)}).
+                </div>
+              )}
             </div>
 
             <div className="flex justify-end gap-2 pt-2">
               {formData.id && (
                 <Button type="button" variant="ghost" onClick={() => {
                   if (onClearEditing) onClearEditing();
+                  setRecurrence(newRecurrenceForm());
                   setFormData({
                     id: '',
                     purchaseDate: new Date().toISOString().slice(0, 10),
-                    billingMonth: format(addMonths(new Date(), 1), 'yyyy-MM'),
+                    billingMonth: defaultBillingMonth('cash'),
                     title: '',
                     categoryId: '',
                     paymentMethod: 'cash',
@@ -525,6 +648,7 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
                     totalInstallments: 2,
                     totalValue: '',
                     installmentValue: '',
+                    cashPrice: '',
                     effectiveMonth: format(new Date(), 'yyyy-MM'),
                   });
                 }}>
@@ -539,6 +663,44 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
         </Card>
       )}
 
+      {/* Ended fixed expenses */}
+      {activeTab === 'fixed' && archivedExpenses.length > 0 && (
+        <div className="space-y-2">
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="flex items-center gap-2 text-sm font-medium text-zinc-400 hover:text-zinc-200 transition-colors"
+          >
+            <ChevronDown className={cn("w-4 h-4 transition-transform", showArchived && "rotate-180")} />
+            Fixas encerradas ({archivedExpenses.length})
+          </button>
+          {showArchived && archivedExpenses.map(exp => (
+            <div key={exp.id} className="bg-zinc-900/30 border border-zinc-800 p-3 sm:p-4 rounded-xl flex items-center justify-between opacity-70">
+              <div>
+                <h4 className="font-medium text-zinc-400 text-sm sm:text-base">{exp.title}</h4>
+                <p className="text-[10px] sm:text-xs text-zinc-500">
+                  Encerrada em {format(parseISO(getExpenseEndMonth(exp) + '-01'), 'MMM/yyyy', { locale: ptBR })}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <button 
+                  onClick={() => endFixedExpense(exp.id, null)}
+                  className="p-2 text-zinc-600 hover:text-emerald-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+                  title="Reativar"
+                >
+                  <ArchiveRestore className="w-4 h-4" />
+                </button>
+                <button 
+                  onClick={() => deleteExpense(exp.id)}
+                  className="p-2 text-zinc-600 hover:text-red-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Unified List Section */}
       <div className="space-y-4">
         {/* Search and Filter Bar */}
@@ -563,6 +725,15 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
               <span className="absolute top-2 right-2 w-2 h-2 bg-yellow-500 rounded-full" />
             )}
           </Button>
+          <Button 
+            variant="secondary" 
+            size="icon" 
+            className="shrink-0"
+            title="Estorno / Crédito"
+            onClick={() => setRefunding({})}
+          >
+            <Undo2 className="w-4 h-4" />
+          </Button>
         </div>
 
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
@@ -620,14 +791,32 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
           expenses={filteredExpenses} 
           expenseCategories={expenseCategories} 
           cards={cards} 
+          accounts={accounts}
           onEdit={handleEditExpense} 
           onDelete={deleteExpense} 
           onShowHistory={(expenseId, title, history) => setHistoryModalData({ expenseId, title, history })}
           onTogglePause={togglePauseFixedExpense}
+          onEnd={setEndingExpense}
+          onShowSeries={setSeriesId}
+          onRefund={expense => setRefunding({ expense })}
           viewMonth={viewMonth}
         />
       </div>
       {showLoginModal && <LoginModal onClose={() => setShowLoginModal(false)} />}
+
+      {seriesId && <InstallmentSeriesModal originalId={seriesId} onClose={() => setSeriesId(null)} />}
+
+      {refunding && <RefundModal expense={refunding.expense} onClose={() => setRefunding(null)} />}
+
+      {endingExpense && (
+        <EndFixedModal
+          title={endingExpense.title}
+          kind="despesa"
+          initialMonth={viewMonth}
+          onConfirm={fromMonth => endFixedExpense(endingExpense.id, fromMonth)}
+          onClose={() => setEndingExpense(null)}
+        />
+      )}
       
       <FilterModal 
         isOpen={isFilterModalOpen}
@@ -636,6 +825,7 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
         initialFilters={activeFilters}
         categories={expenseCategories}
         cards={cards}
+        accounts={accounts}
       />
 
       <HistoryModal 
@@ -764,13 +954,71 @@ export const Expenses = ({ editingExpenseId, onClearEditing }: { editingExpenseI
   );
 };
 
+const RecurrenceFields = ({ value, onChange }: { value: RecurrenceForm, onChange: (value: RecurrenceForm) => void }) => {
+  const toggleMonth = (month: number) => onChange({
+    ...value,
+    months: value.months.includes(month) ? value.months.filter(m => m !== month) : [...value.months, month]
+  });
+
+  return (
+    <>
+      <Select
+        label="Repetição"
+        value={value.frequency}
+        onChange={e => onChange({ ...value, frequency: e.target.value as RecurrenceFrequency })}
+      >
+        {(Object.keys(RECURRENCE_LABELS) as RecurrenceFrequency[]).map(frequency => (
+          <option key={frequency} value={frequency}>{RECURRENCE_LABELS[frequency]}</option>
+        ))}
+      </Select>
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          label="Início"
+          type="month"
+          value={value.startMonth}
+          onChange={e => onChange({ ...value, startMonth: e.target.value })}
+        />
+        <Input
+          label="Fim (opcional)"
+          type="month"
+          value={value.endMonth}
+          min={value.startMonth || undefined}
+          onChange={e => onChange({ ...value, endMonth: e.target.value })}
+        />
+      </div>
+      {value.frequency === 'custom' && (
+        <div className="md:col-span-2 space-y-1">
+          <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Meses da cobrança</label>
+          <div className="grid grid-cols-6 sm:grid-cols-12 gap-2">
+            {Array.from({ length: 12 }, (_, i) => i + 1).map(month => (
+              <button
+                key={month}
+                type="button"
+                onClick={() => toggleMonth(month)}
+                className={cn(
+                  "py-2 rounded-lg text-xs font-medium border transition-colors capitalize",
+                  value.months.includes(month) ? "bg-yellow-500/10 text-yellow-500 border-yellow-500/50" : "border-zinc-800 text-zinc-400 hover:bg-zinc-800"
+                )}
+              >
+                {monthName(month)}
+              </button>
+            ))}
+          </div>
+          {value.months.length === 0 && <p className="text-xs text-red-500">Escolha pelo menos um mês.</p>}
+        </div>
+      )}
+    </>
+  );
+};
+
 const FilterModal = ({ 
   isOpen, 
   onClose, 
   onApply, 
   initialFilters, 
   categories, 
-  cards 
+  cards,
+  accounts
 }: { 
   isOpen: boolean; 
   onClose: () => void; 
@@ -778,6 +1026,7 @@ const FilterModal = ({
   initialFilters: FilterState;
   categories: any[];
   cards: any[];
+  accounts: any[];
 }) => {
   const [filters, setFilters] = useState(initialFilters);
 
@@ -832,7 +1081,10 @@ const FilterModal = ({
               onChange={e => setFilters({ ...filters, paymentMethod: e.target.value })}
             >
               <option value="">Todos</option>
-              <option value="cash">Dinheiro / Débito</option>
+              <option value="cash">Dinheiro</option>
+              {accounts.map(a => (
+                <option key={a.id} value={a.id}>Conta: {a.name}</option>
+              ))}
               {cards.map(c => (
                 <option key={c.id} value={c.id}>Cartão: {c.name}</option>
               ))}
@@ -889,19 +1141,27 @@ const ExpenseList = ({
   expenses, 
   expenseCategories, 
   cards, 
+  accounts,
   onEdit, 
   onDelete,
   onShowHistory,
   onTogglePause,
+  onEnd,
+  onShowSeries,
+  onRefund,
   viewMonth
 }: { 
   expenses: any[], 
   expenseCategories: any[], 
   cards: any[], 
+  accounts: any[],
   onEdit: (exp: any) => void, 
   onDelete: (id: string) => void,
   onShowHistory: (expenseId: string, title: string, history: any[]) => void,
   onTogglePause: (id: string, monthYear: string) => void,
+  onEnd: (exp: Expense) => void,
+  onShowSeries: (originalId: string) => void,
+  onRefund: (exp: Expense) => void,
   viewMonth: string
 }) => {
   if (expenses.length === 0) {
@@ -913,20 +1173,24 @@ const ExpenseList = ({
       {expenses.map(exp => {
         const category = expenseCategories.find(c => c.id === exp.categoryId);
         const card = cards.find(c => c.id === (exp as any).currentMonthPaymentMethod);
+        // Where a non-card expense is paid from; none means loose cash
+        const source = card || accounts.find(a => a.id === (exp as any).currentMonthPaymentMethod);
         const displayValue = (exp as any).currentMonthValue;
         const isPaid = (exp as any).isPaid;
         const isPaused = exp.type === 'fixed' && displayValue === 0;
+        const isRefund = exp.type === 'refund';
         
         return (
           <div key={exp.id} className={cn("bg-zinc-900/50 border border-zinc-800 p-3 sm:p-4 rounded-xl flex items-center justify-between group", (isPaid || isPaused) && "opacity-60")}>
             <div className="flex items-center gap-3 sm:gap-4">
-              <div className={cn("p-2 rounded-lg", isPaused ? "bg-zinc-500/10 text-zinc-500" : "bg-red-500/10 text-red-500")}>
+              <div className={cn("p-2 rounded-lg", isPaused ? "bg-zinc-500/10 text-zinc-500" : isRefund ? "bg-emerald-500/10 text-emerald-500" : "bg-red-500/10 text-red-500")}>
                 {card ? <CardIcon className="w-4 h-4 sm:w-5 sm:h-5" /> : <DollarSign className="w-4 h-4 sm:w-5 sm:h-5" />}
               </div>
               <div>
                 <h4 className={cn("font-medium text-zinc-200 text-sm sm:text-base", isPaid && "line-through opacity-70", isPaused && "text-zinc-500")}>
                   {exp.title}
                   {isPaused && <span className="ml-2 text-[10px] bg-zinc-800 text-zinc-400 px-2 py-0.5 rounded-full">Pausada</span>}
+                  {isRefund && <span className="ml-2 text-[10px] bg-emerald-500/20 text-emerald-500 px-2 py-0.5 rounded-full">Estorno</span>}
                 </h4>
                 <div className="flex flex-wrap gap-x-2 gap-y-1 items-center text-[10px] sm:text-xs text-zinc-500">
                   <span>{format(parseISO(exp.purchaseDate), 'dd/MM/yyyy')}</span>
@@ -935,7 +1199,7 @@ const ExpenseList = ({
                   <span className="text-zinc-600">•</span>
                   <span style={{ color: category?.color }}>{category?.name}</span>
                   <span className="text-zinc-600">•</span>
-                  {(exp as any).currentMonthPaymentMethod === 'cash' || !card ? (
+                  {!source ? (
                     <span className="bg-zinc-800 text-zinc-300 px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium border border-zinc-700/50">
                       Dinheiro
                     </span>
@@ -943,15 +1207,17 @@ const ExpenseList = ({
                     <span 
                       className="px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium border"
                       style={{ 
-                        backgroundColor: `${card.color}20`, 
-                        color: card.color, 
-                        borderColor: `${card.color}40` 
+                        backgroundColor: `${source.color}20`, 
+                        color: source.color, 
+                        borderColor: `${source.color}40` 
                       }}
                     >
-                      {card.name}
+                      {source.name}
                     </span>
                   )}
-                  {exp.type === 'fixed' && <span className="text-emerald-500 ml-1">• Fixa</span>}
+                  {exp.type === 'fixed' && (
+                    <span className="text-emerald-500 ml-1">• Fixa{exp.recurrence && ` (${describeRecurrence(exp.recurrence)})`}</span>
+                  )}
                   {exp.installments && (
                     <>
                       <span className="text-zinc-600 ml-1">•</span>
@@ -962,7 +1228,7 @@ const ExpenseList = ({
               </div>
             </div>
             <div className="flex items-center gap-2 sm:gap-4">
-              <span className={cn("font-bold text-zinc-200 text-sm sm:text-base", isPaid && "opacity-70", isPaused && "text-zinc-500")}>{formatCurrency(displayValue)}</span>
+              <span className={cn("font-bold text-zinc-200 text-sm sm:text-base", isPaid && "opacity-70", isPaused && "text-zinc-500", isRefund && "text-emerald-500")}>{formatCurrency(displayValue)}</span>
               <div className="flex gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-all">
                 {exp.type === 'fixed' && (
                   <>
@@ -980,8 +1246,33 @@ const ExpenseList = ({
                     >
                       <Clock className="w-4 h-4" />
                     </button>
+                    <button 
+                      onClick={() => onEnd(exp)}
+                      className="p-2 text-zinc-600 hover:text-red-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+                      title="Encerrar"
+                    >
+                      <CalendarX2 className="w-4 h-4" />
+                    </button>
                   </>
                 )}
+                {exp.type === 'installment' && exp.originalId && (
+                  <button 
+                    onClick={() => onShowSeries(exp.originalId)}
+                    className="p-2 text-zinc-600 hover:text-yellow-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+                    title="Ver parcelas"
+                  >
+                    <Layers className="w-4 h-4" />
+                  </button>
+                )}
+                {(exp.type === 'one_time' || exp.type === 'installment') && (
+                  <button 
+                    onClick={() => onRefund(exp)}
+                    className="p-2 text-zinc-600 hover:text-emerald-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+                    title="Estornar"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </button>
+                )}
                 <button 
                   onClick={() => onEdit(exp)}
                   className="p-2 text-zinc-600 hover:text-yellow-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
@@ -1015,7 +1306,7 @@ const ExpenseChat = ({
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [pendingExpenses, setPendingExpenses] = useState<ExtractedData[]>([]);
-  const { cards, expenseCategories, addExpense, addInstallmentExpense, lastUsedPaymentMethod, setLastUsedPaymentMethod } = useFinance();
+  const { cards, accounts, expenseCategories, addExpense, addInstallmentExpense, lastUsedPaymentMethod, setLastUsedPaymentMethod, getCardLimit } = useFinance();
   const [messages, setMessages] = useState<{ role: 'user' | 'ai'; content: string }[]>([
     { role: 'ai', content: 'Olá! Sou seu tutor financeiro. Me diga quanto você gastou e com o quê.' }
   ]);
@@ -1033,9 +1324,8 @@ const ExpenseChat = ({
     try {
       const history = newMessages; 
       const categories = expenseCategories.map(c => c.name);
-      const cardNames = cards.map(c => c.name);
       
-      const result = await parseTransactionText(userText, history, categories, cardNames);
+      const result = await parseTransactionText(userText, history, categories, cards, accounts);
       
       const expensesWithIds = result.expenses.map(exp => ({
         ...exp,
@@ -1052,30 +1342,52 @@ const ExpenseChat = ({
     }
   };
 
+  // Map the payment method name returned by the AI to 'cash', an account id or a card id
+  const resolvePaymentMethod = (name?: string) => {
+    if (!name) return lastUsedPaymentMethod || 'cash';
+    const lowerPM = name.toLowerCase();
+    if (lowerPM === 'dinheiro' || lowerPM === 'cash') return 'cash';
+    const foundCard = cards.find(c => c.name.toLowerCase().includes(lowerPM));
+    const foundAccount = accounts.find(a => a.name.toLowerCase().includes(lowerPM));
+    return foundCard?.id || foundAccount?.id || lastUsedPaymentMethod || 'cash';
+  };
+
+  // The invoice month follows the card's closing day unless the user asked for a specific one
+  const resolveBillingMonth = (data: ExtractedData) => {
+    if (data.billingMonthExplicit && data.billingMonth) return data.billingMonth;
+    const purchaseDate = data.purchaseDate || new Date().toISOString().slice(0, 10);
+    return getBillingMonth(purchaseDate, resolvePaymentMethod(data.paymentMethod), cards);
+  };
+
+  // Limit left on an item's card once the items listed before it are saved; null when it fits
+  const limitShortfall = (index: number) => {
+    const data = pendingExpenses[index];
+    if (data.recurrence) return null;
+    const paymentMethod = resolvePaymentMethod(data.paymentMethod);
+    const usage = getCardLimit(paymentMethod);
+    if (!usage) return null;
+    const before = pendingExpenses.slice(0, index)
+      .filter(item => !item.recurrence && resolvePaymentMethod(item.paymentMethod) === paymentMethod)
+      .reduce((sum, item) => sum + (item.value || 0), 0);
+    const available = usage.available - before;
+    return (data.value || 0) > available ? { available, cardName: cards.find(c => c.id === paymentMethod)?.name } : null;
+  };
+
+  const shortfalls = pendingExpenses.map((_, index) => limitShortfall(index));
+
   const handleConfirmAll = async () => {
     if (pendingExpenses.length === 0) return;
 
     for (const data of pendingExpenses) {
       // Find IDs or use defaults
       const categoryId = expenseCategories.find(c => c.name.toLowerCase() === data.category?.toLowerCase())?.id || expenseCategories[0]?.id;
-      
-      // Map payment method
-      let paymentMethod = lastUsedPaymentMethod || 'cash';
-      if (data.paymentMethod) {
-        const lowerPM = data.paymentMethod.toLowerCase();
-        if (lowerPM === 'dinheiro' || lowerPM === 'cash') {
-          paymentMethod = 'cash';
-        } else {
-          const foundCard = cards.find(c => c.name.toLowerCase().includes(lowerPM));
-          if (foundCard) paymentMethod = foundCard.id;
-        }
-      }
+      const paymentMethod = resolvePaymentMethod(data.paymentMethod);
 
       const baseData = {
         title: data.name || 'Sem título',
         categoryId,
         purchaseDate: data.purchaseDate || new Date().toISOString().slice(0, 10),
-        billingMonth: data.billingMonth || format(addMonths(new Date(), 1), 'yyyy-MM'),
+        billingMonth: resolveBillingMonth(data),
         isInstallment: data.isInstallment || (data.installments || 1) > 1,
         totalValue: data.value || 0,
         installmentValue: (data.value || 0) / (data.installments || 1),
@@ -1083,8 +1395,24 @@ const ExpenseChat = ({
         isPaid: false,
       };
 
-      if (baseData.isInstallment) {
-        await addInstallmentExpense(baseData, baseData.billingMonth, data.installments || 1);
+      if (data.recurrence) {
+        // Recurring bill: saved as a fixed expense starting at its first charge
+        const startMonth = data.recurrence.startMonth || baseData.billingMonth;
+        await addExpense({
+          ...baseData,
+          type: 'fixed',
+          isInstallment: false,
+          installmentValue: data.value || 0,
+          valueHistory: [{ monthYear: startMonth, value: data.value || 0, paymentMethod }],
+          recurrence: {
+            frequency: data.recurrence.frequency,
+            months: data.recurrence.frequency === 'custom' ? data.recurrence.months : undefined,
+            startMonth,
+            endMonth: data.recurrence.endMonth || undefined,
+          }
+        });
+      } else if (baseData.isInstallment) {
+        await addInstallmentExpense({ ...baseData, cashPrice: data.cashPrice || undefined }, baseData.billingMonth, data.installments || 1);
       } else {
         await addExpense({ ...baseData, type: 'one_time' });
       }
@@ -1092,7 +1420,7 @@ const ExpenseChat = ({
       setLastUsedPaymentMethod(paymentMethod);
     }
 
-    setMessages(prev => [...prev, { role: 'ai', content: 'Todos os lançamentos foram salvos no Supabase com sucesso!' }]);
+    setMessages(prev => [...prev, { role: 'ai', content: 'Todos os lançamentos foram salvos com sucesso!' }]);
     setPendingExpenses([]);
     
     setTimeout(() => {
@@ -1102,9 +1430,11 @@ const ExpenseChat = ({
   };
 
   const updatePendingData = (id: string, key: keyof ExtractedData, value: any) => {
-    setPendingExpenses(prev => prev.map(exp => 
-      exp.tempId === id ? { ...exp, [key]: value } : exp
-    ));
+    setPendingExpenses(prev => prev.map(exp => {
+      if (exp.tempId !== id) return exp;
+      // Picking an invoice month by hand overrides the closing day rule
+      return key === 'billingMonth' ? { ...exp, billingMonth: value, billingMonthExplicit: true } : { ...exp, [key]: value };
+    }));
   };
 
   const removePendingExpense = (id: string) => {
@@ -1176,17 +1506,13 @@ const ExpenseChat = ({
                     <div className="space-y-1">
                       <Select
                         label="Pagamento"
-                        value={data.paymentMethod === 'Dinheiro' ? 'cash' : (cards.find(c => c.name === data.paymentMethod)?.id || 'cash')}
-                        onChange={e => {
-                          const val = e.target.value;
-                          if (val === 'cash') updatePendingData(data.tempId!, 'paymentMethod', 'Dinheiro');
-                          else {
-                            const card = cards.find(c => c.id === val);
-                            updatePendingData(data.tempId!, 'paymentMethod', card?.name);
-                          }
-                        }}
+                        value={resolvePaymentMethod(data.paymentMethod)}
+                        onChange={e => updatePendingData(data.tempId!, 'paymentMethod', paymentMethodName(e.target.value, cards, accounts))}
                       >
                         <option value="cash">Dinheiro</option>
+                        {accounts.map(a => (
+                          <option key={a.id} value={a.id}>{a.name}</option>
+                        ))}
                         {cards.map(c => (
                           <option key={c.id} value={c.id}>{c.name}</option>
                         ))}
@@ -1205,15 +1531,53 @@ const ExpenseChat = ({
                       <Input 
                         label="Mês Fatura" 
                         type="month"
-                        value={data.billingMonth || ''} 
+                        value={resolveBillingMonth(data)} 
                         onChange={e => updatePendingData(data.tempId!, 'billingMonth', e.target.value)} 
                       />
                     </div>
                   </div>
 
-                  {data.isInstallment && (data.installments || 1) > 1 && (
+                  <Select
+                    label="Repetição"
+                    value={data.recurrence?.frequency || ''}
+                    onChange={e => {
+                      const frequency = e.target.value as RecurrenceFrequency;
+                      const startMonth = data.recurrence?.startMonth || resolveBillingMonth(data);
+                      updatePendingData(data.tempId!, 'recurrence', frequency ? {
+                        ...data.recurrence,
+                        frequency,
+                        startMonth,
+                        // Specific months start with the month of the first charge
+                        months: frequency === 'custom' ? (data.recurrence?.months?.length ? data.recurrence.months : [parseInt(startMonth.slice(5, 7))]) : undefined,
+                      } : null);
+                    }}
+                  >
+                    <option value="">Não repete</option>
+                    {(Object.keys(RECURRENCE_LABELS) as RecurrenceFrequency[]).map(frequency => (
+                      <option key={frequency} value={frequency}>{RECURRENCE_LABELS[frequency]}</option>
+                    ))}
+                  </Select>
+
+                  {data.recurrence && (
+                    <div className="p-3 bg-emerald-500/10 rounded-xl border border-emerald-500/20 text-emerald-500 text-sm text-center font-medium">
+                      Será salvo como despesa fixa: {describeRecurrence(data.recurrence)}, a partir de {format(parseISO(`${data.recurrence.startMonth || resolveBillingMonth(data)}-01`), 'MMM/yyyy', { locale: ptBR })}
+                    </div>
+                  )}
+
+                  {!data.recurrence && data.isInstallment && (data.installments || 1) > 1 && (
                     <div className="p-3 bg-yellow-500/10 rounded-xl border border-yellow-500/20 text-yellow-500 text-sm text-center font-medium">
                       Será salvo como: {data.installments}x de {formatCurrency((data.value || 0) / (data.installments || 1))}
+                      {data.cashPrice > 0 && data.cashPrice < (data.value || 0) && (
+                        <span className="block text-xs mt-1">
+                          À vista {formatCurrency(data.cashPrice)} • juros de {formatCurrency((data.value || 0) - data.cashPrice)} • CET {formatRate(getInstallmentInterest(data.cashPrice, (data.value || 0) / (data.installments || 1), data.installments || 1)!.cet)} a.a.
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  {shortfalls[index] && (
+                    <div className="p-3 bg-red-500/10 rounded-xl border border-red-500/20 text-red-500 text-sm text-center font-medium">
+                      Ultrapassa o limite disponível do {shortfalls[index]!.cardName} ({formatCurrency(shortfalls[index]!.available)})
                     </div>
                   )}
                 </Card>
@@ -1260,6 +1624,7 @@ const HistoryModal = ({
   history: any[];
   onDelete?: (monthYear: string, type?: 'exception' | 'permanent') => void;
 }) => {
+  const { cards, accounts } = useFinance();
   if (!isOpen) return null;
 
   return (
@@ -1289,7 +1654,7 @@ const HistoryModal = ({
                       {h.type === 'exception' && <span className="bg-yellow-500/20 text-yellow-500 px-1.5 py-0.5 rounded text-[10px]">Exceção</span>}
                     </span>
                     <span className="text-sm font-medium text-zinc-200">
-                      {h.paymentMethod === 'cash' ? 'Dinheiro' : 'Cartão'}
+                      {paymentMethodName(h.paymentMethod, cards, accounts)}
                     </span>
                   </div>
                   <div className="flex items-center gap-3">
@@ -1,21 +1,64 @@
 import React, { useState } from 'react';
 import { useFinance } from '../hooks/useFinance';
 import { Card, Button, Input, Select } from './ui';
-import { Plus, Trash2, Edit2, DollarSign, X, Check, Clock } from 'lucide-react';
+import { Plus, Trash2, Edit2, DollarSign, X, Check, Clock, CalendarX2, ArchiveRestore, ChevronDown, CheckCircle, Circle, Calculator, CalendarRange } from 'lucide-react';
 import { formatCurrency, cn } from '../utils';
 import { motion, AnimatePresence } from 'motion/react';
 import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { Income as IncomeRecord, Payday } from '../types';
+import { isArchived } from '../lib/recurrence';
+import { EndFixedModal } from './EndFixedModal';
+import { paymentMethodName } from '../lib/accounts';
+import { describePayday, findIncomeReceipt } from '../lib/incomeReceipts';
+import { computePayroll, getSalaryPayroll, isSalaryIncome } from '../lib/payroll';
+import { getScheduleMonths, toTemporaryIncomeFields } from '../lib/incomeSchedule';
+import { IncomeScheduleModal, ScheduleGrid } from './IncomeScheduleModal';
+import { EMPTY_PAYROLL_FORM, PayrollFields, PayrollForm, PayrollPreview, SalaryModal, toPayrollInput } from './SalaryModal';
+
+// '' = no expected payday
+const toPayday = (kind: string, day: string): Payday | undefined =>
+  kind ? { kind: kind as Payday['kind'], day: Math.min(Math.max(parseInt(day) || 1, 1), 31) } : undefined;
+
+const PaydayFields = ({ kind, day, onChange, labels = true }: { kind: string; day: string; onChange: (kind: string, day: string) => void; labels?: boolean }) => (
+  <>
+    <Select label={labels ? 'Dia do Recebimento' : undefined} value={kind} onChange={e => onChange(e.target.value, day)} className="w-full">
+      <option value="">Sem data prevista</option>
+      <option value="business_day">Dia útil do mês</option>
+      <option value="day">Dia fixo do mês</option>
+    </Select>
+    {kind && (
+      <Input
+        label={labels ? (kind === 'business_day' ? 'Qual dia útil' : 'Dia') : undefined}
+        type="number" min="1" max="31"
+        value={day}
+        onChange={e => onChange(kind, e.target.value)}
+        placeholder={kind === 'business_day' ? 'Ex: 5' : 'Ex: 20'}
+        className="w-full"
+      />
+    )}
+  </>
+);
 
 export const Income = () => {
-  const { incomes, incomeCategories, cards, addIncome, updateIncome, deleteIncome, updateFixedIncomeValue, getIncomeValueForMonth } = useFinance();
+  const { incomes, incomeReceipts, incomeCategories, cards, accounts, addIncome, updateIncome, deleteIncome, updateFixedIncomeValue, endFixedIncome, toggleIncomeReceived, addSalaryIncome, updateSalaryValue, getIncomeValueForMonth } = useFinance();
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editForm, setEditForm] = useState({ title: '', amount: '', category: '', paymentMethod: 'cash', effectiveMonth: new Date().toISOString().slice(0, 7) });
+  const [editForm, setEditForm] = useState({ title: '', amount: '', category: '', paymentMethod: 'cash', effectiveMonth: new Date().toISOString().slice(0, 7), paydayKind: '', paydayDay: '' });
   const [historyModalData, setHistoryModalData] = useState<{ title: string; history: any[] } | null>(null);
+  const [endingIncome, setEndingIncome] = useState<IncomeRecord | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [salaryIncomeId, setSalaryIncomeId] = useState<string | null>(null);
+  const [scheduleIncomeId, setScheduleIncomeId] = useState<string | null>(null);
   
   // Form State
-  const [incomeType, setIncomeType] = useState<'fixed' | 'temporary'>('fixed');
+  // 'salary' is a fixed income whose value comes from the gross salary
+  const [incomeType, setIncomeType] = useState<'fixed' | 'temporary' | 'salary'>('fixed');
+  const [payrollForm, setPayrollForm] = useState<PayrollForm>(EMPTY_PAYROLL_FORM);
+  const [vacationMonth, setVacationMonth] = useState('');
+  // Temporary incomes: one value per month instead of the same amount
+  const [useSchedule, setUseSchedule] = useState(false);
+  const [scheduleValues, setScheduleValues] = useState<string[]>([]);
   const [formData, setFormData] = useState({
     title: '',
     amount: '',
@@ -24,28 +67,51 @@ export const Income = () => {
     startMonth: new Date().toISOString().slice(0, 7), // YYYY-MM
     durationMonths: '1',
     effectiveMonth: new Date().toISOString().slice(0, 7),
+    endMonth: '',
+    paydayKind: '',
+    paydayDay: '5',
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const amount = parseFloat(formData.amount);
+    const scheduleMonths = getScheduleMonths(formData.startMonth, parseInt(formData.durationMonths) || 1);
+    const scheduled = incomeType === 'temporary' && useSchedule ? scheduleMonths.map((_, index) => parseFloat(scheduleValues[index]) || 0) : null;
+    const amount = incomeType === 'salary'
+      ? toPayrollInput(payrollForm).gross
+      : scheduled ? scheduled.reduce((acc, value) => acc + value, 0) : parseFloat(formData.amount);
     if (!amount || !formData.title) return;
 
     const baseData = {
       title: formData.title,
       categoryId: formData.category || incomeCategories[0]?.id,
-      type: incomeType,
       paymentMethod: formData.paymentMethod,
+      payday: toPayday(formData.paydayKind, formData.paydayDay),
     };
 
-    if (incomeType === 'fixed') {
+    if (incomeType === 'salary') {
+      await addSalaryIncome(
+        { ...baseData, endMonth: formData.endMonth || undefined },
+        formData.effectiveMonth,
+        toPayrollInput(payrollForm),
+        vacationMonth || undefined
+      );
+    } else if (incomeType === 'fixed') {
       await addIncome({
         ...baseData,
-        valueHistory: [{ monthYear: formData.effectiveMonth, value: amount, paymentMethod: formData.paymentMethod }]
+        type: 'fixed',
+        valueHistory: [{ monthYear: formData.effectiveMonth, value: amount, paymentMethod: formData.paymentMethod }],
+        endMonth: formData.endMonth || undefined
+      });
+    } else if (scheduled) {
+      await addIncome({
+        ...baseData,
+        type: 'temporary',
+        ...toTemporaryIncomeFields(formData.startMonth, scheduled)
       });
     } else {
       await addIncome({
         ...baseData,
+        type: 'temporary',
         amount,
         startMonth: formData.startMonth,
         durationMonths: parseInt(formData.durationMonths) || 1
@@ -53,6 +119,10 @@ export const Income = () => {
     }
 
     setIsAdding(false);
+    setPayrollForm(EMPTY_PAYROLL_FORM);
+    setVacationMonth('');
+    setUseSchedule(false);
+    setScheduleValues([]);
     setFormData({
       title: '',
       amount: '',
@@ -61,14 +131,17 @@ export const Income = () => {
       startMonth: new Date().toISOString().slice(0, 7),
       durationMonths: '1',
       effectiveMonth: new Date().toISOString().slice(0, 7),
+      endMonth: '',
+      paydayKind: '',
+      paydayDay: '5',
     });
   };
 
   const startEdit = (inc: any) => {
     setEditingId(inc.id);
-    const currentVal = inc.type === 'fixed' 
+    const currentVal = inc.type === 'fixed' || inc.schedule?.length
       ? getIncomeValueForMonth(inc, new Date().toISOString().slice(0, 7))
-      : inc.amount;
+      : inc.amount || 0;
 
     const latest = inc.valueHistory?.[inc.valueHistory.length - 1];
 
@@ -77,7 +150,9 @@ export const Income = () => {
       amount: currentVal.toString(), 
       category: inc.categoryId,
       paymentMethod: latest?.paymentMethod || inc.paymentMethod || 'cash',
-      effectiveMonth: new Date().toISOString().slice(0, 7)
+      effectiveMonth: new Date().toISOString().slice(0, 7),
+      paydayKind: inc.payday?.kind || '',
+      paydayDay: inc.payday ? String(inc.payday.day) : '5'
     });
   };
 
@@ -87,25 +162,43 @@ export const Income = () => {
       if (!income) return;
 
       const newAmount = parseFloat(editForm.amount);
+      // null clears a payday that was removed
+      const payday = toPayday(editForm.paydayKind, editForm.paydayDay) || null;
 
-      if (income.type === 'fixed') {
+      const payroll = isSalaryIncome(income) && getSalaryPayroll(income, editForm.effectiveMonth);
+      if (payroll) {
+        // The value of a salary comes from its payroll, edited in the salary modal
         await updateIncome(editingId, {
           title: editForm.title,
-          categoryId: editForm.category
+          categoryId: editForm.category,
+          payday
+        });
+        await updateSalaryValue(editingId, editForm.effectiveMonth, payroll, editForm.paymentMethod);
+      } else if (income.type === 'fixed') {
+        await updateIncome(editingId, {
+          title: editForm.title,
+          categoryId: editForm.category,
+          payday
         });
         await updateFixedIncomeValue(editingId, editForm.effectiveMonth, newAmount, editForm.paymentMethod);
       } else {
         await updateIncome(editingId, {
           title: editForm.title,
-          amount: newAmount,
+          // Per-month values are edited in the schedule modal
+          amount: income.schedule?.length ? undefined : newAmount,
           categoryId: editForm.category,
-          paymentMethod: editForm.paymentMethod
+          paymentMethod: editForm.paymentMethod,
+          payday
         });
       }
       setEditingId(null);
     }
   };
 
+  // Fixed incomes past their last month leave the main list
+  const activeIncomes = incomes.filter(inc => !(inc.type === 'fixed' && isArchived(inc.endMonth)));
+  const archivedIncomes = incomes.filter(inc => inc.type === 'fixed' && isArchived(inc.endMonth));
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -155,6 +248,18 @@ export const Income = () => {
                 >
                   Temporária
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setIncomeType('salary')}
+                  className={cn(
+                    "flex-1 py-2 rounded-lg text-sm font-medium transition-all",
+                    incomeType === 'salary' 
+                      ? 'bg-emerald-500/10 text-emerald-500' 
+                      : 'text-zinc-400 hover:text-zinc-200'
+                  )}
+                >
+                  Salário (bruto)
+                </button>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -164,13 +269,15 @@ export const Income = () => {
                   onChange={e => setFormData({...formData, title: e.target.value})}
                   required
                 />
-                <Input 
-                  label="Valor" 
-                  type="number" step="0.01"
-                  value={formData.amount} 
-                  onChange={e => setFormData({...formData, amount: e.target.value})}
-                  required
-                />
+                {incomeType !== 'salary' && !(incomeType === 'temporary' && useSchedule) && (
+                  <Input 
+                    label="Valor" 
+                    type="number" step="0.01"
+                    value={formData.amount} 
+                    onChange={e => setFormData({...formData, amount: e.target.value})}
+                    required
+                  />
+                )}
                 <Select
                   label="Categoria"
                   value={formData.category}
@@ -186,20 +293,32 @@ export const Income = () => {
                   value={formData.paymentMethod}
                   onChange={e => setFormData({ ...formData, paymentMethod: e.target.value })}
                 >
-                  <option value="cash">Dinheiro / Débito</option>
+                  <option value="cash">Dinheiro</option>
+                  {accounts.map(a => (
+                    <option key={a.id} value={a.id}>Conta: {a.name}</option>
+                  ))}
                   {cards.map(c => (
                     <option key={c.id} value={c.id}>Cartão: {c.name}</option>
                   ))}
                 </Select>
                 
-                {incomeType === 'fixed' && (
-                  <Input 
-                    label="Mês de Início" 
-                    type="month"
-                    value={formData.effectiveMonth} 
-                    onChange={e => setFormData({...formData, effectiveMonth: e.target.value})}
-                    required
-                  />
+                {incomeType !== 'temporary' && (
+                  <>
+                    <Input 
+                      label="Mês de Início" 
+                      type="month"
+                      value={formData.effectiveMonth} 
+                      onChange={e => setFormData({...formData, effectiveMonth: e.target.value})}
+                      required
+                    />
+                    <Input 
+                      label="Último Mês (opcional)" 
+                      type="month"
+                      min={formData.effectiveMonth}
+                      value={formData.endMonth} 
+                      onChange={e => setFormData({...formData, endMonth: e.target.value})}
+                    />
+                  </>
                 )}
 
                 {incomeType === 'temporary' && (
@@ -213,15 +332,58 @@ export const Income = () => {
                     />
                      <Input 
                       label="Duração (Meses)" 
-                      type="number" min="1"
+                      type="number" min="1" max="120"
                       value={formData.durationMonths} 
                       onChange={e => setFormData({...formData, durationMonths: e.target.value})}
                       required
                     />
+                    <Select
+                      label="Valor"
+                      value={useSchedule ? 'schedule' : 'constant'}
+                      onChange={e => {
+                        setUseSchedule(e.target.value === 'schedule');
+                        // Start the grid from the single amount already typed
+                        if (e.target.value === 'schedule' && !scheduleValues.length) setScheduleValues(Array(parseInt(formData.durationMonths) || 1).fill(formData.amount));
+                      }}
+                    >
+                      <option value="constant">Mesmo valor todo mês</option>
+                      <option value="schedule">Valores por mês</option>
+                    </Select>
                   </>
                 )}
+
+                <PaydayFields
+                  kind={formData.paydayKind}
+                  day={formData.paydayDay}
+                  onChange={(paydayKind, paydayDay) => setFormData({ ...formData, paydayKind, paydayDay })}
+                />
+
+                {incomeType === 'salary' && (
+                  <Input
+                    label="Mês das Férias (opcional)"
+                    type="month"
+                    value={vacationMonth}
+                    onChange={e => setVacationMonth(e.target.value)}
+                  />
+                )}
               </div>
 
+              {incomeType === 'temporary' && useSchedule && (
+                <ScheduleGrid
+                  months={getScheduleMonths(formData.startMonth, Math.min(parseInt(formData.durationMonths) || 0, 120))}
+                  values={scheduleValues}
+                  onChange={setScheduleValues}
+                />
+              )}
+
+              {incomeType === 'salary' && (
+                <div className="space-y-3">
+                  <PayrollFields form={payrollForm} onChange={setPayrollForm} />
+                  <PayrollPreview breakdown={computePayroll(toPayrollInput(payrollForm), formData.effectiveMonth)} />
+                  <p className="text-xs text-zinc-500">O 13º salário do ano (e as férias, se informadas) entram como receitas próprias nos meses de pagamento.</p>
+                </div>
+              )}
+
               <div className="flex flex-col sm:flex-row justify-end gap-3 pt-4">
                 <Button type="button" variant="ghost" onClick={() => setIsAdding(false)} className="w-full sm:w-auto">Cancelar</Button>
                 <Button type="submit" className="w-full sm:w-auto bg-emerald-500 hover:bg-emerald-400 text-black font-bold">
@@ -234,11 +396,14 @@ export const Income = () => {
       )}
 
       <div className="space-y-2">
-        {incomes.length === 0 ? (
-          <div className="text-center py-10 text-zinc-500">Nenhuma receita cadastrada.</div>
+        {activeIncomes.length === 0 ? (
+          <div className="text-center py-10 text-zinc-500">{incomes.length ? 'Nenhuma receita ativa.' : 'Nenhuma receita cadastrada.'}</div>
         ) : (
-          incomes.map(inc => {
-            const currentVal = getIncomeValueForMonth(inc, new Date().toISOString().slice(0, 7));
+          activeIncomes.map(inc => {
+            const currentMonth = new Date().toISOString().slice(0, 7);
+            const currentVal = getIncomeValueForMonth(inc, currentMonth);
+            const received = findIncomeReceipt(incomeReceipts, inc.id, currentMonth)?.isReceived;
+            const payroll = isSalaryIncome(inc) ? getSalaryPayroll(inc, currentMonth) : undefined;
             const category = incomeCategories.find(c => c.id === inc.categoryId);
 
             return (
@@ -251,12 +416,14 @@ export const Income = () => {
                         onChange={e => setEditForm({...editForm, title: e.target.value})}
                         className="w-full"
                       />
-                      <Input 
-                        type="number"
-                        value={editForm.amount} 
-                        onChange={e => setEditForm({...editForm, amount: e.target.value})}
-                        className="w-full"
-                      />
+                      {!isSalaryIncome(inc) && !inc.schedule?.length && (
+                        <Input 
+                          type="number"
+                          value={editForm.amount} 
+                          onChange={e => setEditForm({...editForm, amount: e.target.value})}
+                          className="w-full"
+                        />
+                      )}
                       <Select
                         value={editForm.category}
                         onChange={e => setEditForm({ ...editForm, category: e.target.value })}
@@ -271,7 +438,10 @@ export const Income = () => {
                         onChange={e => setEditForm({ ...editForm, paymentMethod: e.target.value })}
                         className="w-full"
                       >
-                        <option value="cash">Dinheiro / Débito</option>
+                        <option value="cash">Dinheiro</option>
+                        {accounts.map(a => (
+                          <option key={a.id} value={a.id}>Conta: {a.name}</option>
+                        ))}
                         {cards.map(c => (
                           <option key={c.id} value={c.id}>Cartão: {c.name}</option>
                         ))}
@@ -284,6 +454,12 @@ export const Income = () => {
                           className="w-full"
                         />
                       )}
+                      <PaydayFields
+                        labels={false}
+                        kind={editForm.paydayKind}
+                        day={editForm.paydayDay}
+                        onChange={(paydayKind, paydayDay) => setEditForm({ ...editForm, paydayKind, paydayDay })}
+                      />
                     </div>
                     <div className="flex gap-2 w-full sm:w-auto justify-end">
                       <button onClick={saveEdit} className="p-3 text-emerald-500 hover:bg-emerald-500/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center border border-zinc-800 sm:border-none"><Check className="w-5 h-5" /></button>
@@ -301,16 +477,68 @@ export const Income = () => {
                         <div className="flex flex-wrap gap-x-2 gap-y-1 text-[10px] sm:text-xs text-zinc-500">
                           <span className="text-zinc-400">{category?.name}</span>
                           <span className="text-zinc-600">•</span>
-                          {inc.type === 'fixed' 
-                            ? <span className="text-emerald-400">Fixa</span>
-                            : <span>{inc.durationMonths} meses</span>
+                          {payroll
+                            ? <span className="text-emerald-400">Salário • Bruto {formatCurrency(payroll.gross)}</span>
+                            : inc.type === 'fixed' 
+                              ? <span className="text-emerald-400">Fixa</span>
+                              : inc.salaryExtra
+                                ? <span className="capitalize">{format(parseISO(inc.startMonth + '-01'), 'MMM/yyyy', { locale: ptBR })}</span>
+                                : <span>{inc.durationMonths} meses{inc.schedule?.length ? ' • valores variáveis' : ''}</span>
                           }
+                          {inc.type === 'fixed' && inc.endMonth && (
+                            <>
+                              <span className="text-zinc-600">•</span>
+                              <span className="text-yellow-500">até {format(parseISO(inc.endMonth + '-01'), 'MMM/yyyy', { locale: ptBR })}</span>
+                            </>
+                          )}
+                          {inc.payday && (
+                            <>
+                              <span className="text-zinc-600">•</span>
+                              <span>{describePayday(inc.payday)}</span>
+                            </>
+                          )}
+                          {received && (
+                            <>
+                              <span className="text-zinc-600">•</span>
+                              <span className="text-emerald-400">Recebida este mês</span>
+                            </>
+                          )}
                         </div>
                       </div>
                     </div>
                     <div className="flex items-center gap-2 sm:gap-4">
                       <span className="font-bold text-emerald-500 text-sm sm:text-base">{formatCurrency(currentVal)}</span>
                       <div className="flex gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-all">
+                        {currentVal > 0 && (
+                          <button
+                            onClick={() => toggleIncomeReceived(inc.id, currentMonth)}
+                            className={cn(
+                              "p-2 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center",
+                              received ? "text-emerald-500" : "text-zinc-600 hover:text-emerald-500"
+                            )}
+                            title={received ? 'Desmarcar recebimento' : 'Marcar como recebida'}
+                          >
+                            {received ? <CheckCircle className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+                          </button>
+                        )}
+                        {inc.type === 'temporary' && !inc.salaryExtra && (
+                          <button
+                            onClick={() => setScheduleIncomeId(inc.id)}
+                            className="p-2 text-zinc-600 hover:text-emerald-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+                            title="Valores por mês"
+                          >
+                            <CalendarRange className="w-4 h-4" />
+                          </button>
+                        )}
+                        {inc.type === 'fixed' && (
+                          <button
+                            onClick={() => setSalaryIncomeId(inc.id)}
+                            className="p-2 text-zinc-600 hover:text-emerald-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+                            title={payroll ? 'Folha de pagamento' : 'Calcular pelo salário bruto'}
+                          >
+                            <Calculator className="w-4 h-4" />
+                          </button>
+                        )}
                         {inc.type === 'fixed' && (
                           <button 
                             onClick={() => setHistoryModalData({ title: inc.title, history: inc.valueHistory || [] })}
@@ -320,6 +548,15 @@ export const Income = () => {
                             <Clock className="w-4 h-4" />
                           </button>
                         )}
+                        {inc.type === 'fixed' && (
+                          <button 
+                            onClick={() => setEndingIncome(inc)}
+                            className="p-2 text-zinc-600 hover:text-red-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+                            title="Encerrar"
+                          >
+                            <CalendarX2 className="w-4 h-4" />
+                          </button>
+                        )}
                         <button 
                           onClick={() => startEdit(inc)}
                           className="p-2 text-zinc-600 hover:text-yellow-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
@@ -342,6 +579,61 @@ export const Income = () => {
         )}
       </div>
 
+      {archivedIncomes.length > 0 && (
+        <div className="space-y-2">
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="flex items-center gap-2 text-sm font-medium text-zinc-400 hover:text-zinc-200 transition-colors"
+          >
+            <ChevronDown className={cn("w-4 h-4 transition-transform", showArchived && "rotate-180")} />
+            Encerradas ({archivedIncomes.length})
+          </button>
+          {showArchived && archivedIncomes.map(inc => (
+            <div key={inc.id} className="bg-zinc-900/30 border border-zinc-800 p-3 sm:p-4 rounded-xl flex items-center justify-between group opacity-70">
+              <div>
+                <h4 className="font-medium text-zinc-400 text-sm sm:text-base">{inc.title}</h4>
+                <p className="text-[10px] sm:text-xs text-zinc-500">
+                  Encerrada em {format(parseISO(inc.endMonth + '-01'), 'MMM/yyyy', { locale: ptBR })}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <button 
+                  onClick={() => endFixedIncome(inc.id, null)}
+                  className="p-2 text-zinc-600 hover:text-emerald-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+                  title="Reativar"
+                >
+                  <ArchiveRestore className="w-4 h-4" />
+                </button>
+                <button 
+                  onClick={() => deleteIncome(inc.id)}
+                  className="p-2 text-zinc-600 hover:text-red-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {endingIncome && (
+        <EndFixedModal
+          title={endingIncome.title}
+          kind="receita"
+          initialMonth={format(new Date(), 'yyyy-MM')}
+          onConfirm={fromMonth => endFixedIncome(endingIncome.id, fromMonth)}
+          onClose={() => setEndingIncome(null)}
+        />
+      )}
+
+      {scheduleIncomeId && (
+        <IncomeScheduleModal incomeId={scheduleIncomeId} onClose={() => setScheduleIncomeId(null)} />
+      )}
+
+      {salaryIncomeId && (
+        <SalaryModal incomeId={salaryIncomeId} onClose={() => setSalaryIncomeId(null)} />
+      )}
+
       <HistoryModal 
         isOpen={!!historyModalData}
         onClose={() => setHistoryModalData(null)}
@@ -363,6 +655,7 @@ const HistoryModal = ({
   title: string; 
   history: any[] 
 }) => {
+  const { cards, accounts } = useFinance();
   if (!isOpen) return null;
 
   return (
@@ -391,8 +684,11 @@ const HistoryModal = ({
                       {format(parseISO(h.monthYear + '-01'), 'MM/yyyy', { locale: ptBR })}
                     </span>
                     <span className="text-sm font-medium text-zinc-200">
-                      {h.paymentMethod === 'cash' ? 'Dinheiro' : 'Cartão'}
+                      {paymentMethodName(h.paymentMethod, cards, accounts)}
                     </span>
+                    {h.payroll && (
+                      <span className="text-xs text-zinc-500">Bruto {formatCurrency(h.payroll.gross)}</span>
+                    )}
                   </div>
                   <span className="font-bold text-emerald-500">
                     {formatCurrency(h.value)}
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button, Input } from './ui';
+import { formatCurrency, cn } from '../utils';
+import { useFinance } from '../hooks/useFinance';
+import { describePayday, findIncomeReceipt, getPaydayDate } from '../lib/incomeReceipts';
+
+interface IncomeReceiptModalProps {
+  incomeId: string;
+  monthYear: string;
+  onClose: () => void;
+}
+
+export const IncomeReceiptModal = ({ incomeId, monthYear, onClose }: IncomeReceiptModalProps) => {
+  const { incomes, incomeReceipts, getIncomeValueForMonth, recordIncomeReceipt } = useFinance();
+  const income = incomes.find(i => i.id === incomeId);
+  const receipt = findIncomeReceipt(incomeReceipts, incomeId, monthYear);
+  const expected = income ? getIncomeValueForMonth(income, monthYear) : 0;
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const expectedDate = income?.payday ? getPaydayDate(income.payday, monthYear) : undefined;
+  const [amount, setAmount] = useState(receipt?.isReceived ? String(receipt.receivedValue) : expected.toFixed(2));
+  const [receivedAt, setReceivedAt] = useState(receipt?.receivedAt || (expectedDate && expectedDate < today ? expectedDate : today));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!income) return null;
+
+  const received = parseFloat(amount) || 0;
+  const difference = received - expected;
+
+  const handleSave = async () => {
+    setError(null);
+    setSaving(true);
+    try {
+      await recordIncomeReceipt(incomeId, monthYear, { receivedValue: received, receivedAt });
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-md shadow-2xl"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-zinc-100">Recebimento de {income.title}</h3>
+            <p className="text-zinc-500 text-sm capitalize">{format(parseISO(monthYear + '-01'), 'MMM/yyyy', { locale: ptBR })}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-xs">
+              {error}
+            </div>
+          )}
+
+          <div className="p-3 rounded-xl bg-zinc-900 border border-zinc-800 text-sm space-y-1">
+            <div className="flex justify-between text-zinc-400">
+              <span>Previsto</span>
+              <span>{formatCurrency(expected)}</span>
+            </div>
+            {income.payday && expectedDate && (
+              <div className="flex justify-between text-zinc-400">
+                <span>Data prevista ({describePayday(income.payday)})</span>
+                <span>{format(parseISO(expectedDate), 'dd/MM/yyyy')}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <Input label="Valor recebido" type="number" min="0" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} autoFocus />
+            <Input label="Data do recebimento" type="date" value={receivedAt} onChange={e => setReceivedAt(e.target.value)} />
+          </div>
+
+          {Math.abs(difference) >= 0.01 && (
+            <p className={cn("text-xs", difference > 0 ? "text-emerald-500" : "text-red-400")}>
+              {difference > 0 ? `${formatCurrency(difference)} acima do previsto.` : `${formatCurrency(-difference)} abaixo do previsto.`} O saldo das contas usa o valor recebido.
+            </p>
+          )}
+
+          <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+            <Button variant="ghost" onClick={onClose} className="w-full sm:w-auto">Cancelar</Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !receivedAt || amount === ''}
+              className="w-full sm:w-auto bg-emerald-500 hover:bg-emerald-400 text-black font-bold"
+            >
+              {saving ? 'Salvando...' : 'Confirmar Recebimento'}
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
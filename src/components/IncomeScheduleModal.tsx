@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button, Input } from './ui';
+import { formatCurrency } from '../utils';
+import { useFinance } from '../hooks/useFinance';
+import { getScheduleMonths, toTemporaryIncomeFields } from '../lib/incomeSchedule';
+
+interface ScheduleGridProps {
+  months: string[];
+  values: string[]; // same order as months
+  onChange: (values: string[]) => void;
+}
+
+export const ScheduleGrid = ({ months, values, onChange }: ScheduleGridProps) => {
+  const total = months.reduce((acc, _, index) => acc + (parseFloat(values[index]) || 0), 0);
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {months.map((month, index) => (
+          <Input
+            key={month}
+            label={format(parseISO(month + '-01'), 'MMM/yy', { locale: ptBR })}
+            type="number" min="0" step="0.01"
+            value={values[index] ?? ''}
+            onChange={e => {
+              const next = months.map((_, i) => values[i] ?? '');
+              next[index] = e.target.value;
+              onChange(next);
+            }}
+            placeholder="0,00"
+          />
+        ))}
+      </div>
+      <p className="text-xs text-zinc-500 text-right">Total: {formatCurrency(total)}</p>
+    </div>
+  );
+};
+
+interface IncomeScheduleModalProps {
+  incomeId: string;
+  onClose: () => void;
+}
+
+export const IncomeScheduleModal = ({ incomeId, onClose }: IncomeScheduleModalProps) => {
+  const { incomes, updateIncome, getIncomeValueForMonth } = useFinance();
+  const income = incomes.find(i => i.id === incomeId);
+  const [startMonth, setStartMonth] = useState(income?.startMonth || format(new Date(), 'yyyy-MM'));
+  const [duration, setDuration] = useState(String(income?.durationMonths || 1));
+  const [values, setValues] = useState(() =>
+    income ? getScheduleMonths(startMonth, parseInt(duration) || 1).map(month => String(getIncomeValueForMonth(income, month))) : []
+  );
+  const [saving, setSaving] = useState(false);
+
+  if (!income) return null;
+
+  const months = getScheduleMonths(startMonth, Math.min(parseInt(duration) || 0, 120));
+
+  const handleSave = async () => {
+    setSaving(true);
+    await updateIncome(incomeId, toTemporaryIncomeFields(startMonth, months.map((_, index) => parseFloat(values[index]) || 0)));
+    setSaving(false);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-lg shadow-2xl overflow-y-auto max-h-[90vh]"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-zinc-100">Valores por Mês</h3>
+            <p className="text-xs text-zinc-500 truncate">{income.title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <Input label="Mês de Início" type="month" value={startMonth} onChange={e => setStartMonth(e.target.value)} />
+            <Input label="Duração (Meses)" type="number" min="1" max="120" value={duration} onChange={e => setDuration(e.target.value)} />
+          </div>
+          <ScheduleGrid months={months} values={values} onChange={setValues} />
+          <p className="text-xs text-zinc-500">Se todos os meses tiverem o mesmo valor, a receita volta a ter um valor único.</p>
+
+          <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+            <Button variant="ghost" onClick={onClose} className="w-full sm:w-auto">Cancelar</Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !startMonth || months.length === 0}
+              className="w-full sm:w-auto bg-emerald-500 hover:bg-emerald-400 text-black font-bold"
+            >
+              {saving ? 'Salvando...' : 'Salvar Valores'}
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
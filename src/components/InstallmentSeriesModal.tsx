@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { X, CheckCircle, Circle, Trash2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button, Input, Select } from './ui';
+import { formatCurrency, cn } from '../utils';
+import { useFinance } from '../hooks/useFinance';
+import { getInstallmentPayoffs, getInstallmentSeries, getRemainingInstallments, isInstallmentPaid } from '../lib/installments';
+import { InstallmentScope } from '../types';
+import { formatRate, getExpenseInterest } from '../lib/interest';
+import { paymentMethodName } from '../lib/accounts';
+
+interface InstallmentSeriesModalProps {
+  originalId: string;
+  onClose: () => void;
+}
+
+const monthLabel = (monthYear: string) => format(parseISO(monthYear + '-01'), 'MMM/yyyy', { locale: ptBR });
+
+export const InstallmentSeriesModal = ({ originalId, onClose }: InstallmentSeriesModalProps) => {
+  const {
+    expenses, expensePayments, cardPayments, cards, accounts, expenseCategories,
+    toggleExpensePaid, updateExpense, anticipateInstallments, cancelRemainingInstallments, deleteInstallmentSeries
+  } = useFinance();
+  const series = getInstallmentSeries(expenses, originalId);
+  const payoffs = getInstallmentPayoffs(expenses, originalId);
+  const currentMonth = format(new Date(), 'yyyy-MM');
+  const firstOpen = series.find(e => !isInstallmentPaid(e, expensePayments, cardPayments));
+
+  const [title, setTitle] = useState(series[0]?.title || '');
+  const [categoryId, setCategoryId] = useState(series[0]?.categoryId || '');
+  const [paymentMethod, setPaymentMethod] = useState(firstOpen?.paymentMethod || series[0]?.paymentMethod || 'cash');
+  const [fromMonth, setFromMonth] = useState(firstOpen && firstOpen.billingMonth > currentMonth ? firstOpen.billingMonth : currentMonth);
+  const [discount, setDiscount] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!series.length) return null;
+
+  const paidCount = series.filter(e => isInstallmentPaid(e, expensePayments, cardPayments)).length;
+  const openValue = series
+    .filter(e => !isInstallmentPaid(e, expensePayments, cardPayments))
+    .reduce((sum, e) => sum + e.installmentValue, 0);
+  const remaining = getRemainingInstallments(series, fromMonth, expensePayments, cardPayments);
+  const remainingValue = remaining.reduce((sum, e) => sum + e.installmentValue, 0);
+  const discountValue = parseFloat(discount) || 0;
+  const interest = getExpenseInterest(series[0]);
+
+  const run = async (action: () => Promise<void>, closeAfter = false) => {
+    setError(null);
+    setSaving(true);
+    try {
+      await action();
+      if (closeAfter) onClose();
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setSaving(false);
+  };
+
+  // "Next parcels" start at the first one still open
+  const handleApply = (scope: InstallmentScope) => run(async () => {
+    const anchor = scope === 'all' ? series[0] : firstOpen || series[series.length - 1];
+    await updateExpense(anchor.id, { title, categoryId, paymentMethod }, scope);
+  });
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-lg shadow-2xl overflow-y-auto max-h-[90vh]"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-zinc-100 truncate">{series[0].title}</h3>
+            <p className="text-xs text-zinc-500">
+              {series[0].installments?.total}x de {formatCurrency(series[0].installmentValue)} • {paidCount} pagas • {formatCurrency(openValue)} em aberto
+            </p>
+            {interest && interest.interest > 0 && (
+              <p className="text-xs text-yellow-500">
+                À vista {formatCurrency(interest.cashPrice)} • juros de {formatCurrency(interest.interest)} • {formatRate(interest.monthlyRate)} a.m. • CET {formatRate(interest.cet)} a.a.
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-xs">
+              {error}
+            </div>
+          )}
+
+          <section className="space-y-2">
+            <h4 className="text-sm font-bold text-zinc-300">Parcelas</h4>
+            {series.map(parcel => {
+              const paid = isInstallmentPaid(parcel, expensePayments, cardPayments);
+              return (
+                <div key={parcel.id} className="flex items-center justify-between p-3 rounded-xl bg-zinc-900 border border-zinc-800">
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => toggleExpensePaid(parcel.id, parcel.billingMonth)}
+                      className={cn("transition-colors", paid ? "text-emerald-500" : "text-zinc-600 hover:text-zinc-400")}
+                      title={paid ? 'Marcar como em aberto' : 'Marcar como paga'}
+                    >
+                      {paid ? <CheckCircle className="w-5 h-5" /> : <Circle className="w-5 h-5" />}
+                    </button>
+                    <div>
+                      <p className={cn("text-sm font-medium text-zinc-200", paid && "opacity-60")}>
+                        Parcela {parcel.installments?.current}/{parcel.installments?.total}
+                      </p>
+                      <p className="text-xs text-zinc-500 capitalize">
+                        {monthLabel(parcel.billingMonth)} • {paymentMethodName(parcel.paymentMethod, cards, accounts)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className={cn("font-bold text-zinc-100", paid && "opacity-60")}>{formatCurrency(parcel.installmentValue)}</p>
+                    <p className={cn("text-[10px]", paid ? "text-emerald-500" : "text-zinc-500")}>{paid ? 'Paga' : 'Em aberto'}</p>
+                  </div>
+                </div>
+              );
+            })}
+            {payoffs.map(payoff => (
+              <div key={payoff.id} className="flex items-center justify-between p-3 rounded-xl bg-yellow-500/10 border border-yellow-500/20">
+                <div>
+                  <p className="text-sm font-medium text-yellow-500">Antecipação</p>
+                  <p className="text-xs text-zinc-500 capitalize">{monthLabel(payoff.billingMonth)}</p>
+                </div>
+                <p className="font-bold text-yellow-500">{formatCurrency(payoff.totalValue)}</p>
+              </div>
+            ))}
+          </section>
+
+          <section className="space-y-3 pt-6 border-t border-zinc-800">
+            <h4 className="text-sm font-bold text-zinc-300">Editar compra</h4>
+            <Input label="Nome" value={title} onChange={e => setTitle(e.target.value)} />
+            <div className="grid grid-cols-2 gap-3">
+              <Select label="Categoria" value={categoryId} onChange={e => setCategoryId(e.target.value)}>
+                {expenseCategories.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </Select>
+              <Select label="Forma de Pagamento" value={paymentMethod} onChange={e => setPaymentMethod(e.target.value)}>
+                <option value="cash">Dinheiro</option>
+                {accounts.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+                {cards.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Button className="bg-zinc-800 hover:bg-zinc-700 text-white" onClick={() => handleApply('future')} disabled={!title || saving}>
+                Parcelas em aberto
+              </Button>
+              <Button className="bg-yellow-500 hover:bg-yellow-400 text-black font-bold" onClick={() => handleApply('all')} disabled={!title || saving}>
+                Todas as parcelas
+              </Button>
+            </div>
+          </section>
+
+          <section className="space-y-3 pt-6 border-t border-zinc-800">
+            <h4 className="text-sm font-bold text-zinc-300">Antecipar ou cancelar</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <Input label="A partir da fatura" type="month" value={fromMonth} onChange={e => setFromMonth(e.target.value)} />
+              <Input label="Desconto (R$)" type="number" min="0" step="0.01" value={discount} onChange={e => setDiscount(e.target.value)} />
+            </div>
+            <p className="text-xs text-zinc-500">
+              {remaining.length
+                ? `${remaining.length} parcelas em aberto somam ${formatCurrency(remainingValue)}. Antecipando, vira uma cobrança única de ${formatCurrency(Math.max(remainingValue - discountValue, 0))} nesta fatura.`
+                : 'Nenhuma parcela em aberto a partir desta fatura.'}
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                className="bg-yellow-500 hover:bg-yellow-400 text-black font-bold"
+                onClick={() => run(() => anticipateInstallments(originalId, fromMonth, discountValue), true)}
+                disabled={!fromMonth || !remaining.length || saving}
+              >
+                Antecipar
+              </Button>
+              <Button
+                variant="danger"
+                onClick={() => run(() => cancelRemainingInstallments(originalId, fromMonth), true)}
+                disabled={!fromMonth || !remaining.length || saving}
+              >
+                Cancelar parcelas
+              </Button>
+            </div>
+            <p className="text-xs text-zinc-500">Cancele quando a compra for estornada; as parcelas já pagas ficam no histórico.</p>
+          </section>
+
+          <div className="pt-6 border-t border-zinc-800">
+            <Button variant="ghost" className="w-full gap-2 text-red-500 hover:text-red-400" onClick={() => run(() => deleteInstallmentSeries(originalId), true)} disabled={saving}>
+              <Trash2 className="w-4 h-4" /> Excluir compra inteira
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
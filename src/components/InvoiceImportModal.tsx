@@ -0,0 +1,247 @@
+import React, { useRef, useState } from 'react';
+import { X, Upload, Trash2, Check, Link2, FileSpreadsheet } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Card, Button, Input, Select } from './ui';
+import { formatCurrency, cn } from '../utils';
+import { useFinance } from '../hooks/useFinance';
+import { getBillingMonth } from '../lib/billing';
+import { guessCategoryId, findExpenseMatch } from '../lib/ofx';
+import { InvoiceRow, decodeCsv, findRecordedInstallment, parseInvoiceCsv } from '../lib/invoiceCsv';
+
+interface InvoiceItem extends InvoiceRow {
+  tempId: string;
+  categoryId: string;
+  recordedAs?: string; // title of the entry already recorded
+  include: boolean;
+}
+
+interface InvoiceImportModalProps {
+  initialCardId?: string;
+  onClose: () => void;
+}
+
+export const InvoiceImportModal = ({ initialCardId, onClose }: InvoiceImportModalProps) => {
+  const { cards, expenses, expensePayments, expenseCategories, addExpense, addInstallmentExpense, getExpenseValueForMonth } = useFinance();
+  const [cardId, setCardId] = useState(initialCardId || cards[0]?.id || '');
+  const [billingMonth, setBillingMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [rows, setRows] = useState<InvoiceRow[]>([]);
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [skippedCredits, setSkippedCredits] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Marks rows already recorded on this card's invoice so they are not duplicated
+  const buildItems = (source: InvoiceRow[], card: string, month: string): InvoiceItem[] => {
+    const taken = new Set<string>();
+    return source.map((row, index) => {
+      let recorded: string | undefined;
+      if (row.installment) {
+        recorded = findRecordedInstallment(row, card, month, expenses)?.title;
+      } else {
+        const tx = { id: String(index), type: 'DEBIT', date: row.date, amount: -row.value, description: row.description };
+        const match = findExpenseMatch(tx, card, expenses, expensePayments, getExpenseValueForMonth, month, taken);
+        if (match) taken.add(`${match.expense.id}|${match.monthYear}`);
+        recorded = match?.expense.title;
+      }
+      return {
+        ...row,
+        tempId: `${index}-${row.date}-${row.description}`,
+        categoryId: guessCategoryId(row.description, expenseCategories, expenses) || '',
+        recordedAs: recorded,
+        include: !recorded,
+      };
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const parsed = parseInvoiceCsv(decodeCsv(await file.arrayBuffer()));
+      // The invoice is the one that holds the latest one-time purchase
+      const latest = parsed.rows.filter(row => !row.installment).map(row => row.date).sort().pop();
+      const month = latest && cardId ? getBillingMonth(latest, cardId, cards) : billingMonth;
+      setRows(parsed.rows);
+      setSkippedCredits(parsed.skippedCredits);
+      setBillingMonth(month);
+      setItems(buildItems(parsed.rows, cardId, month));
+    } catch (err: any) {
+      setRows([]);
+      setItems([]);
+      setError(err.message);
+    }
+  };
+
+  const handleCardChange = (id: string) => {
+    setCardId(id);
+    if (rows.length) setItems(buildItems(rows, id, billingMonth));
+  };
+
+  const handleBillingMonthChange = (month: string) => {
+    setBillingMonth(month);
+    if (rows.length) setItems(buildItems(rows, cardId, month));
+  };
+
+  const updateItem = (id: string, updates: Partial<InvoiceItem>) => {
+    setItems(prev => prev.map(item => item.tempId === id ? { ...item, ...updates } : item));
+  };
+
+  const removeItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.tempId !== id));
+  };
+
+  const handleConfirmAll = async () => {
+    if (!cardId) return;
+    setIsSaving(true);
+    for (const item of items.filter(i => i.include)) {
+      const base = {
+        title: item.description,
+        categoryId: item.categoryId || expenseCategories[0]?.id,
+        purchaseDate: item.date,
+        paymentMethod: cardId,
+        isPaid: false,
+      };
+      if (item.installment) {
+        // Installment x of y: the earlier parcels were on invoices already paid, so the series starts at x on this one
+        await addInstallmentExpense({
+          ...base,
+          isInstallment: true,
+          totalValue: item.value * item.installment.total,
+          installmentValue: item.value,
+        }, billingMonth, item.installment.total, item.installment.current);
+      } else {
+        await addExpense({
+          ...base,
+          type: 'one_time',
+          billingMonth,
+          isInstallment: false,
+          totalValue: item.value,
+          installmentValue: item.value,
+        });
+      }
+    }
+    setIsSaving(false);
+    onClose();
+  };
+
+  const included = items.filter(item => item.include);
+  const total = included.reduce((sum, item) => sum + item.value, 0);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-2xl shadow-2xl overflow-y-auto max-h-[90vh]"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-zinc-100">Importar Fatura</h3>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Select label="Cartão" value={cardId} onChange={e => handleCardChange(e.target.value)}>
+              {cards.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </Select>
+            <Input label="Mês da Fatura" type="month" value={billingMonth} onChange={e => handleBillingMonthChange(e.target.value)} />
+          </div>
+
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+          <Button variant="outline" className="w-full gap-2" onClick={() => fileInputRef.current?.click()} disabled={!cardId}>
+            <Upload className="w-4 h-4" />
+            {rows.length ? 'Escolher outro arquivo' : 'Selecionar CSV da fatura'}
+          </Button>
+          <p className="text-xs text-zinc-500">Aceita as exportações do Nubank, Inter e Itaú (data, descrição e valor).</p>
+
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-xs">
+              {error}
+            </div>
+          )}
+
+          {items.length > 0 && (
+            <>
+              <div className="flex items-center gap-2 text-sm text-zinc-400">
+                <FileSpreadsheet className="w-4 h-4 text-yellow-500" />
+                {items.length} compras • {items.length - included.length} ignoradas
+                {skippedCredits > 0 && ` • ${skippedCredits} pagamentos/créditos fora da importação`}
+              </div>
+
+              {items.map(item => (
+                <Card
+                  key={item.tempId}
+                  className={cn("p-4 bg-zinc-900/80 space-y-3", item.include ? "border-yellow-500/50" : "border-zinc-800 opacity-60")}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-xs text-zinc-500">
+                        {format(parseISO(item.date), "dd 'de' MMM", { locale: ptBR })}
+                        {item.installment && (
+                          <span className="ml-2 bg-yellow-500/20 text-yellow-500 px-1.5 py-0.5 rounded text-[10px]">
+                            Parcela {item.installment.current}/{item.installment.total}
+                          </span>
+                        )}
+                      </p>
+                      {item.recordedAs && (
+                        <p className="text-xs flex items-center gap-1 mt-1 text-emerald-500">
+                          <Link2 className="w-3 h-3 shrink-0" />
+                          <span className="truncate">Já cadastrado: {item.recordedAs}</span>
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <span className="font-bold text-yellow-500 text-sm">{formatCurrency(item.value)}</span>
+                      <Button size="icon" variant="ghost" onClick={() => removeItem(item.tempId)} className="text-zinc-500 hover:text-red-500">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+                    <Input label="Nome" value={item.description} onChange={e => updateItem(item.tempId, { description: e.target.value })} />
+                    <Select label="Categoria" value={item.categoryId} onChange={e => updateItem(item.tempId, { categoryId: e.target.value })}>
+                      <option value="">Selecione...</option>
+                      {expenseCategories.map(c => (
+                        <option key={c.id} value={c.id}>{c.name}</option>
+                      ))}
+                    </Select>
+                    <Button
+                      size="sm"
+                      variant={item.include ? 'secondary' : 'outline'}
+                      className="h-10"
+                      onClick={() => updateItem(item.tempId, { include: !item.include })}
+                    >
+                      {item.include ? 'Ignorar' : 'Incluir'}
+                    </Button>
+                  </div>
+
+                  {item.include && item.installment && (
+                    <div className="p-3 bg-yellow-500/10 rounded-xl border border-yellow-500/20 text-yellow-500 text-xs text-center font-medium">
+                      {item.installment.current > 1
+                        ? `Serão salvas as parcelas ${item.installment.current} a ${item.installment.total} de ${formatCurrency(item.value)}, a partir desta fatura. As ${item.installment.current - 1} anteriores ficam de fora, por já terem sido cobradas em faturas passadas.`
+                        : `Será salvo como: ${item.installment.total}x de ${formatCurrency(item.value)}, começando nesta fatura`}
+                    </div>
+                  )}
+                </Card>
+              ))}
+
+              <Button className="w-full bg-yellow-500 hover:bg-yellow-400 text-black font-bold" onClick={handleConfirmAll} disabled={isSaving || !included.length}>
+                <Check className="w-4 h-4 mr-2" /> {isSaving ? 'Salvando...' : `Confirmar e Cadastrar ${included.length} (${formatCurrency(total)})`}
+              </Button>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { supabase } from '../lib/supabase';
+import { repository } from '../lib/repository';
 import { Button, Input, Card } from './ui';
 import { X, Mail, Lock, Loader2 } from 'lucide-react';
 import { motion } from 'motion/react';
@@ -13,6 +13,8 @@ export const LoginModal = ({ onClose }: LoginModalProps) => {
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isSignUp, setIsSignUp] = useState(false);
+  const canSignUp = !!repository.auth.signUp;
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -20,8 +22,8 @@ export const LoginModal = ({ onClose }: LoginModalProps) => {
     setError(null);
 
     try {
-      const { error } = await supabase.auth.signInWithPassword({ email, password });
-      if (error) throw error;
+      if (isSignUp && repository.auth.signUp) await repository.auth.signUp(email, password);
+      else await repository.auth.signIn(email, password);
       onClose();
     } catch (err: any) {
       setError(err.message);
@@ -47,7 +49,7 @@ export const LoginModal = ({ onClose }: LoginModalProps) => {
 
           <div className="text-center mb-8">
             <h2 className="text-2xl font-bold text-zinc-100">
-              Bem-vindo de volta
+              {isSignUp ? 'Criar conta' : 'Bem-vindo de volta'}
             </h2>
             <p className="text-sm text-zinc-500 mt-2">
               Acesse seus dados de qualquer lugar
@@ -88,9 +90,22 @@ export const LoginModal = ({ onClose }: LoginModalProps) => {
               {loading ? (
                 <Loader2 className="w-5 h-5 animate-spin" />
               ) : (
-                'Entrar'
+                isSignUp ? 'Criar conta' : 'Entrar'
               )}
             </Button>
+
+            {canSignUp && (
+              <button 
+                type="button"
+                onClick={() => {
+                  setIsSignUp(!isSignUp);
+                  setError(null);
+                }}
+                className="w-full text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+              >
+                {isSignUp ? 'Já tenho conta' : 'Criar uma conta neste servidor'}
+              </button>
+            )}
           </form>
         </Card>
       </motion.div>
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format } from 'date-fns';
+import { Button, Input, Select } from './ui';
+import { formatCurrency, cn } from '../utils';
+import { useFinance } from '../hooks/useFinance';
+import { getBillingMonth } from '../lib/billing';
+import { Expense } from '../types';
+
+type RefundMode = 'single' | 'cancel' | 'credit';
+
+const MODE_LABELS: Record<RefundMode, { title: string; description: string }> = {
+  single: { title: 'Crédito único', description: 'Um estorno de valor livre numa fatura.' },
+  cancel: { title: 'Cancelar parcelas restantes', description: 'As parcelas em aberto somem das próximas faturas.' },
+  credit: { title: 'Crédito em cada parcela', description: 'Lança um estorno espelhando cada parcela restante, como fazem alguns bancos.' },
+};
+
+interface RefundModalProps {
+  expense?: Expense; // absent = standalone credit
+  onClose: () => void;
+}
+
+export const RefundModal = ({ expense, onClose }: RefundModalProps) => {
+  const { cards, accounts, expenseCategories, addRefund, refundInstallments } = useFinance();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const isSeries = expense?.type === 'installment' && !!expense.originalId;
+  const [mode, setMode] = useState<RefundMode>(isSeries ? 'cancel' : 'single');
+  const [title, setTitle] = useState(expense ? `Estorno ${expense.title}` : '');
+  const [categoryId, setCategoryId] = useState(expense?.categoryId || expenseCategories[0]?.id || '');
+  const [paymentMethod, setPaymentMethod] = useState(expense?.paymentMethod || cards[0]?.id || 'cash');
+  const [amount, setAmount] = useState(expense ? String(expense.type === 'installment' ? expense.totalValue : expense.installmentValue) : '');
+  const [date, setDate] = useState(today);
+  const [billingMonth, setBillingMonth] = useState(getBillingMonth(today, expense?.paymentMethod || cards[0]?.id || 'cash', cards));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleDateChange = (value: string) => {
+    setDate(value);
+    setBillingMonth(getBillingMonth(value, paymentMethod, cards));
+  };
+
+  const handlePaymentMethodChange = (value: string) => {
+    setPaymentMethod(value);
+    setBillingMonth(getBillingMonth(date, value, cards));
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setSaving(true);
+    try {
+      if (mode === 'single') {
+        await addRefund({
+          title: title || 'Estorno',
+          categoryId,
+          paymentMethod,
+          amount: parseFloat(amount) || 0,
+          purchaseDate: date,
+          billingMonth,
+          refundOf: expense?.id,
+        });
+      } else {
+        await refundInstallments(expense!.originalId!, billingMonth, mode);
+      }
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-md shadow-2xl overflow-y-auto max-h-[90vh]"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-zinc-100">{expense ? 'Estornar compra' : 'Estorno / Crédito'}</h3>
+            {expense && <p className="text-xs text-zinc-500 truncate">{expense.title}</p>}
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-xs">
+              {error}
+            </div>
+          )}
+
+          {isSeries && (
+            <div className="space-y-2">
+              {(Object.keys(MODE_LABELS) as RefundMode[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={cn(
+                    "w-full p-3 rounded-xl border text-left transition-colors",
+                    mode === option ? "bg-yellow-500/10 border-yellow-500/50" : "bg-zinc-900 border-zinc-800 hover:bg-zinc-800"
+                  )}
+                >
+                  <p className={cn("font-bold text-sm", mode === option ? "text-yellow-500" : "text-zinc-100")}>{MODE_LABELS[option].title}</p>
+                  <p className="text-xs text-zinc-500">{MODE_LABELS[option].description}</p>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {mode === 'single' ? (
+            <>
+              <Input label="Descrição" value={title} onChange={e => setTitle(e.target.value)} />
+              <div className="grid grid-cols-2 gap-3">
+                <Input label="Valor" type="number" min="0" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} />
+                <Input label="Data" type="date" value={date} onChange={e => handleDateChange(e.target.value)} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <Select label="Cartão / Conta" value={paymentMethod} onChange={e => handlePaymentMethodChange(e.target.value)}>
+                  <option value="cash">Dinheiro</option>
+                  {accounts.map(a => (
+                    <option key={a.id} value={a.id}>{a.name}</option>
+                  ))}
+                  {cards.map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </Select>
+                <Select label="Categoria" value={categoryId} onChange={e => setCategoryId(e.target.value)}>
+                  {expenseCategories.map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </Select>
+              </div>
+              <Input label="Mês da Fatura" type="month" value={billingMonth} onChange={e => setBillingMonth(e.target.value)} />
+              <p className="text-xs text-zinc-500">
+                {formatCurrency(parseFloat(amount) || 0)} serão abatidos {cards.some(c => c.id === paymentMethod) ? 'da fatura' : 'das despesas do mês'}.
+              </p>
+            </>
+          ) : (
+            <Input label="A partir da fatura" type="month" value={billingMonth} onChange={e => setBillingMonth(e.target.value)} />
+          )}
+
+          <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+            <Button variant="ghost" onClick={onClose} className="w-full sm:w-auto">Cancelar</Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !billingMonth || (mode === 'single' && !(parseFloat(amount) > 0))}
+              className="w-full sm:w-auto bg-yellow-500 hover:bg-yellow-400 text-black font-bold"
+            >
+              {saving ? 'Salvando...' : 'Registrar Estorno'}
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button, Input } from './ui';
+import { formatCurrency } from '../utils';
+import { useFinance } from '../hooks/useFinance';
+import { PayrollBreakdown, PayrollInput } from '../types';
+import { SALARY_EXTRA_LABELS, computePayroll, getSalaryPayroll, isSalaryIncome } from '../lib/payroll';
+
+// Form strings of a payroll input
+export interface PayrollForm {
+  gross: string;
+  dependents: string;
+  healthPlan: string;
+  otherDeductions: string;
+}
+
+export const EMPTY_PAYROLL_FORM: PayrollForm = { gross: '', dependents: '0', healthPlan: '', otherDeductions: '' };
+
+export const toPayrollInput = (form: PayrollForm): PayrollInput => ({
+  gross: parseFloat(form.gross) || 0,
+  dependents: parseInt(form.dependents) || 0,
+  healthPlan: parseFloat(form.healthPlan) || 0,
+  otherDeductions: parseFloat(form.otherDeductions) || 0,
+});
+
+export const PayrollFields = ({ form, onChange }: { form: PayrollForm; onChange: (form: PayrollForm) => void }) => (
+  <div className="grid grid-cols-2 gap-3">
+    <Input label="Salário Bruto" type="number" min="0" step="0.01" value={form.gross} onChange={e => onChange({ ...form, gross: e.target.value })} />
+    <Input label="Dependentes" type="number" min="0" step="1" value={form.dependents} onChange={e => onChange({ ...form, dependents: e.target.value })} />
+    <Input label="Plano de Saúde" type="number" min="0" step="0.01" value={form.healthPlan} onChange={e => onChange({ ...form, healthPlan: e.target.value })} placeholder="0,00" />
+    <Input label="Outros Descontos" type="number" min="0" step="0.01" value={form.otherDeductions} onChange={e => onChange({ ...form, otherDeductions: e.target.value })} placeholder="VT, sindicato..." />
+  </div>
+);
+
+export const PayrollPreview = ({ breakdown }: { breakdown: PayrollBreakdown }) => (
+  <div className="p-3 rounded-xl bg-zinc-900 border border-zinc-800 text-sm space-y-1">
+    <div className="flex justify-between text-zinc-400">
+      <span>Salário bruto</span>
+      <span>{formatCurrency(breakdown.gross)}</span>
+    </div>
+    <div className="flex justify-between text-red-400">
+      <span>INSS</span>
+      <span>- {formatCurrency(breakdown.inss)}</span>
+    </div>
+    <div className="flex justify-between text-red-400">
+      <span>IRRF</span>
+      <span>- {formatCurrency(breakdown.irrf)}</span>
+    </div>
+    {breakdown.healthPlan > 0 && (
+      <div className="flex justify-between text-red-400">
+        <span>Plano de saúde</span>
+        <span>- {formatCurrency(breakdown.healthPlan)}</span>
+      </div>
+    )}
+    {breakdown.otherDeductions > 0 && (
+      <div className="flex justify-between text-red-400">
+        <span>Outros descontos</span>
+        <span>- {formatCurrency(breakdown.otherDeductions)}</span>
+      </div>
+    )}
+    <div className="flex justify-between font-bold text-emerald-500">
+      <span>Líquido</span>
+      <span>{formatCurrency(breakdown.net)}</span>
+    </div>
+  </div>
+);
+
+interface SalaryModalProps {
+  incomeId: string;
+  onClose: () => void;
+}
+
+export const SalaryModal = ({ incomeId, onClose }: SalaryModalProps) => {
+  const { incomes, updateSalaryValue, generateSalaryExtras } = useFinance();
+  const income = incomes.find(i => i.id === incomeId);
+  const currentMonth = format(new Date(), 'yyyy-MM');
+  const current = income ? getSalaryPayroll(income, currentMonth) : undefined;
+  const [form, setForm] = useState<PayrollForm>(current
+    ? { gross: String(current.gross), dependents: String(current.dependents), healthPlan: current.healthPlan ? String(current.healthPlan) : '', otherDeductions: current.otherDeductions ? String(current.otherDeductions) : '' }
+    : EMPTY_PAYROLL_FORM);
+  const [effectiveMonth, setEffectiveMonth] = useState(currentMonth);
+  const [year, setYear] = useState(String(new Date().getFullYear()));
+  const [vacationMonth, setVacationMonth] = useState(
+    incomes.find(i => i.salaryExtra?.salaryId === incomeId && i.salaryExtra.kind === 'vacation' && String(i.salaryExtra.year) === String(new Date().getFullYear()))?.startMonth || ''
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!income) return null;
+
+  const input = toPayrollInput(form);
+  const preview = computePayroll(input, effectiveMonth);
+  const extras = incomes
+    .filter(i => i.salaryExtra?.salaryId === incomeId && String(i.salaryExtra.year) === year)
+    .sort((a, b) => (a.startMonth || '').localeCompare(b.startMonth || ''));
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setSaving(true);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-md shadow-2xl overflow-y-auto max-h-[90vh]"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-zinc-100">Folha de Pagamento</h3>
+            <p className="text-xs text-zinc-500 truncate">{income.title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-xs">
+              {error}
+            </div>
+          )}
+
+          <PayrollFields form={form} onChange={setForm} />
+          <Input label="A partir de" type="month" value={effectiveMonth} onChange={e => setEffectiveMonth(e.target.value)} />
+          <PayrollPreview breakdown={preview} />
+          {!isSalaryIncome(income) && (
+            <p className="text-xs text-zinc-500">O valor desta receita passa a ser o líquido calculado a partir do mês escolhido.</p>
+          )}
+          <Button
+            onClick={() => run(() => updateSalaryValue(incomeId, effectiveMonth, input, income.valueHistory?.[income.valueHistory.length - 1]?.paymentMethod || income.paymentMethod))}
+            disabled={saving || !effectiveMonth || !(input.gross > 0)}
+            className="w-full bg-emerald-500 hover:bg-emerald-400 text-black font-bold"
+          >
+            {saving ? 'Salvando...' : 'Salvar Salário'}
+          </Button>
+
+          {isSalaryIncome(income) && (
+            <div className="pt-4 border-t border-zinc-800 space-y-4">
+              <h4 className="font-bold text-zinc-100">13º e Férias</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <Input label="Ano" type="number" min="2000" step="1" value={year} onChange={e => setYear(e.target.value)} />
+                <Input label="Mês das Férias (opcional)" type="month" min={`${year}-01`} max={`${year}-12`} value={vacationMonth} onChange={e => setVacationMonth(e.target.value)} />
+              </div>
+              {extras.length > 0 && (
+                <div className="space-y-2">
+                  {extras.map(extra => (
+                    <div key={extra.id} className="flex justify-between text-sm">
+                      <span className="text-zinc-400">
+                        {SALARY_EXTRA_LABELS[extra.salaryExtra!.kind]} • <span className="capitalize">{format(parseISO(extra.startMonth + '-01'), 'MMM/yyyy', { locale: ptBR })}</span>
+                      </span>
+                      <span className="font-bold text-emerald-500">{formatCurrency(extra.amount || 0)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-zinc-500">
+                O 13º usa o salário de dezembro. As férias entram só com o que somam ao líquido do mês (o terço e a diferença de impostos).
+              </p>
+              <Button
+                variant="outline"
+                onClick={() => run(() => generateSalaryExtras(incomeId, parseInt(year), vacationMonth || undefined))}
+                disabled={saving || !(parseInt(year) > 0)}
+                className="w-full"
+              >
+                {extras.length ? 'Recalcular 13º e Férias' : 'Gerar 13º e Férias'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
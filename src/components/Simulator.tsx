@@ -0,0 +1,361 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { v4 as uuidv4 } from 'uuid';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, Legend, ReferenceLine } from 'recharts';
+import { Plus, Trash2, FlaskConical, RotateCcw } from 'lucide-react';
+import { useFinance } from '../hooks/useFinance';
+import { Card, Button, Input, Select } from './ui';
+import { formatCurrency, cn } from '../utils';
+import { shiftMonth } from '../lib/cashFlow';
+import { getExpenseEndMonth, isArchived } from '../lib/recurrence';
+import { paymentMethodName } from '../lib/accounts';
+import { ScenarioChange } from '../lib/scenario';
+
+type ChangeKind = ScenarioChange['kind'];
+
+const KIND_LABELS: Record<ChangeKind, string> = {
+  purchase: 'Compra',
+  cancel_expense: 'Cancelar despesa',
+  change_income: 'Alterar receita',
+  new_income: 'Nova receita',
+};
+
+const HORIZONS = [12, 18, 24];
+
+const monthLabel = (monthYear: string) => format(parseISO(monthYear + '-01'), 'MMM/yy', { locale: ptBR });
+
+const emptyDraft = (nextMonth: string) => ({
+  title: '',
+  value: '',
+  installments: '1',
+  month: nextMonth,
+  months: '',
+  paymentMethod: 'cash',
+  targetId: '',
+});
+
+export const Simulator = () => {
+  const { incomes, expenses, cards, accounts, getCashFlow, simulateCashFlow, getIncomeValueForMonth, getExpenseValueForMonth } = useFinance();
+  const currentMonth = format(new Date(), 'yyyy-MM');
+  const nextMonth = shiftMonth(currentMonth, 1);
+  const [horizon, setHorizon] = useState(12);
+  const [changes, setChanges] = useState<ScenarioChange[]>([]);
+  const [kind, setKind] = useState<ChangeKind>('purchase');
+  const [draft, setDraft] = useState(emptyDraft(nextMonth));
+
+  const fixedExpenses = expenses.filter(e => e.type === 'fixed' && !isArchived(getExpenseEndMonth(e)));
+  const activeIncomes = incomes.filter(i => !(i.type === 'fixed' && isArchived(i.endMonth)));
+  const titleOf = (list: { id: string; title: string }[], id: string) => list.find(item => item.id === id)?.title || 'Removida';
+
+  const value = parseFloat(draft.value) || 0;
+  const canAdd =
+    kind === 'purchase' ? !!draft.title && value > 0 :
+    kind === 'cancel_expense' ? !!draft.targetId :
+    kind === 'change_income' ? !!draft.targetId && value >= 0 && draft.value !== '' :
+    !!draft.title && value > 0;
+
+  const handleKindChange = (next: ChangeKind) => {
+    setKind(next);
+    setDraft(emptyDraft(nextMonth));
+  };
+
+  // Picking an income starts from its current value
+  const handleTargetChange = (targetId: string) => {
+    const income = kind === 'change_income' ? incomes.find(i => i.id === targetId) : undefined;
+    setDraft({ ...draft, targetId, value: income ? String(getIncomeValueForMonth(income, draft.month)) : draft.value });
+  };
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const id = uuidv4();
+    const change: ScenarioChange =
+      kind === 'purchase'
+        ? { id, kind, title: draft.title, total: value, installments: parseInt(draft.installments) || 1, firstMonth: draft.month, paymentMethod: draft.paymentMethod }
+        : kind === 'cancel_expense'
+          ? { id, kind, expenseId: draft.targetId, fromMonth: draft.month }
+          : kind === 'change_income'
+            ? { id, kind, incomeId: draft.targetId, fromMonth: draft.month, value }
+            : { id, kind, title: draft.title, value, fromMonth: draft.month, months: parseInt(draft.months) || undefined };
+    setChanges([...changes, change]);
+    setDraft(emptyDraft(nextMonth));
+  };
+
+  const describe = (change: ScenarioChange) => {
+    switch (change.kind) {
+      case 'purchase':
+        return change.installments > 1
+          ? `${change.title}: ${change.installments}x de ${formatCurrency(change.total / change.installments)} em ${paymentMethodName(change.paymentMethod, cards, accounts)}, a partir de ${monthLabel(change.firstMonth)}`
+          : `${change.title}: ${formatCurrency(change.total)} em ${paymentMethodName(change.paymentMethod, cards, accounts)}, em ${monthLabel(change.firstMonth)}`;
+      case 'cancel_expense': {
+        const expense = expenses.find(e => e.id === change.expenseId);
+        const monthly = expense ? getExpenseValueForMonth(expense, change.fromMonth).value : 0;
+        return `Sem ${titleOf(expenses, change.expenseId)} a partir de ${monthLabel(change.fromMonth)}${monthly ? ` (${formatCurrency(monthly)}/mês)` : ''}`;
+      }
+      case 'change_income':
+        return `${titleOf(incomes, change.incomeId)} passa a ${formatCurrency(change.value)} a partir de ${monthLabel(change.fromMonth)}`;
+      case 'new_income':
+        return `${change.title}: ${formatCurrency(change.value)}/mês a partir de ${monthLabel(change.fromMonth)}${change.months ? ` por ${change.months} meses` : ''}`;
+    }
+  };
+
+  // --- Real vs. scenario ---
+  const lastMonth = shiftMonth(currentMonth, horizon - 1);
+  const baseline = getCashFlow(currentMonth, lastMonth);
+  const scenario = simulateCashFlow(changes, currentMonth, lastMonth);
+  const rows = baseline.map((month, index) => ({
+    monthYear: month.monthYear,
+    name: monthLabel(month.monthYear),
+    real: month.closingBalance,
+    scenario: scenario[index].closingBalance,
+    difference: month.closingBalance != null && scenario[index].closingBalance != null ? scenario[index].closingBalance! - month.closingBalance : null,
+  }));
+  const lastRow = rows[rows.length - 1];
+  const lowest = rows
+    .filter(row => row.scenario != null)
+    .reduce<typeof rows[number] | null>((min, row) => (!min || row.scenario! < min.scenario! ? row : min), null);
+  const firstNegative = rows.find(row => row.scenario != null && row.scenario < 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-zinc-100">Simulador</h2>
+          <p className="text-sm text-zinc-500">Teste decisões antes de tomá-las: nada feito aqui é salvo.</p>
+        </div>
+        <div className="flex bg-zinc-900 p-1 rounded-xl border border-zinc-800 self-start">
+          {HORIZONS.map(months => (
+            <button
+              key={months}
+              onClick={() => setHorizon(months)}
+              className={cn(
+                "px-3 py-1.5 rounded-lg text-sm font-medium transition-all",
+                horizon === months ? 'bg-yellow-500/10 text-yellow-500' : 'text-zinc-400 hover:text-zinc-200'
+              )}
+            >
+              {months} meses
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-zinc-300 flex items-center gap-2">
+              <FlaskConical className="w-5 h-5 text-yellow-500" /> Cenário
+            </h3>
+            {changes.length > 0 && (
+              <button
+                onClick={() => setChanges([])}
+                className="p-2 text-zinc-600 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+                title="Limpar cenário"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-zinc-500">Nenhuma mudança ainda. O cenário é igual ao real.</p>
+          ) : (
+            <div className="space-y-2">
+              {changes.map(change => (
+                <div key={change.id} className="flex items-start justify-between gap-2 p-3 rounded-xl bg-zinc-900 border border-zinc-800">
+                  <div className="min-w-0">
+                    <p className="text-[10px] uppercase tracking-wider text-yellow-500 font-bold">{KIND_LABELS[change.kind]}</p>
+                    <p className="text-sm text-zinc-300">{describe(change)}</p>
+                  </div>
+                  <button
+                    onClick={() => setChanges(changes.filter(c => c.id !== change.id))}
+                    className="p-2 text-zinc-600 hover:text-red-500 hover:bg-zinc-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center shrink-0"
+                    title="Remover"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="pt-4 border-t border-zinc-800 space-y-3">
+            <Select label="Nova mudança" value={kind} onChange={e => handleKindChange(e.target.value as ChangeKind)}>
+              {(Object.keys(KIND_LABELS) as ChangeKind[]).map(option => (
+                <option key={option} value={option}>{KIND_LABELS[option]}</option>
+              ))}
+            </Select>
+
+            {(kind === 'purchase' || kind === 'new_income') && (
+              <Input
+                label="Descrição"
+                value={draft.title}
+                onChange={e => setDraft({ ...draft, title: e.target.value })}
+                placeholder={kind === 'purchase' ? 'Ex: Notebook' : 'Ex: Freela'}
+              />
+            )}
+
+            {kind === 'cancel_expense' && (
+              <Select label="Despesa fixa" value={draft.targetId} onChange={e => handleTargetChange(e.target.value)}>
+                <option value="">Selecione...</option>
+                {fixedExpenses.map(e => (
+                  <option key={e.id} value={e.id}>{e.title}</option>
+                ))}
+              </Select>
+            )}
+
+            {kind === 'change_income' && (
+              <Select label="Receita" value={draft.targetId} onChange={e => handleTargetChange(e.target.value)}>
+                <option value="">Selecione...</option>
+                {activeIncomes.map(i => (
+                  <option key={i.id} value={i.id}>{i.title}</option>
+                ))}
+              </Select>
+            )}
+
+            {kind !== 'cancel_expense' && (
+              <Input
+                label={kind === 'purchase' ? 'Valor Total' : kind === 'change_income' ? 'Novo Valor Mensal' : 'Valor Mensal'}
+                type="number" min="0" step="0.01"
+                value={draft.value}
+                onChange={e => setDraft({ ...draft, value: e.target.value })}
+              />
+            )}
+
+            {kind === 'purchase' && (
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  label="Parcelas"
+                  type="number" min="1" max="48"
+                  value={draft.installments}
+                  onChange={e => setDraft({ ...draft, installments: e.target.value })}
+                />
+                <Select label="Pagar com" value={draft.paymentMethod} onChange={e => setDraft({ ...draft, paymentMethod: e.target.value })}>
+                  <option value="cash">Dinheiro</option>
+                  {accounts.map(a => (
+                    <option key={a.id} value={a.id}>Conta: {a.name}</option>
+                  ))}
+                  {cards.map(c => (
+                    <option key={c.id} value={c.id}>Cartão: {c.name}</option>
+                  ))}
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label={kind === 'purchase' ? 'Primeira Fatura' : 'A partir de'}
+                type="month"
+                value={draft.month}
+                onChange={e => setDraft({ ...draft, month: e.target.value })}
+              />
+              {kind === 'new_income' && (
+                <Input
+                  label="Meses (opcional)"
+                  type="number" min="1"
+                  value={draft.months}
+                  onChange={e => setDraft({ ...draft, months: e.target.value })}
+                  placeholder="Sem fim"
+                />
+              )}
+            </div>
+
+            <Button onClick={handleAdd} disabled={!canAdd || !draft.month} className="w-full gap-2">
+              <Plus className="w-4 h-4" /> Adicionar ao Cenário
+            </Button>
+          </div>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Card className="bg-zinc-900/50 border-zinc-800">
+              <p className="text-zinc-400 text-sm font-medium">Saldo em {lastRow ? monthLabel(lastRow.monthYear) : '-'} (real)</p>
+              <p className={cn("text-xl font-bold", (lastRow?.real ?? 0) >= 0 ? "text-zinc-100" : "text-red-500")}>
+                {lastRow?.real != null ? formatCurrency(lastRow.real) : '-'}
+              </p>
+            </Card>
+            <Card className="bg-zinc-900/50 border-zinc-800">
+              <p className="text-zinc-400 text-sm font-medium">Saldo em {lastRow ? monthLabel(lastRow.monthYear) : '-'} (cenário)</p>
+              <p className={cn("text-xl font-bold", (lastRow?.scenario ?? 0) >= 0 ? "text-yellow-500" : "text-red-500")}>
+                {lastRow?.scenario != null ? formatCurrency(lastRow.scenario) : '-'}
+              </p>
+              {lastRow?.difference != null && lastRow.difference !== 0 && (
+                <p className={cn("text-xs", lastRow.difference > 0 ? "text-emerald-500" : "text-red-400")}>
+                  {lastRow.difference > 0 ? '+' : ''}{formatCurrency(lastRow.difference)} em relação ao real
+                </p>
+              )}
+            </Card>
+            <Card className="bg-zinc-900/50 border-zinc-800">
+              <p className="text-zinc-400 text-sm font-medium">Menor saldo do cenário</p>
+              <p className={cn("text-xl font-bold", (lowest?.scenario ?? 0) >= 0 ? "text-zinc-100" : "text-red-500")}>
+                {lowest ? formatCurrency(lowest.scenario!) : '-'}
+              </p>
+              {lowest && <p className="text-xs text-zinc-500 capitalize">{lowest.name}</p>}
+            </Card>
+          </div>
+
+          {firstNegative && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-sm">
+              Neste cenário o saldo fica negativo em <span className="font-bold">{firstNegative.name}</span>.
+            </div>
+          )}
+
+          <Card className="h-[360px] flex flex-col">
+            <h3 className="text-lg font-medium text-zinc-300 mb-4">Saldo em Conta: Real x Cenário</h3>
+            <div className="flex-1">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={rows}>
+                  <XAxis dataKey="name" stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `R$${value/1000}k`} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#18181b', borderColor: '#27272a', borderRadius: '8px' }}
+                    itemStyle={{ color: '#e4e4e7' }}
+                    formatter={(value: number) => formatCurrency(value)}
+                  />
+                  <Legend />
+                  <ReferenceLine y={0} stroke="#3f3f46" />
+                  <Line type="monotone" dataKey="real" name="Real" stroke="#71717a" strokeWidth={2} strokeDasharray="5 5" dot={false} connectNulls={false} />
+                  <Line type="monotone" dataKey="scenario" name="Cenário" stroke="#EAB308" strokeWidth={2} dot={{ r: 3 }} connectNulls={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+
+          <Card>
+            <h3 className="text-lg font-medium text-zinc-300 mb-4">Mês a Mês</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wider text-zinc-500">
+                    <th className="py-2 pr-4 font-medium">Mês</th>
+                    <th className="py-2 pr-4 font-medium text-right">Real</th>
+                    <th className="py-2 pr-4 font-medium text-right">Cenário</th>
+                    <th className="py-2 font-medium text-right">Diferença</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.monthYear} className="border-t border-zinc-800">
+                      <td className="py-2 pr-4 text-zinc-300 capitalize">{row.name}</td>
+                      <td className={cn("py-2 pr-4 text-right", (row.real ?? 0) < 0 ? "text-red-500" : "text-zinc-400")}>
+                        {row.real != null ? formatCurrency(row.real) : '-'}
+                      </td>
+                      <td className={cn("py-2 pr-4 text-right font-medium", (row.scenario ?? 0) < 0 ? "text-red-500" : "text-zinc-100")}>
+                        {row.scenario != null ? formatCurrency(row.scenario) : '-'}
+                      </td>
+                      <td className={cn("py-2 text-right", row.difference == null || row.difference === 0 ? "text-zinc-600" : row.difference > 0 ? "text-emerald-500" : "text-red-400")}>
+                        {row.difference != null ? formatCurrency(row.difference) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {rows.some(row => row.real == null) && (
+              <p className="text-xs text-zinc-500 mt-3">Meses anteriores ao saldo inicial ficam sem saldo.</p>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,351 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Trash2, Check, FileText, Link2, CreditCard as CardIcon } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Card, Button, Input, Select } from './ui';
+import { formatCurrency, cn } from '../utils';
+import { useFinance } from '../hooks/useFinance';
+import { getBillingMonth } from '../lib/billing';
+import { getPaymentMethodKind } from '../lib/accounts';
+import { InvoiceMatch, OfxStatement, decodeOfx, findExpenseMatch, findIncomeMatch, findInvoiceMatch, guessCategoryId, parseOfx } from '../lib/ofx';
+
+type StatementAction = 'create' | 'mark_paid' | 'pay_invoice' | 'skip';
+
+interface StatementItem {
+  tempId: string;
+  kind: 'expense' | 'income';
+  name: string;
+  value: number;
+  date: string; // YYYY-MM-DD
+  categoryId: string;
+  // Entry already recorded for this line
+  match?: { id: string; title: string; monthYear: string; isPaid: boolean; oneTime: boolean };
+  // Card invoice paid by this bank debit
+  invoice?: InvoiceMatch;
+  action: StatementAction;
+}
+
+const ACTION_LABELS: Record<StatementAction, string> = {
+  create: 'Cadastrar',
+  mark_paid: 'Marcar como pago',
+  pay_invoice: 'Pagar fatura',
+  skip: 'Ignorar',
+};
+
+export const StatementImport = () => {
+  const {
+    cards, accounts, expenses, incomes, expensePayments, expenseCategories, incomeCategories,
+    addExpense, addIncome, updateExpense, toggleExpensePaid, payCardInvoice, getExpenseValueForMonth, getIncomeValueForMonth, getCardInvoice
+  } = useFinance();
+  const [statement, setStatement] = useState<OfxStatement | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState('cash');
+  const [items, setItems] = useState<StatementItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Proposes one entry per statement line, linking lines to what is already recorded
+  const buildItems = (source: OfxStatement, method: string): StatementItem[] => {
+    const taken = new Set<string>();
+    const isCard = getPaymentMethodKind(method, cards, accounts) === 'credit_card';
+    return source.transactions.map((tx, index) => {
+      const value = Math.abs(tx.amount);
+      // Some banks repeat FITIDs, so the position keeps keys unique
+      const base = { tempId: `${index}-${tx.id}`, name: tx.description, value, date: tx.date };
+
+      if (tx.amount > 0) {
+        const income = findIncomeMatch(tx, incomes, getIncomeValueForMonth, taken);
+        if (income) taken.add(`${income.id}|${tx.date.slice(0, 7)}`);
+        return {
+          ...base,
+          kind: 'income' as const,
+          categoryId: guessCategoryId(tx.description, incomeCategories, incomes) || '',
+          match: income ? { id: income.id, title: income.title, monthYear: tx.date.slice(0, 7), isPaid: true, oneTime: false } : undefined,
+          // Credits on a card statement are bill payments or refunds, not income
+          action: income || source.kind === 'card' ? 'skip' as const : 'create' as const,
+        };
+      }
+
+      const billingMonth = getBillingMonth(tx.date, method, cards);
+      const match = findExpenseMatch(tx, method, expenses, expensePayments, getExpenseValueForMonth, billingMonth, taken);
+      if (match) taken.add(`${match.expense.id}|${match.monthYear}`);
+      // A bank debit that pays a card invoice is not new spending: the card purchases already are
+      const invoice = !match && !isCard ? findInvoiceMatch(tx, cards, getCardInvoice, taken) : undefined;
+      if (invoice) {
+        taken.add(`${invoice.cardId}|${invoice.monthYear}`);
+        return {
+          ...base,
+          kind: 'expense' as const,
+          categoryId: '',
+          invoice,
+          action: invoice.isPaid ? 'skip' as const : 'pay_invoice' as const,
+        };
+      }
+      return {
+        ...base,
+        kind: 'expense' as const,
+        categoryId: guessCategoryId(tx.description, expenseCategories, expenses) || '',
+        match: match && {
+          id: match.expense.id,
+          title: match.expense.title,
+          monthYear: match.monthYear,
+          isPaid: match.isPaid,
+          oneTime: match.expense.type === 'one_time',
+        },
+        action: !match ? 'create' as const : match.isPaid ? 'skip' as const : 'mark_paid' as const,
+      };
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setResult(null);
+    try {
+      const parsed = parseOfx(decodeOfx(await file.arrayBuffer()));
+      const method = parsed.kind === 'card' && cards.length ? cards[0].id : accounts[0]?.id || 'cash';
+      setStatement(parsed);
+      setPaymentMethod(method);
+      setItems(buildItems(parsed, method));
+    } catch (err: any) {
+      setStatement(null);
+      setItems([]);
+      setError(err.message);
+    }
+  };
+
+  const handlePaymentMethodChange = (method: string) => {
+    setPaymentMethod(method);
+    if (statement) setItems(buildItems(statement, method));
+  };
+
+  const updateItem = (id: string, updates: Partial<StatementItem>) => {
+    setItems(prev => prev.map(item => item.tempId === id ? { ...item, ...updates } : item));
+  };
+
+  const removeItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.tempId !== id));
+  };
+
+  const setMatchedAction = (action: StatementAction) => {
+    setItems(prev => prev.map(item => {
+      if (!item.match) return item;
+      if (action === 'mark_paid' && (item.kind !== 'expense' || item.match.isPaid)) return item;
+      return { ...item, action };
+    }));
+  };
+
+  const handleConfirmAll = async () => {
+    setIsSaving(true);
+    const isCard = getPaymentMethodKind(paymentMethod, cards, accounts) === 'credit_card';
+    let created = 0;
+    let paid = 0;
+
+    for (const item of items) {
+      if (item.action === 'skip') continue;
+
+      if (item.action === 'mark_paid' && item.match) {
+        if (item.match.oneTime) await updateExpense(item.match.id, { isPaid: true });
+        else await toggleExpensePaid(item.match.id, item.match.monthYear);
+        paid++;
+      } else if (item.action === 'pay_invoice' && item.invoice) {
+        await payCardInvoice(item.invoice.cardId, item.invoice.monthYear, {
+          paidAmount: item.invoice.paid + item.value,
+          paidAt: item.date,
+          rollover: false,
+          accountId: paymentMethod === 'cash' ? undefined : paymentMethod,
+        });
+        paid++;
+      } else if (item.action === 'create' && item.kind === 'expense') {
+        await addExpense({
+          title: item.name || 'Sem título',
+          categoryId: item.categoryId || expenseCategories[0]?.id,
+          type: 'one_time',
+          purchaseDate: item.date,
+          billingMonth: getBillingMonth(item.date, paymentMethod, cards),
+          isInstallment: false,
+          totalValue: item.value,
+          installmentValue: item.value,
+          paymentMethod,
+          // Debits in the bank statement already left the account
+          isPaid: !isCard,
+        });
+        created++;
+      } else if (item.action === 'create') {
+        await addIncome({
+          title: item.name || 'Sem título',
+          categoryId: item.categoryId || incomeCategories[0]?.id,
+          type: 'temporary',
+          amount: item.value,
+          startMonth: item.date.slice(0, 7),
+          durationMonths: 1,
+          paymentMethod: isCard ? 'cash' : paymentMethod,
+        });
+        created++;
+      }
+    }
+
+    setIsSaving(false);
+    setStatement(null);
+    setItems([]);
+    setResult(`Extrato conciliado: ${created} ${created === 1 ? 'lançamento cadastrado' : 'lançamentos cadastrados'}, ${paid} ${paid === 1 ? 'marcado' : 'marcados'} como pago.`);
+  };
+
+  const matchedCount = items.filter(item => item.match).length;
+  const toProcess = items.filter(item => item.action !== 'skip').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 space-y-4">
+        <input ref={fileInputRef} type="file" accept=".ofx,.OFX,application/x-ofx" className="hidden" onChange={handleFileChange} />
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+          <Button variant="outline" className="gap-2 sm:flex-1" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4" />
+            {statement ? 'Escolher outro extrato' : 'Importar extrato OFX'}
+          </Button>
+          {statement && (
+            <div className="sm:flex-1">
+              <Select label="Conta do extrato" value={paymentMethod} onChange={e => handlePaymentMethodChange(e.target.value)}>
+                <option value="cash">Dinheiro</option>
+                {accounts.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+                {cards.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-xs">
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <div className="rounded-2xl px-4 py-3 text-sm bg-yellow-500/10 text-yellow-500 border border-yellow-500/20">
+            {result}
+          </div>
+        )}
+
+        {statement && (
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-zinc-400">
+            <span className="flex items-center gap-2">
+              <FileText className="w-4 h-4 text-yellow-500" />
+              {items.length} lançamentos • {matchedCount} já cadastrados
+            </span>
+            {matchedCount > 0 && (
+              <div className="flex gap-2">
+                <Button size="sm" variant="secondary" onClick={() => setMatchedAction('mark_paid')}>Marcar encontrados como pagos</Button>
+                <Button size="sm" variant="ghost" onClick={() => setMatchedAction('skip')}>Ignorar encontrados</Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="w-full space-y-4"
+        >
+          {items.map((item, index) => {
+            const categories = item.kind === 'expense' ? expenseCategories : incomeCategories;
+            const actions: StatementAction[] = item.invoice && !item.invoice.isPaid
+              ? ['pay_invoice', 'create', 'skip']
+              : item.match && item.kind === 'expense' && !item.match.isPaid
+                ? ['mark_paid', 'create', 'skip']
+                : ['create', 'skip'];
+            return (
+              <Card
+                key={item.tempId}
+                className={cn(
+                  "p-4 bg-zinc-900/80 space-y-4 relative",
+                  item.action === 'skip' ? "border-zinc-800 opacity-60" : "border-yellow-500/50"
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <h3 className="font-bold text-zinc-100">
+                      {item.kind === 'expense' ? 'Gasto' : 'Receita'} {index + 1}
+                      <span className="ml-2 text-xs font-normal text-zinc-500">
+                        {format(parseISO(item.date), "dd 'de' MMM", { locale: ptBR })}
+                      </span>
+                    </h3>
+                    {item.match && (
+                      <p className={cn("text-xs flex items-center gap-1 mt-1", item.match.isPaid ? "text-emerald-500" : "text-yellow-500")}>
+                        <Link2 className="w-3 h-3 shrink-0" />
+                        <span className="truncate">
+                          Já cadastrado: {item.match.title}{item.kind === 'expense' && (item.match.isPaid ? ' (pago)' : ' (em aberto)')}
+                        </span>
+                      </p>
+                    )}
+                    {item.invoice && (
+                      <p className={cn("text-xs flex items-center gap-1 mt-1", item.invoice.isPaid ? "text-emerald-500" : "text-yellow-500")}>
+                        <CardIcon className="w-3 h-3 shrink-0" />
+                        <span className="truncate">
+                          Fatura {cards.find(c => c.id === item.invoice!.cardId)?.name} de {format(parseISO(item.invoice.monthYear + '-01'), 'MMM/yyyy', { locale: ptBR })}{item.invoice.isPaid ? ' (paga)' : ''}
+                        </span>
+                      </p>
+                    )}
+                  </div>
+                  <Button size="icon" variant="ghost" onClick={() => removeItem(item.tempId)} className="text-zinc-500 hover:text-red-500 shrink-0">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <Input
+                    label="Nome"
+                    value={item.name}
+                    onChange={e => updateItem(item.tempId, { name: e.target.value })}
+                  />
+                  <Input
+                    label="Valor"
+                    type="number"
+                    value={item.value || ''}
+                    onChange={e => updateItem(item.tempId, { value: parseFloat(e.target.value) || 0 })}
+                  />
+                  <Select
+                    label="Categoria"
+                    value={item.categoryId}
+                    onChange={e => updateItem(item.tempId, { categoryId: e.target.value })}
+                  >
+                    <option value="">Selecione...</option>
+                    {categories.map(c => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </Select>
+                  <Select
+                    label="Ação"
+                    value={item.action}
+                    onChange={e => updateItem(item.tempId, { action: e.target.value as StatementAction })}
+                  >
+                    {actions.map(action => (
+                      <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                    ))}
+                  </Select>
+                </div>
+
+                <div className="text-right text-sm font-bold text-yellow-500">
+                  {item.kind === 'expense' ? '-' : '+'}{formatCurrency(item.value)}
+                </div>
+              </Card>
+            );
+          })}
+
+          <Button className="w-full bg-yellow-500 hover:bg-yellow-400 text-black font-bold mt-4" onClick={handleConfirmAll} disabled={isSaving || toProcess === 0}>
+            <Check className="w-4 h-4 mr-2" /> {isSaving ? 'Salvando...' : `Confirmar Todos (${toProcess})`}
+          </Button>
+        </motion.div>
+      )}
+    </div>
+  );
+};
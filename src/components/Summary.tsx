@@ -1,17 +1,25 @@
 import React, { useState } from 'react';
 import { useFinance } from '../hooks/useFinance';
-import { Card, Button } from './ui';
-import { ArrowLeft, ArrowRight, TrendingUp, TrendingDown, Wallet, CreditCard as CardIcon, CheckCircle, Circle, ChevronDown, Edit2, X, AlertTriangle } from 'lucide-react';
+import { Card, Button, Input } from './ui';
+import { ArrowLeft, ArrowRight, TrendingUp, TrendingDown, Wallet, CreditCard as CardIcon, CheckCircle, Circle, ChevronDown, Edit2, X, AlertTriangle, PiggyBank, Check } from 'lucide-react';
 import { format, addMonths, subMonths, parseISO, startOfMonth, eachMonthOfInterval } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { formatCurrency, cn } from '../utils';
 import { motion, AnimatePresence } from 'motion/react';
+import { getBudgetStatus } from '../lib/budget';
+import { CardPaymentModal } from './CardPaymentModal';
+import { IncomeReceiptModal } from './IncomeReceiptModal';
+import { ACCOUNT_TYPE_LABELS, CASH_LABEL, getPaymentMethodKind, paymentMethodName } from '../lib/accounts';
+import { getIncomeMonthStatuses } from '../lib/incomeReceipts';
 
 export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => void }) => {
-  const { incomes, expenses, cards, cardPayments, expensePayments, toggleExpensePaid, toggleCardPaid, getIncomeValueForMonth, getExpenseValueForMonth } = useFinance();
+  const { incomes, incomeReceipts, expenses, expenseCategories, cards, accounts, cardPayments, expensePayments, settings, toggleExpensePaid, toggleIncomeReceived, toggleCardPaid, updateSettings, getIncomeValueForMonth, getExpenseValueForMonth, getCashFlow, getCardInvoice, getAccountFlow } = useFinance();
   const [selectedMonth, setSelectedMonth] = useState(format(addMonths(new Date(), 1), 'yyyy-MM'));
   const [isMonthDropdownOpen, setIsMonthDropdownOpen] = useState(false);
   const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
+  const [payingCardId, setPayingCardId] = useState<string | null>(null);
+  const [receivingIncomeId, setReceivingIncomeId] = useState<string | null>(null);
+  const [openingForm, setOpeningForm] = useState<{ balance: string; month: string } | null>(null);
 
   const handlePrevMonth = () => setSelectedMonth(prev => format(subMonths(parseISO(prev + '-01'), 1), 'yyyy-MM'));
   const handleNextMonth = () => setSelectedMonth(prev => format(addMonths(parseISO(prev + '-01'), 1), 'yyyy-MM'));
@@ -20,6 +28,11 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
 
   const totalIncome = incomes.reduce((acc, inc) => acc + getIncomeValueForMonth(inc, selectedMonth), 0);
 
+  // Expected vs. received; what is still missing only counts incomes not marked as received
+  const incomeStatuses = getIncomeMonthStatuses(incomes, incomeReceipts, selectedMonth, getIncomeValueForMonth);
+  const totalReceived = incomeStatuses.reduce((acc, status) => acc + status.received, 0);
+  const totalMissing = incomeStatuses.reduce((acc, status) => acc + (status.receipt?.isReceived ? 0 : status.expected), 0);
+
   // Get all expenses for this month (one_time, installment, and fixed)
   const monthlyExpenses = expenses.map(e => {
     const { value, paymentMethod } = getExpenseValueForMonth(e, selectedMonth);
@@ -29,36 +42,60 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
       isPaid = payment ? payment.isPaid : false;
     }
     return { ...e, currentMonthValue: value, currentMonthPaymentMethod: paymentMethod, isPaid };
-  }).filter(e => e.currentMonthValue > 0);
+  }).filter(e => e.currentMonthValue !== 0); // refunds come in negative
+
+  const overBudget = getBudgetStatus(expenseCategories, expenses, selectedMonth, getExpenseValueForMonth).filter(status => status.spent > status.budget);
+
+  // Account balance carried over from the opening balance. The month KPIs come from the same
+  // result, so they always agree with the balance
+  const [cashFlow] = getCashFlow(selectedMonth, selectedMonth);
 
-  const totalExpenses = monthlyExpenses.reduce((acc, exp) => acc + exp.currentMonthValue, 0);
-  const balance = totalIncome - totalExpenses;
+  const handleEditOpening = () => setOpeningForm({
+    balance: settings ? String(settings.openingBalance) : '',
+    month: settings?.openingMonth || format(new Date(), 'yyyy-MM'),
+  });
+
+  const handleSaveOpening = async () => {
+    if (!openingForm?.month) return;
+    await updateSettings({ openingBalance: parseFloat(openingForm.balance) || 0, openingMonth: openingForm.month });
+    setOpeningForm(null);
+  };
 
   const cardTotals = cards.map(card => {
     const cardExpenses = monthlyExpenses.filter(e => e.currentMonthPaymentMethod === card.id);
-    const total = cardExpenses.reduce((acc, e) => acc + e.currentMonthValue, 0);
-    const isPaid = cardPayments.find(p => p.cardId === card.id && p.monthYear === selectedMonth)?.isPaid || false;
+    // Includes what was rolled over from the previous invoice
+    const invoice = getCardInvoice(card.id, selectedMonth)!;
     const count = cardExpenses.length;
     const installmentCount = cardExpenses.filter(e => e.isInstallment).length;
-    return { ...card, total, isPaid, count, installmentCount };
+    return { ...card, total: invoice.total, isPaid: invoice.isPaid, invoice, count, installmentCount };
   }).filter(c => c.total > 0);
 
-  const cashExpenses = monthlyExpenses.filter(e => e.currentMonthPaymentMethod === 'cash');
+  // Spending outside the cards, by the account it leaves from; loose cash (and deleted accounts) go to "Dinheiro"
+  const sourceOf = (paymentMethod: string) => {
+    const kind = getPaymentMethodKind(paymentMethod, cards, accounts);
+    return kind === 'credit_card' ? null : kind === 'account' ? paymentMethod : 'cash';
+  };
+  const accountGroups = [
+    ...accounts.map(account => ({
+      id: account.id,
+      name: account.name,
+      label: ACCOUNT_TYPE_LABELS[account.type],
+      color: account.color,
+      flow: getAccountFlow(account.id, selectedMonth),
+    })),
+    { id: 'cash', name: CASH_LABEL, label: 'Sem conta definida', color: '#6B7280', flow: null },
+  ].map(group => {
+    const groupExpenses = monthlyExpenses.filter(e => sourceOf(e.currentMonthPaymentMethod) === group.id);
+    return { ...group, expenses: groupExpenses, total: groupExpenses.reduce((acc, e) => acc + e.currentMonthValue, 0) };
+  }).filter(group => group.expenses.length > 0 || group.id !== 'cash');
 
   // Pending Items Calculation (Previous Month)
   const prevMonthStr = format(subMonths(parseISO(selectedMonth + '-01'), 1), 'yyyy-MM');
   
+  // Unpaid or partly paid invoices; a remainder rolled into this month no longer counts as pending
   const pendingCards = cards.filter(card => {
-    const cardExpensesPrev = expenses.map(e => {
-      const { value, paymentMethod } = getExpenseValueForMonth(e, prevMonthStr);
-      return { value, paymentMethod };
-    }).filter(e => e.value > 0 && e.paymentMethod === card.id);
-    
-    const totalPrev = cardExpensesPrev.reduce((acc, e) => acc + e.value, 0);
-    if (totalPrev === 0) return false;
-
-    const isPaid = cardPayments.find(p => p.cardId === card.id && p.monthYear === prevMonthStr)?.isPaid;
-    return !isPaid;
+    const invoice = getCardInvoice(card.id, prevMonthStr)!;
+    return invoice.total > 0 && !invoice.isPaid;
   });
 
   const pendingCash = expenses.filter(e => {
@@ -68,7 +105,7 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
        const payment = (expensePayments || []).find(p => p.expenseId === e.id && p.monthYear === prevMonthStr);
        isPaid = payment ? payment.isPaid : false;
     }
-    return value > 0 && paymentMethod === 'cash' && !isPaid;
+    return value > 0 && sourceOf(paymentMethod) !== null && !isPaid;
   });
 
   const totalPending = pendingCards.length + pendingCash.length;
@@ -81,6 +118,7 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
 
   const selectedCard = cards.find(c => c.id === selectedCardId);
   const selectedCardExpenses = monthlyExpenses.filter(e => e.currentMonthPaymentMethod === selectedCardId);
+  const selectedInvoice = selectedCardId ? getCardInvoice(selectedCardId, selectedMonth) : null;
 
   return (
     <div className="space-y-6">
@@ -106,7 +144,7 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
                 <AlertTriangle className="w-4 h-4" />
               </div>
               <p className="font-medium text-sm">
-                ⚠️ Você tem <span className="font-bold">{totalPending} pendências</span> do mês anterior (Faturas/Dinheiro).
+                ⚠️ Você tem <span className="font-bold">{totalPending} pendências</span> do mês anterior (Faturas/Contas).
               </p>
             </motion.div>
           )}
@@ -161,7 +199,7 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
       </div>
 
       {/* KPIs */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card className="bg-zinc-900/50 border-zinc-800">
           <div className="flex items-center gap-3 mb-2">
             <div className="p-2 bg-emerald-500/10 rounded-lg text-emerald-500">
@@ -169,7 +207,7 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
             </div>
             <span className="text-zinc-400 font-medium">Receitas</span>
           </div>
-          <p className="text-2xl font-bold text-zinc-100">{formatCurrency(totalIncome)}</p>
+          <p className="text-2xl font-bold text-zinc-100">{formatCurrency(cashFlow.income)}</p>
         </Card>
 
         <Card className="bg-zinc-900/50 border-zinc-800">
@@ -179,7 +217,7 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
             </div>
             <span className="text-zinc-400 font-medium">Despesas</span>
           </div>
-          <p className="text-2xl font-bold text-zinc-100">{formatCurrency(totalExpenses)}</p>
+          <p className="text-2xl font-bold text-zinc-100">{formatCurrency(cashFlow.expense)}</p>
         </Card>
 
         <Card className="bg-zinc-900/50 border-zinc-800">
@@ -187,12 +225,153 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
             <div className="p-2 bg-yellow-500/10 rounded-lg text-yellow-500">
               <Wallet className="w-5 h-5" />
             </div>
-            <span className="text-zinc-400 font-medium">Saldo</span>
+            <span className="text-zinc-400 font-medium">Saldo do Mês</span>
           </div>
-          <p className={cn("text-2xl font-bold", balance >= 0 ? "text-emerald-500" : "text-red-500")}>
-            {formatCurrency(balance)}
+          <p className={cn("text-2xl font-bold", cashFlow.net >= 0 ? "text-emerald-500" : "text-red-500")}>
+            {formatCurrency(cashFlow.net)}
           </p>
         </Card>
+
+        <Card className="bg-zinc-900/50 border-zinc-800">
+          <div className="flex items-center gap-3 mb-2">
+            <div className="p-2 bg-blue-500/10 rounded-lg text-blue-500">
+              <PiggyBank className="w-5 h-5" />
+            </div>
+            <span className="text-zinc-400 font-medium flex-1">Saldo em Conta</span>
+            {!openingForm && (
+              <button onClick={handleEditOpening} className="p-1 text-zinc-500 hover:text-zinc-200 transition-colors" title="Definir saldo inicial">
+                <Edit2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {openingForm ? (
+            <div className="space-y-2">
+              <Input
+                label="Saldo inicial"
+                type="number"
+                step="0.01"
+                value={openingForm.balance}
+                onChange={e => setOpeningForm({ ...openingForm, balance: e.target.value })}
+              />
+              <Input
+                label="No início de"
+                type="month"
+                value={openingForm.month}
+                onChange={e => setOpeningForm({ ...openingForm, month: e.target.value })}
+              />
+              <div className="flex gap-2">
+                <Button size="sm" variant="ghost" className="flex-1" onClick={() => setOpeningForm(null)}>Cancelar</Button>
+                <Button size="sm" className="flex-1 gap-1" onClick={handleSaveOpening} disabled={!openingForm.month}>
+                  <Check className="w-4 h-4" /> Salvar
+                </Button>
+              </div>
+            </div>
+          ) : cashFlow?.closingBalance == null ? (
+            <p className="text-sm text-zinc-500">
+              Mês anterior ao saldo inicial ({format(parseISO((settings?.openingMonth || format(new Date(), 'yyyy-MM')) + '-01'), 'MMM/yyyy', { locale: ptBR })}).
+            </p>
+          ) : (
+            <>
+              <p className={cn("text-2xl font-bold", cashFlow.closingBalance >= 0 ? "text-zinc-100" : "text-red-500")}>
+                {formatCurrency(cashFlow.closingBalance)}
+              </p>
+              <p className="text-xs text-zinc-500 mt-1">
+                {settings
+                  ? `Saldo anterior: ${formatCurrency(cashFlow.openingBalance!)}`
+                  : 'Sem saldo inicial: toque no lápis para definir'}
+              </p>
+            </>
+          )}
+        </Card>
+      </div>
+
+      {/* Budget Warnings */}
+      {overBudget.length > 0 && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl px-4 py-3 space-y-2 text-red-500">
+          <p className="font-medium text-sm flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {overBudget.length === 1 ? '1 categoria acima do orçamento' : `${overBudget.length} categorias acima do orçamento`} neste mês
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {overBudget.map(status => (
+              <span key={status.category.id} className="text-xs bg-red-500/10 rounded-lg px-2 py-1">
+                {status.category.name}: {formatCurrency(status.spent)} de {formatCurrency(status.budget)} (+{formatCurrency(status.spent - status.budget)})
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Incomes: expected vs. received */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-zinc-200 flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-emerald-500" /> Receitas do Mês
+        </h3>
+        {incomeStatuses.length === 0 ? (
+          <p className="text-zinc-500 text-sm">Nenhuma receita prevista neste mês.</p>
+        ) : (
+          <Card className="bg-zinc-900/50 border-zinc-800">
+            <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+              <div>
+                <p className="text-[10px] uppercase tracking-wider text-zinc-500">Previsto</p>
+                <p className="font-bold text-zinc-100">{formatCurrency(totalIncome)}</p>
+              </div>
+              <div>
+                <p className="text-[10px] uppercase tracking-wider text-zinc-500">Recebido</p>
+                <p className="font-bold text-emerald-500">{formatCurrency(totalReceived)}</p>
+              </div>
+              <div>
+                <p className="text-[10px] uppercase tracking-wider text-zinc-500">Falta</p>
+                <p className={cn("font-bold", totalMissing > 0 ? "text-yellow-500" : "text-zinc-500")}>{formatCurrency(totalMissing)}</p>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {incomeStatuses.map(status => {
+                const isReceived = !!status.receipt?.isReceived;
+                return (
+                  <div key={status.income.id} className="flex items-center justify-between group">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <button
+                        onClick={() => toggleIncomeReceived(status.income.id, selectedMonth)}
+                        className={cn("transition-colors", isReceived ? "text-emerald-500" : "text-zinc-600 hover:text-zinc-400")}
+                        title={isReceived ? 'Desmarcar recebimento' : 'Marcar como recebida'}
+                      >
+                        {isReceived ? <CheckCircle className="w-5 h-5" /> : <Circle className="w-5 h-5" />}
+                      </button>
+                      <div className="min-w-0">
+                        <p className="font-medium text-zinc-200 truncate">{status.income.title}</p>
+                        <p className={cn("text-xs", status.isLate ? "text-red-400" : "text-zinc-500")}>
+                          {isReceived
+                            ? `Recebido${status.receipt?.receivedAt ? ` em ${format(parseISO(status.receipt.receivedAt), 'dd/MM')}` : ''}`
+                            : status.expectedDate
+                              ? `${status.isLate ? 'Atrasado • ' : ''}Previsto para ${format(parseISO(status.expectedDate), 'dd/MM')}`
+                              : 'Sem data prevista'}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="text-right">
+                        <span className={cn("font-bold", isReceived ? "text-emerald-500" : "text-zinc-300")}>
+                          {formatCurrency(isReceived ? status.received : status.expected)}
+                        </span>
+                        {isReceived && Math.abs(status.received - status.expected) >= 0.01 && (
+                          <p className="text-[10px] text-zinc-500">Previsto {formatCurrency(status.expected)}</p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => setReceivingIncomeId(status.income.id)}
+                        className="p-2 text-zinc-400 hover:text-white transition-colors sm:opacity-0 sm:group-hover:opacity-100"
+                        title="Informar valor e data recebidos"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </Card>
+        )}
       </div>
 
       {/* Credit Cards List */}
@@ -221,21 +400,50 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
                     <p className="text-[10px] text-zinc-500 mt-0.5">
                       {card.count} itens ({card.installmentCount} parcelados)
                     </p>
+                    {card.invoice.carried > 0 && (
+                      <p className="text-[10px] text-red-400 mt-0.5">
+                        Inclui {formatCurrency(card.invoice.carried)} do rotativo
+                      </p>
+                    )}
                   </div>
                   <div className="text-right">
                     <p className="font-bold text-zinc-100">{formatCurrency(card.total)}</p>
-                    <button 
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        toggleCardPaid(card.id, selectedMonth);
-                      }}
-                      className={cn(
-                        "text-[10px] uppercase font-bold tracking-wider px-2 py-0.5 rounded mt-1",
-                        card.isPaid ? "bg-emerald-500/20 text-emerald-500" : "bg-zinc-800 text-zinc-500 hover:text-zinc-300"
+                    {card.invoice.payment?.paidAmount !== undefined && (
+                      <p className="text-[10px] text-zinc-500">
+                        Pago {formatCurrency(card.invoice.paid)}
+                        {card.invoice.rolledOver > 0
+                          ? ` • ${formatCurrency(card.invoice.rolledOver)} p/ próxima`
+                          : card.invoice.remaining > 0 && ` • Resta ${formatCurrency(card.invoice.remaining)}`}
+                      </p>
+                    )}
+                    {card.invoice.payment?.accountId && (
+                      <p className="text-[10px] text-zinc-500">Pago com {paymentMethodName(card.invoice.payment.accountId, cards, accounts)}</p>
+                    )}
+                    <div className="flex flex-col items-end gap-1 mt-1">
+                      <button 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleCardPaid(card.id, selectedMonth);
+                        }}
+                        className={cn(
+                          "text-[10px] uppercase font-bold tracking-wider px-2 py-0.5 rounded",
+                          card.isPaid ? "bg-emerald-500/20 text-emerald-500" : "bg-zinc-800 text-zinc-500 hover:text-zinc-300"
+                        )}
+                      >
+                        {card.isPaid ? 'Fatura Paga' : 'Marcar como Paga'}
+                      </button>
+                      {!card.isPaid && (
+                        <button 
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setPayingCardId(card.id);
+                          }}
+                          className="text-[10px] uppercase font-bold tracking-wider px-2 py-0.5 rounded bg-zinc-800 text-zinc-500 hover:text-zinc-300"
+                        >
+                          Pagar
+                        </button>
                       )}
-                    >
-                      {card.isPaid ? 'Fatura Paga' : 'Marcar como Paga'}
-                    </button>
+                    </div>
                   </div>
                 </div>
               </Card>
@@ -244,46 +452,78 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
         )}
       </div>
 
-      {/* Cash Expenses */}
+      {/* Accounts */}
       <div className="space-y-4">
         <h3 className="text-lg font-semibold text-zinc-200 flex items-center gap-2">
-          <Wallet className="w-5 h-5 text-emerald-500" /> Pagamentos em Dinheiro / Débito
+          <Wallet className="w-5 h-5 text-emerald-500" /> Contas e Dinheiro
         </h3>
-        {cashExpenses.length === 0 ? (
-          <p className="text-zinc-500 text-sm">Nenhum gasto em dinheiro neste mês.</p>
+        {accountGroups.length === 0 ? (
+          <p className="text-zinc-500 text-sm">Nenhum gasto fora dos cartões neste mês.</p>
         ) : (
-          <Card>
-            <div className="space-y-3">
-              {cashExpenses.map(exp => (
-                <div key={exp.id} className="flex items-center justify-between group">
-                  <div className="flex items-center gap-3">
-                     <button 
-                      onClick={() => toggleExpensePaid(exp.id, selectedMonth)}
-                      className={cn("transition-colors", exp.isPaid ? "text-emerald-500" : "text-zinc-600 hover:text-zinc-400")}
-                    >
-                      {exp.isPaid ? <CheckCircle className="w-5 h-5" /> : <Circle className="w-5 h-5" />}
-                    </button>
-                    <div>
-                      <p className={cn("font-medium text-zinc-200", exp.isPaid && "line-through opacity-50")}>
-                        {exp.title}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {accountGroups.map(group => (
+              <Card key={group.id} className="border-l-4" style={{ borderLeftColor: group.color }}>
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <h4 className="font-bold text-zinc-100">{group.name}</h4>
+                    <p className="text-xs text-zinc-500">{group.label}</p>
+                  </div>
+                  <div className="text-right">
+                    {group.flow?.closingBalance != null && (
+                      <p className={cn("font-bold", group.flow.closingBalance >= 0 ? "text-zinc-100" : "text-red-500")}>
+                        {formatCurrency(group.flow.closingBalance)}
                       </p>
-                      {exp.installments && (
-                        <p className="text-xs text-yellow-500">
-                          Parcela {exp.installments.current} de {exp.installments.total}
-                        </p>
-                      )}
-                    </div>
+                    )}
+                    <p className="text-[10px] text-zinc-500">
+                      {group.flow?.closingBalance != null && 'Saldo no fim do mês • '}Saídas {formatCurrency(group.total)}
+                    </p>
                   </div>
-                  <span className={cn("font-bold text-zinc-300", exp.isPaid && "opacity-50")}>
-                    {formatCurrency(exp.currentMonthValue)}
-                  </span>
                 </div>
-              ))}
-            </div>
-          </Card>
+                {group.expenses.length === 0 ? (
+                  <p className="text-xs text-zinc-500">Nenhum gasto nesta conta neste mês.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {group.expenses.map(exp => (
+                      <div key={exp.id} className="flex items-center justify-between group">
+                        <div className="flex items-center gap-3">
+                           <button 
+                            onClick={() => toggleExpensePaid(exp.id, selectedMonth)}
+                            className={cn("transition-colors", exp.isPaid ? "text-emerald-500" : "text-zinc-600 hover:text-zinc-400")}
+                          >
+                            {exp.isPaid ? <CheckCircle className="w-5 h-5" /> : <Circle className="w-5 h-5" />}
+                          </button>
+                          <div>
+                            <p className={cn("font-medium text-zinc-200", exp.isPaid && "line-through opacity-50")}>
+                              {exp.title}
+                            </p>
+                            {exp.installments && (
+                              <p className="text-xs text-yellow-500">
+                                Parcela {exp.installments.current} de {exp.installments.total}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                        <span className={cn("font-bold text-zinc-300", exp.isPaid && "opacity-50")}>
+                          {formatCurrency(exp.currentMonthValue)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            ))}
+          </div>
         )}
       </div>
 
+      {payingCardId && (
+        <CardPaymentModal cardId={payingCardId} monthYear={selectedMonth} onClose={() => setPayingCardId(null)} />
+      )}
+
+      {receivingIncomeId && (
+        <IncomeReceiptModal incomeId={receivingIncomeId} monthYear={selectedMonth} onClose={() => setReceivingIncomeId(null)} />
+      )}
+
       {/* Card Details Modal */}
       <AnimatePresence>
         {selectedCardId && selectedCard && (
@@ -312,6 +552,15 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
               </div>
               
               <div className="p-6 max-h-[60vh] overflow-y-auto space-y-4">
+                {selectedInvoice && selectedInvoice.carried > 0 && (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-red-400">Saldo anterior + rotativo</p>
+                      <p className="text-xs text-zinc-500">Restante da fatura passada com juros de {(selectedCard.revolvingRate || 0).toLocaleString('pt-BR')}% a.m.</p>
+                    </div>
+                    <span className="font-bold text-red-400">{formatCurrency(selectedInvoice.carried)}</span>
+                  </div>
+                )}
                 {selectedCardExpenses.map(exp => (
                   <div key={exp.id} className="flex items-center justify-between group">
                     <div className="flex items-center gap-3">
@@ -346,7 +595,7 @@ export const Summary = ({ onEditExpense }: { onEditExpense?: (id: string) => voi
 
               <div className="p-6 bg-zinc-900/50 border-t border-zinc-800 flex items-center justify-between">
                 <span className="text-zinc-400 font-medium">Total da Fatura</span>
-                <span className="text-2xl font-bold text-yellow-500">{formatCurrency(selectedCardExpenses.reduce((acc, e) => acc + e.currentMonthValue, 0))}</span>
+                <span className="text-2xl font-bold text-yellow-500">{formatCurrency(selectedInvoice?.total || 0)}</span>
               </div>
             </motion.div>
           </div>
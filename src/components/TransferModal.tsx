@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format } from 'date-fns';
+import { Button, Input, Select } from './ui';
+import { useFinance } from '../hooks/useFinance';
+
+interface TransferModalProps {
+  fromAccountId?: string;
+  onClose: () => void;
+}
+
+export const TransferModal = ({ fromAccountId, onClose }: TransferModalProps) => {
+  const { accounts, addTransfer } = useFinance();
+  const [from, setFrom] = useState(fromAccountId || accounts[0]?.id || 'cash');
+  const [to, setTo] = useState(accounts.find(a => a.id !== (fromAccountId || accounts[0]?.id))?.id || 'cash');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [description, setDescription] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setError(null);
+    setSaving(true);
+    try {
+      await addTransfer({ fromAccountId: from, toAccountId: to, amount: parseFloat(amount) || 0, date, description: description || undefined });
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setSaving(false);
+  };
+
+  const accountOptions = (
+    <>
+      <option value="cash">Dinheiro</option>
+      {accounts.map(a => (
+        <option key={a.id} value={a.id}>{a.name}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-zinc-950 border border-zinc-800 rounded-2xl p-6 w-full max-w-md shadow-2xl overflow-y-auto max-h-[90vh]"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-zinc-100">Transferência</h3>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-500 text-xs">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <Select label="De" value={from} onChange={e => setFrom(e.target.value)}>
+              {accountOptions}
+            </Select>
+            <Select label="Para" value={to} onChange={e => setTo(e.target.value)}>
+              {accountOptions}
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Input label="Valor" type="number" min="0" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} autoFocus />
+            <Input label="Data" type="date" value={date} onChange={e => setDate(e.target.value)} />
+          </div>
+          <Input label="Descrição (opcional)" value={description} onChange={e => setDescription(e.target.value)} placeholder="Ex: Reserva, saque" />
+          <p className="text-xs text-zinc-500">Transferências mudam o saldo das contas, mas não entram como receita nem despesa.</p>
+
+          <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+            <Button variant="ghost" onClick={onClose} className="w-full sm:w-auto">Cancelar</Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !date || !(parseFloat(amount) > 0)}
+              className="w-full sm:w-auto bg-yellow-500 hover:bg-yellow-400 text-black font-bold"
+            >
+              {saving ? 'Salvando...' : 'Transferir'}
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -1,22 +1,34 @@
 import React, { useState, useRef } from 'react';
-import { Download, Upload, Trash2, ChevronUp, LogOut, LogIn, User as UserIcon, Cloud, RefreshCw, Loader2 } from 'lucide-react';
+import { Download, Upload, Trash2, ChevronUp, LogOut, LogIn, User as UserIcon, Cloud, CloudOff, RefreshCw, Loader2, AlertTriangle } from 'lucide-react';
 import { motion } from 'motion/react';
 import { cn } from '../utils';
-import { supabase } from '../lib/supabase';
-import { User } from '@supabase/supabase-js';
+import { repository, FinanceUser } from '../lib/repository';
 
 interface UserMenuProps {
-  user: User | null;
+  user: FinanceUser | null;
   syncing?: boolean;
   onSync?: () => void;
   onLogin: () => void;
+  isOnline?: boolean;
+  pendingCount?: number;
+  failedCount?: number; // writes the backend rejected, already rolled back
+  onClearFailed?: () => void;
+  onBackup?: () => void;
 }
 
-export const UserMenu = ({ user, syncing, onSync, onLogin }: UserMenuProps) => {
+export const UserMenu = ({ user, syncing, onSync, onLogin, isOnline = true, pendingCount = 0, failedCount = 0, onClearFailed, onBackup }: UserMenuProps) => {
   const [isOpen, setIsOpen] = useState(false);
 
+  const syncStatus = () => {
+    if (!user) return 'Modo Offline';
+    if (!isOnline) return ['Sem conexão', pendingCount > 0 && `${pendingCount} pendentes`, failedCount > 0 && `${failedCount} falhas`].filter(Boolean).join(' • ');
+    const pending = pendingCount > 0 ? `${pendingCount} ${pendingCount === 1 ? 'alteração pendente' : 'alterações pendentes'}` : '';
+    const failed = failedCount > 0 ? `${failedCount} ${failedCount === 1 ? 'falha' : 'falhas'}` : '';
+    return [pending, failed].filter(Boolean).join(' • ') || 'Sincronizado';
+  };
+
   const handleLogout = async () => {
-    await supabase.auth.signOut();
+    await repository.auth.signOut();
     window.location.reload();
   };
 
@@ -31,7 +43,7 @@ export const UserMenu = ({ user, syncing, onSync, onLogin }: UserMenuProps) => {
           {user ? (
             <>
               <div className="px-4 py-2 text-[10px] uppercase tracking-wider text-zinc-500 font-bold bg-zinc-950/50">
-                Conta Cloud
+                {repository.backend === 'rest' ? 'Servidor Local' : 'Conta Cloud'}
               </div>
               <button 
                 onClick={() => {
@@ -44,6 +56,28 @@ export const UserMenu = ({ user, syncing, onSync, onLogin }: UserMenuProps) => {
                 <RefreshCw className={cn("w-4 h-4 text-emerald-500", syncing && "animate-spin")} />
                 {syncing ? 'Sincronizando...' : 'Sincronizar com a Nuvem'}
               </button>
+              {failedCount > 0 && (
+                <button 
+                  onClick={() => {
+                    onClearFailed?.();
+                    setIsOpen(false);
+                  }}
+                  className="w-full flex items-center gap-3 px-4 py-3 text-sm text-zinc-300 hover:bg-zinc-800 transition-colors border-b border-zinc-800"
+                >
+                  <AlertTriangle className="w-4 h-4 text-red-500" />
+                  {failedCount} {failedCount === 1 ? 'alteração recusada e desfeita' : 'alterações recusadas e desfeitas'} • Limpar aviso
+                </button>
+              )}
+              <button 
+                onClick={() => {
+                  onBackup?.();
+                  setIsOpen(false);
+                }}
+                className="w-full flex items-center gap-3 px-4 py-3 text-sm text-zinc-300 hover:bg-zinc-800 transition-colors border-b border-zinc-800"
+              >
+                <Download className="w-4 h-4 text-yellow-500" />
+                Backup dos Dados
+              </button>
               <button 
                 onClick={handleLogout}
                 className="w-full flex items-center gap-3 px-4 py-3 text-sm text-zinc-300 hover:bg-zinc-800 transition-colors"
@@ -86,8 +120,10 @@ export const UserMenu = ({ user, syncing, onSync, onLogin }: UserMenuProps) => {
             <p className="text-sm font-medium text-zinc-200 truncate">
               {user?.email || 'Usuário Local'}
             </p>
-            <p className="text-xs text-zinc-500">
-              {user ? 'Sincronizado' : 'Modo Offline'}
+            <p className={cn("text-xs flex items-center gap-1", user && failedCount > 0 ? "text-red-500" : pendingCount > 0 || !isOnline ? "text-yellow-500" : "text-zinc-500")}>
+              {user && !isOnline && <CloudOff className="w-3 h-3 shrink-0" />}
+              {user && isOnline && pendingCount > 0 && <Loader2 className="w-3 h-3 shrink-0 animate-spin" />}
+              <span className="truncate">{syncStatus()}</span>
             </p>
           </div>
         </div>
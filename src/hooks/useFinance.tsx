@@ -1,70 +1,202 @@
-import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react';
-import { Income, Expense, Category, CreditCard, CardPaymentStatus, ExpensePayment } from '../types';
+import { useState, useEffect, useCallback, useRef, createContext, useContext, ReactNode } from 'react';
+import { Income, Expense, Category, CreditCard, Account, Transfer, CardPaymentStatus, ExpensePayment, IncomeReceipt, UserSettings, InstallmentScope, PayrollInput, ValueHistoryItem } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-import { supabase } from '../lib/supabase';
-import { User } from '@supabase/supabase-js';
+import { repository, FinanceUser, RepositoryChange } from '../lib/repository';
 import { motion, AnimatePresence } from 'motion/react';
 import { addMonths, format, parseISO } from 'date-fns';
+import { getBillingMonth } from '../lib/billing';
+import { TABLES, TableName, RecordKey, recordKey } from '../lib/mappers';
+import { LocalStore, NewOutboxEntry, OutboxEntry, RecordSnapshot, entryKeys, openLocalStore, restoreEntries } from '../lib/localStore';
+import { pullAll, pushEntry } from '../lib/cloudSync';
+import { BackupData, RESTORE_ORDER, remapBackup } from '../lib/backup';
+import { MonthCashFlow, computeCashFlow } from '../lib/cashFlow';
+import { endMonthBefore, isExpenseDueInMonth } from '../lib/recurrence';
+import { getInstallmentSeries, getRemainingInstallments } from '../lib/installments';
+import { CardLimitUsage, getCardLimitUsage } from '../lib/creditLimit';
+import { CardInvoice, computeCardInvoice, getRolloverAdjustment } from '../lib/cardInvoice';
+import { computeAccountFlow, getAccountOutflow, paymentMethodName } from '../lib/accounts';
+import { findIncomeReceipt, getReceivedIncomeValue } from '../lib/incomeReceipts';
+import { buildSalaryExtras, computePayroll, isSalaryIncome } from '../lib/payroll';
+import { ScenarioChange, applyScenario } from '../lib/scenario';
 
 interface FinanceContextType {
-  user: User | null;
+  user: FinanceUser | null;
   loading: boolean;
   isSaving: boolean;
   saveSuccess: boolean;
+  isOnline: boolean;
+  pendingWrites: number;
+  failedWrites: number; // alterações recusadas e desfeitas desde o último aviso
+  clearFailedWrites: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
   expenses: Expense[];
   incomes: Income[];
   expenseCategories: Category[];
   incomeCategories: Category[];
   cards: CreditCard[];
+  accounts: Account[];
+  transfers: Transfer[];
   cardPayments: CardPaymentStatus[];
   expensePayments: ExpensePayment[];
+  incomeReceipts: IncomeReceipt[];
+  settings: UserSettings | null;
   lastUsedPaymentMethod: string;
   setLastUsedPaymentMethod: (method: string) => void;
   loadData: () => Promise<void>;
   addExpense: (expense: Omit<Expense, 'id'>) => Promise<void>;
-  addInstallmentExpense: (baseExpense: Omit<Expense, 'id' | 'installments' | 'billingMonth' | 'type'>, startBillingMonth: string, totalInstallments: number) => Promise<void>;
-  updateExpense: (id: string, updates: Partial<Expense>) => Promise<void>;
+  addInstallmentExpense: (baseExpense: Omit<Expense, 'id' | 'installments' | 'billingMonth' | 'type'>, startBillingMonth: string | undefined, totalInstallments: number, firstInstallment?: number) => Promise<void>;
+  updateExpense: (id: string, updates: Partial<Expense>, scope?: InstallmentScope) => Promise<void>;
   deleteExpense: (id: string) => Promise<void>;
+  anticipateInstallments: (originalId: string, billingMonth: string, discount: number) => Promise<void>;
+  cancelRemainingInstallments: (originalId: string, fromMonth: string) => Promise<void>;
+  deleteInstallmentSeries: (originalId: string) => Promise<void>;
+  addRefund: (refund: RefundInput) => Promise<void>;
+  refundInstallments: (originalId: string, fromMonth: string, mode: 'cancel' | 'credit') => Promise<void>;
   toggleExpensePaid: (id: string, monthYear?: string) => Promise<void>;
   updateFixedExpenseValue: (id: string, monthYear: string, newValue: number, newPaymentMethod?: string, isException?: boolean) => Promise<void>;
   deleteFixedExpenseHistoryItem: (id: string, monthYear: string, type?: 'exception' | 'permanent') => Promise<void>;
   togglePauseFixedExpense: (id: string, monthYear: string) => Promise<void>;
+  endFixedExpense: (id: string, fromMonth: string | null) => Promise<void>;
   addIncome: (income: Omit<Income, 'id'>) => Promise<void>;
   updateIncome: (id: string, updates: Partial<Income>) => Promise<void>;
   deleteIncome: (id: string) => Promise<void>;
   updateFixedIncomeValue: (id: string, monthYear: string, newValue: number, paymentMethod?: string) => Promise<void>;
+  endFixedIncome: (id: string, fromMonth: string | null) => Promise<void>;
+  toggleIncomeReceived: (id: string, monthYear: string) => Promise<void>;
+  recordIncomeReceipt: (id: string, monthYear: string, receipt: { receivedValue: number; receivedAt: string }) => Promise<void>;
+  addSalaryIncome: (income: Omit<Income, 'id' | 'type' | 'valueHistory'>, effectiveMonth: string, payroll: PayrollInput, vacationMonth?: string) => Promise<void>;
+  updateSalaryValue: (id: string, monthYear: string, payroll: PayrollInput, paymentMethod?: string) => Promise<void>;
+  generateSalaryExtras: (id: string, year: number, vacationMonth?: string) => Promise<void>;
   addCard: (card: Omit<CreditCard, 'id'>) => Promise<void>;
   updateCard: (id: string, updates: Partial<CreditCard>) => Promise<void>;
   deleteCard: (id: string) => Promise<void>;
-  toggleCardPaid: (cardId: string, monthYear: string) => Promise<void>;
+  toggleCardPaid: (cardId: string, monthYear: string, accountId?: string) => Promise<void>;
+  payCardInvoice: (cardId: string, monthYear: string, payment: { paidAmount: number; paidAt: string; rollover: boolean; accountId?: string }) => Promise<void>;
+  addAccount: (account: Omit<Account, 'id'>) => Promise<void>;
+  updateAccount: (id: string, updates: Partial<Account>) => Promise<void>;
+  deleteAccount: (id: string) => Promise<void>;
+  addTransfer: (transfer: Omit<Transfer, 'id'>) => Promise<void>;
+  deleteTransfer: (id: string) => Promise<void>;
   addCategory: (category: Omit<Category, 'id'>) => Promise<void>;
   updateCategory: (id: string, updates: Partial<Category>) => Promise<void>;
   deleteCategory: (id: string) => Promise<void>;
+  updateCategoryBudget: (id: string, monthYear: string, newValue: number, isException?: boolean) => Promise<void>;
+  deleteCategoryBudgetItem: (id: string, monthYear: string, type?: 'exception' | 'permanent') => Promise<void>;
+  updateSettings: (updates: Partial<Omit<UserSettings, 'id'>>) => Promise<void>;
+  importBackup: (data: BackupData, mode: 'merge' | 'replace') => Promise<void>;
   getIncomeValueForMonth: (income: Income, monthYear: string) => number;
   getExpenseValueForMonth: (expense: Expense, monthYear: string) => { value: number; paymentMethod: string };
+  getCashFlow: (fromMonth: string, toMonth: string) => MonthCashFlow[];
+  simulateCashFlow: (changes: ScenarioChange[], fromMonth: string, toMonth: string) => MonthCashFlow[];
+  getCardLimit: (cardId: string) => CardLimitUsage | null;
+  getCardInvoice: (cardId: string, monthYear: string) => CardInvoice | null;
+  getAccountFlow: (accountId: string, monthYear: string) => MonthCashFlow | null;
+}
+
+// Estorno ou crédito avulso; refundOf liga à despesa estornada
+export interface RefundInput {
+  title: string;
+  categoryId: string;
+  paymentMethod: string;
+  amount: number;
+  purchaseDate: string;
+  billingMonth: string;
+  refundOf?: string;
 }
 
 const FinanceContext = createContext<FinanceContextType | undefined>(undefined);
 
+// Only fields explicitly set in an update are written
+const definedFields = <T extends object>(updates: T): Partial<T> =>
+  Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+const keyString = (key: RecordKey) => (Array.isArray(key) ? key.join('|') : key);
+
+const touchesAny = (entry: OutboxEntry, table: TableName, keys: string[]) =>
+  entry.table === table && entryKeys(entry).some(key => keys.includes(keyString(key)));
+
+// Substitui (ou acrescenta) um registro numa lista do estado
+const upsertIn = <T,>(table: TableName, list: T[], record: T) => {
+  const key = keyString(recordKey(table, record));
+  const index = list.findIndex(item => keyString(recordKey(table, item)) === key);
+  if (index < 0) return [...list, record];
+  const next = [...list];
+  next[index] = record;
+  return next;
+};
+
+const removeFrom = <T,>(table: TableName, list: T[], key: RecordKey) =>
+  list.filter(item => keyString(recordKey(table, item)) !== keyString(key));
+
+// Uma alteração de valor por mês: a nova substitui a que já existia no mesmo mês
+const withIncomeHistoryItem = (history: ValueHistoryItem[] = [], item: ValueHistoryItem) =>
+  [...history.filter(h => h.monthYear !== item.monthYear), item].sort((a, b) => a.monthYear.localeCompare(b.monthYear));
+
+const titleOf = (list: { id: string; title: string }[], id: string) => list.find(item => item.id === id)?.title || id;
+const nameOf = (list: { id: string; name: string }[], id: string) => list.find(item => item.id === id)?.name || id;
+
+// Uma ação do usuário, com os registros antes e depois dela
+interface HistoryStep {
+  label: string;
+  changes: { table: TableName; before: RecordSnapshot[]; after: RecordSnapshot[] }[];
+}
+
+const HISTORY_LIMIT = 50;
+
+
+type Toast = { message: string; action?: 'undo' | 'redo' };
+
 export const FinanceProvider = ({ children }: { children: ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<FinanceUser | null>(null);
   const [loading, setLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [toast, setToast] = useState<Toast | null>(null);
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 });
   const [syncError, setSyncError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingWrites, setPendingWrites] = useState(0);
+  const [failedWrites, setFailedWrites] = useState(0);
 
   const [incomes, setIncomes] = useState<Income[]>([]);
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
   const [expenseCategories, setExpenseCategories] = useState<Category[]>([]);
   const [cards, setCards] = useState<CreditCard[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
   const [cardPayments, setCardPayments] = useState<CardPaymentStatus[]>([]);
   const [expensePayments, setExpensePayments] = useState<ExpensePayment[]>([]);
+  const [incomeReceipts, setIncomeReceipts] = useState<IncomeReceipt[]>([]);
+  const [settingsRecords, setSettingsRecords] = useState<UserSettings[]>([]);
   const [lastUsedPaymentMethod, setLastUsedPaymentMethod] = useState('cash');
 
-  const showSuccess = () => {
+  const storeRef = useRef<LocalStore | null>(null);
+  const flushingRef = useRef(false);
+  const undoStackRef = useRef<HistoryStep[]>([]);
+  const redoStackRef = useRef<HistoryStep[]>([]);
+  const toastTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const userId = user?.id;
+
+  const showSuccess = (next?: Toast) => {
     setSaveSuccess(true);
-    setTimeout(() => setSaveSuccess(false), 3000);
+    setToast(next || null);
+    clearTimeout(toastTimerRef.current);
+    toastTimerRef.current = setTimeout(() => {
+      setSaveSuccess(false);
+      setToast(null);
+    }, 5000);
+  };
+
+  const syncHistorySize = () => setHistorySize({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+
+  const clearHistory = () => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    syncHistorySize();
   };
 
   const showError = (msg: string) => {
@@ -72,121 +204,132 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
     setTimeout(() => setSyncError(null), 5000);
   };
 
-  // Auth Listener & Realtime Subscription
+  // Auth Listener
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
+    repository.auth.getUser().then(currentUser => {
+      setUser(currentUser);
+      setLoading(false);
+    }).catch(err => {
+      console.error('Erro ao restaurar sessão:', err);
       setLoading(false);
     });
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setUser(session?.user ?? null);
-    });
+    return repository.auth.onChange(setUser);
+  }, []);
 
-    // Realtime Subscription
-    const channel = supabase
-      .channel('db_changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'expenses' }, () => loadData())
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'incomes' }, () => loadData())
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'cards' }, () => loadData())
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'categories' }, () => loadData())
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'card_payments' }, () => loadData())
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'expense_payments' }, () => loadData())
-      .subscribe();
+  // --- ESTADO A PARTIR DO BANCO LOCAL ---
+  const refreshState = useCallback(async () => {
+    const store = storeRef.current;
+    if (!store) return;
+    const [localCards, localAccounts, localTransfers, localCats, localIncs, localExps, localPays, localExpPays, localReceipts, localSettings, outbox] = await Promise.all([
+      store.getAll<CreditCard>('cards'),
+      store.getAll<Account>('accounts'),
+      store.getAll<Transfer>('transfers'),
+      store.getAll<Category>('categories'),
+      store.getAll<Income>('incomes'),
+      store.getAll<Expense>('expenses'),
+      store.getAll<CardPaymentStatus>('card_payments'),
+      store.getAll<ExpensePayment>('expense_payments'),
+      store.getAll<IncomeReceipt>('income_receipts'),
+      store.getAll<UserSettings>('settings'),
+      store.listOutbox()
+    ]);
 
-    return () => {
-      subscription.unsubscribe();
-      supabase.removeChannel(channel);
-    };
+    setCards(localCards);
+    setAccounts(localAccounts);
+    setTransfers(localTransfers);
+    setIncomeCategories(localCats.filter(c => c.type === 'income'));
+    setExpenseCategories(localCats.filter(c => c.type === 'expense'));
+    setIncomes(localIncs);
+    setExpenses(localExps);
+    setCardPayments(localPays);
+    setExpensePayments(localExpPays);
+    setIncomeReceipts(localReceipts);
+    setSettingsRecords(localSettings);
+    setPendingWrites(outbox.length);
   }, []);
 
-  // --- BUSCA DE DADOS (Snake to Camel) ---
-  const loadData = useCallback(async () => {
-    if (!user) return;
-    // setLoading(true); // Removido para evitar flicker no realtime
+  // Aplica no estado só os registros alterados, sem reler o banco local
+  const patchState = useCallback((table: TableName, snapshots: RecordSnapshot[]) => {
+    snapshots.forEach(({ key, record }) => {
+      const apply = <T,>(list: T[]) => record ? upsertIn(table, list, record) : removeFrom(table, list, key);
+      if (table === 'expenses') setExpenses(apply);
+      else if (table === 'incomes') setIncomes(apply);
+      else if (table === 'cards') setCards(apply);
+      else if (table === 'accounts') setAccounts(apply);
+      else if (table === 'transfers') setTransfers(apply);
+      else if (table === 'card_payments') setCardPayments(apply);
+      else if (table === 'expense_payments') setExpensePayments(apply);
+      else if (table === 'income_receipts') setIncomeReceipts(apply);
+      else if (table === 'settings') setSettingsRecords(apply);
+      else {
+        // A categoria pode ter trocado de tipo
+        setIncomeCategories(list => record?.type === 'income' ? upsertIn(table, list, record) : removeFrom(table, list, key));
+        setExpenseCategories(list => record?.type === 'expense' ? upsertIn(table, list, record) : removeFrom(table, list, key));
+      }
+    });
+  }, []);
+
+  // --- ENVIO DA FILA (OUTBOX) PARA A NUVEM ---
+  const flushOutbox = useCallback(async () => {
+    const store = storeRef.current;
+    if (!store || !userId || flushingRef.current || !navigator.onLine) return;
+    flushingRef.current = true;
+    setIsSaving(true);
+    const rolledBack = new Set<number>();
     try {
-      const [dbCards, dbCats, dbIncs, dbExps, dbPays, dbExpPays] = await Promise.all([
-        supabase.from('cards').select('*').eq('user_id', user.id),
-        supabase.from('categories').select('*').eq('user_id', user.id),
-        supabase.from('incomes').select('*').eq('user_id', user.id),
-        supabase.from('expenses').select('*').eq('user_id', user.id),
-        supabase.from('card_payments').select('*').eq('user_id', user.id),
-        supabase.from('expense_payments').select('*').eq('user_id', user.id)
-      ]);
-
-      if (dbCards.error) throw dbCards.error;
-      if (dbCats.error) throw dbCats.error;
-      if (dbIncs.error) throw dbIncs.error;
-      if (dbExps.error) throw dbExps.error;
-      if (dbPays.error) throw dbPays.error;
-      if (dbExpPays.error) throw dbExpPays.error;
-
-      if (dbCards.data) setCards(dbCards.data.map(c => ({
-        id: c.id,
-        name: c.name,
-        closingDay: c.closing_day,
-        dueDay: c.due_day,
-        color: c.color
-      })));
-
-      if (dbCats.data) {
-        setIncomeCategories(dbCats.data.filter(c => c.type === 'income').map(c => ({
-          id: c.id,
-          name: c.name,
-          color: c.color,
-          type: c.type
-        })));
-        setExpenseCategories(dbCats.data.filter(c => c.type === 'expense').map(c => ({
-          id: c.id,
-          name: c.name,
-          color: c.color,
-          type: c.type
-        })));
+      // Alterações feitas durante o envio entram na mesma rodada
+      let entries = await store.listOutbox();
+      let offline = false;
+      while (entries.length && !offline) {
+        for (const entry of entries) {
+          if (rolledBack.has(entry.seq!)) continue;
+          const result = await pushEntry(entry, userId);
+          if (result.ok) {
+            await store.removeFromOutbox(entry.seq!);
+          } else if (result.offline) {
+            // Sem conexão: o restante da fila espera a próxima tentativa
+            offline = true;
+            break;
+          } else {
+            // Recusada: desfaz a alteração e as posteriores sobre os mesmos registros
+            console.error('Erro ao sincronizar alteração:', result.error);
+            const keys = entryKeys(entry).map(keyString);
+            const dependents = entries.filter(e => e.seq! > entry.seq! && !rolledBack.has(e.seq!) && touchesAny(e, entry.table, keys));
+            await store.rollback([entry, ...dependents]);
+            [entry, ...dependents].forEach(e => rolledBack.add(e.seq!));
+            setFailedWrites(count => count + 1 + dependents.length);
+            // Os passos guardados deixaram de corresponder aos dados
+            clearHistory();
+            showError(`Não foi possível salvar: ${entry.label || 'alteração'} (${result.error}). A alteração foi desfeita.`);
+          }
+        }
+        entries = await store.listOutbox();
       }
+    } finally {
+      flushingRef.current = false;
+      setIsSaving(false);
+      if (rolledBack.size) await refreshState();
+      else setPendingWrites((await store.listOutbox()).length);
+    }
+  }, [userId, refreshState]);
 
-      if (dbIncs.data) setIncomes(dbIncs.data.map(i => ({
-        id: i.id,
-        title: i.title,
-        categoryId: i.category_id,
-        paymentMethod: i.payment_method,
-        type: i.type,
-        amount: i.amount,
-        startMonth: i.start_month,
-        durationMonths: i.duration_months,
-        valueHistory: i.value_history
-      })));
-
-      if (dbExps.data) setExpenses(dbExps.data.map(e => ({
-        id: e.id,
-        title: e.title,
-        categoryId: e.category_id,
-        type: e.type,
-        purchaseDate: e.purchase_date,
-        billingMonth: e.billing_month,
-        isInstallment: e.is_installment,
-        totalValue: Number(e.total_value),
-        installmentValue: Number(e.installment_value),
-        paymentMethod: e.payment_method,
-        isPaid: e.is_paid,
-        originalId: e.original_id,
-        valueHistory: e.value_history,
-        createdAt: e.created_at,
-        installments: e.installments_current ? { current: e.installments_current, total: e.installments_total } : undefined
-      })));
-
-      if (dbPays.data) setCardPayments(dbPays.data.map(p => ({
-        cardId: p.card_id,
-        monthYear: p.month_year,
-        isPaid: p.is_paid
-      })));
-
-      if (dbExpPays.data) setExpensePayments(dbExpPays.data.map(p => ({
-        id: p.id,
-        expenseId: p.expense_id,
-        monthYear: p.month_year,
-        isPaid: p.is_paid,
-        paidValue: p.paid_value
-      })));
-      
+  // --- BUSCA DE DADOS (nuvem -> banco local -> estado) ---
+  const loadData = useCallback(async () => {
+    const store = storeRef.current;
+    if (!userId || !store) return;
+    try {
+      await refreshState();
+      if (!navigator.onLine) return;
+
+      await flushOutbox();
+      const remote = await pullAll(userId);
+      // Tabelas que a nuvem não devolveu mantêm a cópia local
+      for (const table of TABLES) {
+        if (remote[table]) await store.replaceAll(table, remote[table]);
+      }
+      // Alterações ainda não aceitas pela nuvem continuam valendo localmente
+      await store.reapply(await store.listOutbox());
+      await refreshState();
       setSyncError(null);
     } catch (err: any) {
       console.error('Erro ao carregar dados:', err);
@@ -194,138 +337,333 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [userId, refreshState, flushOutbox]);
+
+  // Abre o banco local do usuário logado
+  useEffect(() => {
+    if (!userId) return;
+    clearHistory();
+    let cancelled = false;
+    openLocalStore(userId).then(store => {
+      if (cancelled) {
+        store.close();
+        return;
+      }
+      storeRef.current = store;
+      loadData();
+    }).catch(err => {
+      console.error('Erro ao abrir banco local:', err);
+      showError('Não foi possível abrir os dados salvos no dispositivo.');
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+      storeRef.current?.close();
+      storeRef.current = null;
+    };
+  }, [userId, loadData]);
 
-  useEffect(() => { if (user) loadData(); }, [user, loadData]);
+  // --- TEMPO REAL: aplica só o registro alterado ---
+  const applyRemoteChange = useCallback(async (change: RepositoryChange) => {
+    const store = storeRef.current;
+    const { table } = change;
+    const source = change.type === 'DELETE' ? change.old : change.new;
+    if (!store || !source) return;
+    const key = recordKey(table, source);
+    if (key === undefined || (Array.isArray(key) && key.some(part => part === undefined))) return;
 
-  // --- GRAVAÇÃO DE DADOS (Camel to Snake) ---
-  const addExpense = async (expense: Omit<Expense, 'id'>) => {
-    if (!user) return;
-    setIsSaving(true);
     try {
-      const { error } = await supabase.from('expenses').insert({
-        id: uuidv4(),
-        user_id: user.id,
-        title: expense.title,
-        total_value: expense.totalValue,
-        installment_value: expense.installmentValue,
-        purchase_date: expense.purchaseDate,
-        billing_month: expense.billingMonth,
-        is_paid: expense.isPaid,
-        is_installment: expense.isInstallment,
-        category_id: expense.categoryId,
-        payment_method: expense.paymentMethod,
-        type: expense.type,
-        value_history: expense.valueHistory || [],
-        installments_current: expense.installments?.current,
-        installments_total: expense.installments?.total
-      });
-      
-      if (error) {
-        console.error('Erro ao adicionar despesa:', error);
-        showError('Falha ao salvar despesa: ' + error.message);
-        throw error;
+      // Uma alteração local ainda na fila prevalece sobre o eco da nuvem
+      const outbox = await store.listOutbox();
+      if (outbox.some(entry => touchesAny(entry, table, [keyString(key)]))) return;
+
+      if (change.type === 'DELETE') {
+        await store.remove(table, key);
+        patchState(table, [{ key }]);
+      } else {
+        patchState(table, [{ key, record: await store.put(table, change.new!) }]);
       }
-      
-      await loadData(); 
-      showSuccess();
     } catch (err) {
-      // Já tratado acima
-    } finally {
-      setIsSaving(false);
+      console.error('Erro ao aplicar alteração em tempo real:', err);
+    }
+  }, [patchState]);
+
+  // Realtime Subscription
+  useEffect(() => {
+    if (!userId) return;
+    return repository.subscribe(userId, applyRemoteChange);
+  }, [userId, applyRemoteChange]);
+
+  // Reenvia a fila assim que a conexão volta
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      loadData();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [loadData]);
+
+  // --- GRAVAÇÃO DE DADOS (local primeiro, nuvem em segundo plano) ---
+  // Desfazer/refazer passam recordHistory = false e cuidam das pilhas eles mesmos
+  const commit = async (label: string, entries: Omit<NewOutboxEntry, 'label'>[], recordHistory = true) => {
+    const store = storeRef.current;
+    if (!user || !store) return false;
+    try {
+      const changes: HistoryStep['changes'] = [];
+      for (const entry of entries) {
+        const { before, after } = await store.commit({ ...entry, label });
+        patchState(entry.table, after);
+        changes.push({ table: entry.table, before, after });
+      }
+      setPendingWrites(count => count + entries.length);
+      if (recordHistory) {
+        undoStackRef.current = [...undoStackRef.current, { label, changes }].slice(-HISTORY_LIMIT);
+        redoStackRef.current = [];
+        syncHistorySize();
+        showSuccess({ message: label, action: 'undo' });
+      }
+      flushOutbox();
+      return true;
+    } catch (err: any) {
+      console.error('Erro ao salvar localmente:', err);
+      showError('Falha ao salvar no dispositivo: ' + err.message);
+      return false;
     }
   };
 
+  const undo = async () => {
+    const step = undoStackRef.current.pop();
+    if (!step) return;
+    const entries = [...step.changes].reverse().flatMap(c => restoreEntries(c.table, c.before, c.after));
+    if (await commit(`Desfazer: ${step.label}`, entries, false)) {
+      redoStackRef.current.push(step);
+      showSuccess({ message: `Desfeito: ${step.label}`, action: 'redo' });
+    } else {
+      undoStackRef.current.push(step);
+    }
+    syncHistorySize();
+  };
+
+  const redo = async () => {
+    const step = redoStackRef.current.pop();
+    if (!step) return;
+    const entries = step.changes.flatMap(c => restoreEntries(c.table, c.after, c.before));
+    if (await commit(`Refazer: ${step.label}`, entries, false)) {
+      undoStackRef.current.push(step);
+      showSuccess({ message: step.label, action: 'undo' });
+    } else {
+      redoStackRef.current.push(step);
+    }
+    syncHistorySize();
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd no Mac); campos de texto mantêm o desfazer nativo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const addExpense = async (expense: Omit<Expense, 'id'>) => {
+    await commit(`Nova despesa "${expense.title}"`, [{
+      table: 'expenses',
+      op: 'insert',
+      records: [{
+        ...expense,
+        id: uuidv4(),
+        valueHistory: expense.valueHistory || [],
+        createdAt: new Date().toISOString()
+      }]
+    }]);
+  };
+
   const addInstallmentExpense = async (
     baseExpense: Omit<Expense, 'id' | 'installments' | 'billingMonth' | 'type'>,
-    startBillingMonth: string,
-    totalInstallments: number
+    startBillingMonth: string | undefined,
+    totalInstallments: number,
+    firstInstallment = 1
   ) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const newExpenses = [];
-      const originalId = uuidv4();
-      const startDate = parseISO(`${startBillingMonth}-01`);
-
-      for (let i = 0; i < totalInstallments; i++) {
-        const billingDate = addMonths(startDate, i);
-        const billingMonth = format(billingDate, 'yyyy-MM');
-        
-        newExpenses.push({
-          id: uuidv4(),
-          user_id: user.id,
-          title: baseExpense.title,
-          category_id: baseExpense.categoryId,
-          payment_method: baseExpense.paymentMethod,
-          type: 'installment',
-          total_value: baseExpense.totalValue,
-          installment_value: baseExpense.installmentValue,
-          purchase_date: baseExpense.purchaseDate,
-          billing_month: billingMonth,
-          is_paid: false,
-          is_installment: true,
-          original_id: originalId,
-          installments_current: i + 1,
-          installments_total: totalInstallments,
-          value_history: []
-        });
-      }
+    const newExpenses: Expense[] = [];
+    const originalId = uuidv4();
+    const createdAt = new Date().toISOString();
+    // Sem mês informado, a primeira parcela cai na fatura definida pelo fechamento do cartão
+    const firstBillingMonth = startBillingMonth || getBillingMonth(baseExpense.purchaseDate, baseExpense.paymentMethod, cards);
+    const startDate = parseISO(`${firstBillingMonth}-01`);
 
-      const { error } = await supabase.from('expenses').insert(newExpenses);
-      
-      if (error) {
-        console.error('Erro ao adicionar parcelas:', error);
-        showError('Falha ao salvar parcelas: ' + error.message);
-        throw error;
-      }
+    // Séries já em andamento (ex.: importadas da fatura) começam na parcela atual, no mês informado
+    for (let i = firstInstallment - 1; i < totalInstallments; i++) {
+      const billingDate = addMonths(startDate, i - (firstInstallment - 1));
+      const billingMonth = format(billingDate, 'yyyy-MM');
 
-      await loadData(); 
-      showSuccess();
-    } catch (err) {
-      // Já tratado
-    } finally {
-      setIsSaving(false);
+      newExpenses.push({
+        id: uuidv4(),
+        title: baseExpense.title,
+        categoryId: baseExpense.categoryId,
+        paymentMethod: baseExpense.paymentMethod,
+        type: 'installment',
+        totalValue: baseExpense.totalValue,
+        installmentValue: baseExpense.installmentValue,
+        cashPrice: baseExpense.cashPrice,
+        purchaseDate: baseExpense.purchaseDate,
+        billingMonth,
+        isPaid: false,
+        isInstallment: true,
+        originalId,
+        installments: { current: i + 1, total: totalInstallments },
+        valueHistory: [],
+        createdAt
+      });
     }
-  };
 
-  const updateExpense = async (id: string, updates: Partial<Expense>) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const mapped: any = {};
-      if (updates.title !== undefined) mapped.title = updates.title;
-      if (updates.categoryId !== undefined) mapped.category_id = updates.categoryId;
-      if (updates.type !== undefined) mapped.type = updates.type;
-      if (updates.purchaseDate !== undefined) mapped.purchase_date = updates.purchaseDate;
-      if (updates.billingMonth !== undefined) mapped.billing_month = updates.billingMonth;
-      if (updates.isInstallment !== undefined) mapped.is_installment = updates.isInstallment;
-      if (updates.totalValue !== undefined) mapped.total_value = updates.totalValue;
-      if (updates.installmentValue !== undefined) mapped.installment_value = updates.installmentValue;
-      if (updates.paymentMethod !== undefined) mapped.payment_method = updates.paymentMethod;
-      if (updates.isPaid !== undefined) mapped.is_paid = updates.isPaid;
-      if (updates.valueHistory !== undefined) mapped.value_history = updates.valueHistory;
-      if (updates.installments !== undefined) {
-        mapped.installments_current = updates.installments.current;
-        mapped.installments_total = updates.installments.total;
-      }
+    await commit(`Compra parcelada "${baseExpense.title}" (${totalInstallments}x)`, [{ table: 'expenses', op: 'insert', records: newExpenses }]);
+  };
 
-      const { error } = await supabase.from('expenses').update(mapped).eq('id', id);
-      if (!error) { await loadData(); showSuccess(); }
-    } finally {
-      setIsSaving(false);
+  const updateExpense = async (id: string, updates: Partial<Expense>, scope: InstallmentScope = 'only') => {
+    const expense = expenses.find(e => e.id === id);
+    if (scope === 'only' || expense?.type !== 'installment' || !expense.originalId) {
+      await commit(`Edição da despesa "${titleOf(expenses, id)}"`, [{ table: 'expenses', op: 'update', key: id, changes: definedFields(updates) }]);
+      return;
     }
+
+    // Posição, fatura e pagamento são de cada parcela; o resto vale para a série
+    const { installments, billingMonth, isPaid, originalId, type, ...shared } = definedFields(updates);
+    const current = expense.installments?.current || 1;
+    const targets = getInstallmentSeries(expenses, expense.originalId)
+      .filter(e => scope === 'all' || e.id === id || (e.installments?.current || 0) >= current);
+    await commit(
+      `Edição de ${targets.length} parcelas de "${expense.title}"`,
+      targets.map(e => ({
+        table: 'expenses' as const,
+        op: 'update' as const,
+        key: e.id,
+        // A parcela editada também leva a fatura e o pagamento escolhidos
+        changes: e.id === id ? definedFields({ ...shared, billingMonth, isPaid }) : shared
+      }))
+    );
   };
 
   const deleteExpense = async (id: string) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const { error } = await supabase.from('expenses').delete().eq('id', id);
-      if (!error) { await loadData(); showSuccess(); }
-    } finally {
-      setIsSaving(false);
-    }
+    await commit(`Exclusão da despesa "${titleOf(expenses, id)}"`, [{ table: 'expenses', op: 'delete', key: id }]);
+  };
+
+  // Remove parcelas junto com as marcações de pagamento delas
+  const parcelDeletions = (parcels: Expense[]): Omit<NewOutboxEntry, 'label'>[] => [
+    ...parcels.map(e => ({ table: 'expenses' as const, op: 'delete' as const, key: e.id })),
+    ...expensePayments
+      .filter(p => parcels.some(e => e.id === p.expenseId))
+      .map(p => ({ table: 'expense_payments' as const, op: 'delete' as const, key: p.id }))
+  ];
+
+  // Quita as parcelas em aberto numa única cobrança, com desconto opcional
+  const anticipateInstallments = async (originalId: string, billingMonth: string, discount: number) => {
+    const series = getInstallmentSeries(expenses, originalId);
+    const remaining = getRemainingInstallments(series, billingMonth, expensePayments, cardPayments);
+    if (!remaining.length) throw new Error('Não há parcelas em aberto a partir deste mês.');
+    const total = remaining.reduce((sum, e) => sum + e.installmentValue, 0);
+    if (discount < 0 || discount >= total) throw new Error('O desconto precisa ser menor que o valor das parcelas.');
+
+    const first = remaining[0];
+    const last = remaining[remaining.length - 1];
+    const value = Math.round((total - discount) * 100) / 100;
+    const payoff: Expense = {
+      id: uuidv4(),
+      title: `${first.title} (antecipação ${first.installments?.current}-${last.installments?.current}/${first.installments?.total})`,
+      categoryId: first.categoryId,
+      type: 'one_time',
+      purchaseDate: format(new Date(), 'yyyy-MM-dd'),
+      billingMonth,
+      isInstallment: false,
+      totalValue: value,
+      installmentValue: value,
+      paymentMethod: first.paymentMethod,
+      isPaid: false,
+      originalId,
+      valueHistory: [],
+      createdAt: new Date().toISOString()
+    };
+    await commit(`Antecipação de ${remaining.length} parcelas de "${first.title}"`, [
+      { table: 'expenses', op: 'insert', records: [payoff] },
+      ...parcelDeletions(remaining)
+    ]);
+  };
+
+  // Cancela as parcelas em aberto a partir de um mês (ex.: compra estornada)
+  const cancelRemainingInstallments = async (originalId: string, fromMonth: string) => {
+    const series = getInstallmentSeries(expenses, originalId);
+    const remaining = getRemainingInstallments(series, fromMonth, expensePayments, cardPayments);
+    if (!remaining.length) throw new Error('Não há parcelas em aberto a partir deste mês.');
+    await commit(`Cancelamento de ${remaining.length} parcelas de "${remaining[0].title}"`, parcelDeletions(remaining));
+  };
+
+  const addRefund = async (refund: RefundInput) => {
+    await commit(`Estorno "${refund.title}"`, [{
+      table: 'expenses',
+      op: 'insert',
+      records: [{
+        id: uuidv4(),
+        title: refund.title,
+        categoryId: refund.categoryId,
+        type: 'refund',
+        purchaseDate: refund.purchaseDate,
+        billingMonth: refund.billingMonth,
+        isInstallment: false,
+        totalValue: refund.amount,
+        installmentValue: refund.amount,
+        paymentMethod: refund.paymentMethod,
+        isPaid: false,
+        refundOf: refund.refundOf,
+        valueHistory: [],
+        createdAt: new Date().toISOString()
+      }]
+    }]);
+  };
+
+  // Compra parcelada estornada: cancela as parcelas em aberto ou lança um crédito para cada parcela restante
+  const refundInstallments = async (originalId: string, fromMonth: string, mode: 'cancel' | 'credit') => {
+    if (mode === 'cancel') return cancelRemainingInstallments(originalId, fromMonth);
+
+    const parcels = getInstallmentSeries(expenses, originalId).filter(e => e.billingMonth >= fromMonth);
+    if (!parcels.length) throw new Error('Não há parcelas a partir deste mês.');
+    const creditId = uuidv4();
+    const createdAt = new Date().toISOString();
+    const credits: Expense[] = parcels.map(parcel => ({
+      id: uuidv4(),
+      title: `Estorno ${parcel.title}`,
+      categoryId: parcel.categoryId,
+      type: 'refund',
+      purchaseDate: format(new Date(), 'yyyy-MM-dd'),
+      billingMonth: parcel.billingMonth,
+      isInstallment: false,
+      totalValue: parcel.totalValue,
+      installmentValue: parcel.installmentValue,
+      installments: parcel.installments,
+      paymentMethod: parcel.paymentMethod,
+      isPaid: false,
+      originalId: creditId,
+      refundOf: parcel.id,
+      valueHistory: [],
+      createdAt
+    }));
+    await commit(`Estorno de ${credits.length} parcelas de "${parcels[0].title}"`, [{ table: 'expenses', op: 'insert', records: credits }]);
+  };
+
+  const deleteInstallmentSeries = async (originalId: string) => {
+    const series = getInstallmentSeries(expenses, originalId);
+    if (!series.length) return;
+    await commit(`Exclusão da compra parcelada "${series[0].title}"`, parcelDeletions(series));
   };
 
   const toggleExpensePaid = async (id: string, monthYear?: string) => {
@@ -338,28 +676,19 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
       const existingPayment = expensePayments.find(p => p.expenseId === id && p.monthYear === monthYear);
       const { value } = getExpenseValueForMonth(expense, monthYear);
 
-      if (!user) return;
-      setIsSaving(true);
-      try {
-        if (existingPayment) {
-          const { error } = await supabase.from('expense_payments')
-            .update({ is_paid: !existingPayment.isPaid, paid_value: value })
-            .eq('id', existingPayment.id);
-          if (!error) await loadData();
-        } else {
-          const { error } = await supabase.from('expense_payments').insert({
-            id: uuidv4(),
-            user_id: user.id,
-            expense_id: id,
-            month_year: monthYear,
-            is_paid: true,
-            paid_value: value
-          });
-          if (!error) await loadData();
-        }
-        showSuccess();
-      } finally {
-        setIsSaving(false);
+      if (existingPayment) {
+        await commit(`Pagamento de "${expense.title}" (${monthYear})`, [{
+          table: 'expense_payments',
+          op: 'update',
+          key: existingPayment.id,
+          changes: { isPaid: !existingPayment.isPaid, paidValue: value }
+        }]);
+      } else {
+        await commit(`Pagamento de "${expense.title}" (${monthYear})`, [{
+          table: 'expense_payments',
+          op: 'insert',
+          records: [{ id: uuidv4(), expenseId: id, monthYear, isPaid: true, paidValue: value }]
+        }]);
       }
     }
   };
@@ -391,7 +720,7 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
 
   const togglePauseFixedExpense = async (id: string, monthYear: string) => {
     const expense = expenses.find(e => e.id === id);
-    if (!expense || expense.type !== 'fixed') return;
+    if (!expense || expense.type !== 'fixed' || !isExpenseDueInMonth(expense, monthYear)) return;
 
     const currentValObj = getExpenseValueForMonth(expense, monthYear);
     const currentValue = currentValObj.value;
@@ -409,190 +738,327 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Encerra a partir de um mês (o anterior passa a ser o último); null reativa
+  const endFixedExpense = async (id: string, fromMonth: string | null) => {
+    const expense = expenses.find(e => e.id === id);
+    if (!expense || expense.type !== 'fixed') return;
+    const recurrence = { ...(expense.recurrence || { frequency: 'monthly' as const }), endMonth: fromMonth ? endMonthBefore(fromMonth) : undefined };
+    // Sem regra nem limites volta a ser mensal sem recorrência salva
+    const plain = recurrence.frequency === 'monthly' && !recurrence.startMonth && !recurrence.endMonth;
+    await commit(
+      fromMonth ? `Encerramento de "${expense.title}" a partir de ${fromMonth}` : `Reativação de "${expense.title}"`,
+      [{ table: 'expenses', op: 'update', key: id, changes: { recurrence: plain ? null : recurrence } }]
+    );
+  };
+
   const addIncome = async (income: Omit<Income, 'id'>) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const { error } = await supabase.from('incomes').insert({
-        id: uuidv4(),
-        user_id: user.id,
-        title: income.title,
-        category_id: income.categoryId,
-        payment_method: income.paymentMethod,
-        type: income.type,
-        amount: income.amount,
-        start_month: income.startMonth,
-        duration_months: income.durationMonths,
-        value_history: income.valueHistory || []
-      });
-      if (!error) { await loadData(); showSuccess(); }
-    } finally {
-      setIsSaving(false);
-    }
+    await commit(`Nova receita "${income.title}"`, [{
+      table: 'incomes',
+      op: 'insert',
+      records: [{ ...income, id: uuidv4(), valueHistory: income.valueHistory || [] }]
+    }]);
   };
 
   const updateIncome = async (id: string, updates: Partial<Income>) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const mapped: any = {};
-      if (updates.title !== undefined) mapped.title = updates.title;
-      if (updates.categoryId !== undefined) mapped.category_id = updates.categoryId;
-      if (updates.paymentMethod !== undefined) mapped.payment_method = updates.paymentMethod;
-      if (updates.type !== undefined) mapped.type = updates.type;
-      if (updates.amount !== undefined) mapped.amount = updates.amount;
-      if (updates.startMonth !== undefined) mapped.start_month = updates.startMonth;
-      if (updates.durationMonths !== undefined) mapped.duration_months = updates.durationMonths;
-      if (updates.valueHistory !== undefined) mapped.value_history = updates.valueHistory;
-
-      const { error } = await supabase.from('incomes').update(mapped).eq('id', id);
-      if (!error) { await loadData(); showSuccess(); }
-    } finally {
-      setIsSaving(false);
-    }
+    await commit(`Edição da receita "${titleOf(incomes, id)}"`, [{ table: 'incomes', op: 'update', key: id, changes: definedFields(updates) }]);
   };
 
+  // Remove receitas junto com os recebimentos marcados delas
+  const incomeDeletions = (ids: string[]): Omit<NewOutboxEntry, 'label'>[] => [
+    ...ids.map(id => ({ table: 'incomes' as const, op: 'delete' as const, key: id })),
+    ...incomeReceipts
+      .filter(r => ids.includes(r.incomeId))
+      .map(r => ({ table: 'income_receipts' as const, op: 'delete' as const, key: r.id }))
+  ];
+
+  // Um salário leva junto o 13º e as férias gerados a partir dele
   const deleteIncome = async (id: string) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const { error } = await supabase.from('incomes').delete().eq('id', id);
-      if (!error) { await loadData(); showSuccess(); }
-    } finally {
-      setIsSaving(false);
-    }
+    const extras = incomes.filter(i => i.salaryExtra?.salaryId === id).map(i => i.id);
+    await commit(`Exclusão da receita "${titleOf(incomes, id)}"`, incomeDeletions([id, ...extras]));
   };
 
   const updateFixedIncomeValue = async (id: string, monthYear: string, newValue: number, paymentMethod?: string) => {
     const income = incomes.find(i => i.id === id);
     if (!income || income.type !== 'fixed') return;
-    const newHistory = [...(income.valueHistory || []), { monthYear, value: newValue, paymentMethod }]
-      .sort((a, b) => a.monthYear.localeCompare(b.monthYear));
-    const unique = newHistory.reduce((acc: any[], curr) => {
-      const idx = acc.findIndex(h => h.monthYear === curr.monthYear);
-      if (idx >= 0) acc[idx] = curr; else acc.push(curr);
-      return acc;
-    }, []);
-    await updateIncome(id, { valueHistory: unique });
+    await updateIncome(id, { valueHistory: withIncomeHistoryItem(income.valueHistory, { monthYear, value: newValue, paymentMethod }) });
   };
 
-  const addCard = async (card: Omit<CreditCard, 'id'>) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const { error } = await supabase.from('cards').insert({
-        id: uuidv4(),
-        user_id: user.id,
-        name: card.name,
-        color: card.color,
-        due_day: card.dueDay,
-        closing_day: card.closingDay
-      });
-      if (!error) { await loadData(); showSuccess(); }
-    } finally {
-      setIsSaving(false);
+  // Gera (ou atualiza) o 13º e as férias de um ano; os já gerados mantêm o id e os recebimentos marcados
+  const salaryExtraEntries = (salary: Income, year: number, vacationMonth?: string): Omit<NewOutboxEntry, 'label'>[] => {
+    const current = incomes.filter(i => i.salaryExtra?.salaryId === salary.id && i.salaryExtra.year === year);
+    const next = buildSalaryExtras(salary, year, vacationMonth);
+    const saved = next.map(extra => {
+      const existing = current.find(i => i.salaryExtra!.kind === extra.salaryExtra!.kind);
+      return existing
+        ? { table: 'incomes' as const, op: 'update' as const, key: existing.id, changes: definedFields(extra) }
+        : { table: 'incomes' as const, op: 'insert' as const, records: [{ ...extra, id: uuidv4() }] };
+    });
+    const removed = current.filter(i => !next.some(extra => extra.salaryExtra!.kind === i.salaryExtra!.kind)).map(i => i.id);
+    return [...saved, ...incomeDeletions(removed)];
+  };
+
+  // Salário bruto: o líquido sai da folha (INSS, IRRF e descontos) e o cálculo fica no histórico
+  const addSalaryIncome = async (income: Omit<Income, 'id' | 'type' | 'valueHistory'>, effectiveMonth: string, payroll: PayrollInput, vacationMonth?: string) => {
+    if (!(payroll.gross > 0)) throw new Error('Informe o salário bruto.');
+    const breakdown = computePayroll(payroll, effectiveMonth);
+    const salary: Income = {
+      ...income,
+      id: uuidv4(),
+      type: 'fixed',
+      valueHistory: [{ monthYear: effectiveMonth, value: breakdown.net, paymentMethod: income.paymentMethod, payroll: breakdown }]
+    };
+    const extras = buildSalaryExtras(salary, Number(effectiveMonth.slice(0, 4)), vacationMonth).map(extra => ({ ...extra, id: uuidv4() }));
+    await commit(`Novo salário "${income.title}"`, [{ table: 'incomes', op: 'insert', records: [salary, ...extras] }]);
+  };
+
+  // Novo bruto a partir de um mês; o 13º e as férias já gerados desse ano em diante são recalculados
+  const updateSalaryValue = async (id: string, monthYear: string, payroll: PayrollInput, paymentMethod?: string) => {
+    const income = incomes.find(i => i.id === id);
+    if (!income || income.type !== 'fixed') return;
+    if (!(payroll.gross > 0)) throw new Error('Informe o salário bruto.');
+    const breakdown = computePayroll(payroll, monthYear);
+    const updated = { ...income, valueHistory: withIncomeHistoryItem(income.valueHistory, { monthYear, value: breakdown.net, paymentMethod, payroll: breakdown }) };
+    const extras = incomes.filter(i => i.salaryExtra?.salaryId === id && i.salaryExtra.year >= Number(monthYear.slice(0, 4)));
+    const years = extras.map(i => i.salaryExtra!.year).filter((year, index, all) => all.indexOf(year) === index);
+    await commit(`Novo salário bruto de "${income.title}" a partir de ${monthYear}`, [
+      { table: 'incomes', op: 'update', key: id, changes: { valueHistory: updated.valueHistory } },
+      ...years.flatMap(year => salaryExtraEntries(updated, year, extras.find(i => i.salaryExtra!.year === year && i.salaryExtra!.kind === 'vacation')?.startMonth))
+    ]);
+  };
+
+  const generateSalaryExtras = async (id: string, year: number, vacationMonth?: string) => {
+    const salary = incomes.find(i => i.id === id);
+    if (!salary || !isSalaryIncome(salary)) return;
+    if (vacationMonth && !vacationMonth.startsWith(`${year}-`)) throw new Error(`Escolha um mês de férias em ${year}.`);
+    const entries = salaryExtraEntries(salary, year, vacationMonth);
+    if (!entries.length) throw new Error('O salário não está ativo neste ano.');
+    await commit(`13º e férias de "${salary.title}" (${year})`, entries);
+  };
+
+  const endFixedIncome = async (id: string, fromMonth: string | null) => {
+    const income = incomes.find(i => i.id === id);
+    if (!income || income.type !== 'fixed') return;
+    await commit(
+      fromMonth ? `Encerramento de "${income.title}" a partir de ${fromMonth}` : `Reativação de "${income.title}"`,
+      [{ table: 'incomes', op: 'update', key: id, changes: { endMonth: fromMonth ? endMonthBefore(fromMonth) : null } }]
+    );
+  };
+
+  // Marca a receita como recebida no mês pelo valor previsto, com a data de hoje
+  const toggleIncomeReceived = async (id: string, monthYear: string) => {
+    const income = incomes.find(i => i.id === id);
+    if (!income) return;
+    const receipt = findIncomeReceipt(incomeReceipts, id, monthYear);
+    if (receipt?.isReceived) {
+      await commit(`Recebimento de "${income.title}" (${monthYear}) desfeito`, [{
+        table: 'income_receipts',
+        op: 'update',
+        key: receipt.id,
+        changes: { isReceived: false }
+      }]);
+    } else {
+      await recordIncomeReceipt(id, monthYear, { receivedValue: getIncomeValueForMonth(income, monthYear), receivedAt: format(new Date(), 'yyyy-MM-dd') });
     }
   };
 
-  const updateCard = async (id: string, updates: Partial<CreditCard>) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const mapped: any = {};
-      if (updates.name !== undefined) mapped.name = updates.name;
-      if (updates.color !== undefined) mapped.color = updates.color;
-      if (updates.dueDay !== undefined) mapped.due_day = updates.dueDay;
-      if (updates.closingDay !== undefined) mapped.closing_day = updates.closingDay;
-
-      const { error } = await supabase.from('cards').update(mapped).eq('id', id);
-      if (!error) { await loadData(); showSuccess(); }
-    } finally {
-      setIsSaving(false);
+  // Recebimento com o valor e a data reais, que podem diferir da previsão
+  const recordIncomeReceipt = async (id: string, monthYear: string, received: { receivedValue: number; receivedAt: string }) => {
+    const income = incomes.find(i => i.id === id);
+    if (!income) return;
+    if (!(received.receivedValue >= 0)) throw new Error('Informe o valor recebido.');
+    const receipt = findIncomeReceipt(incomeReceipts, id, monthYear);
+    const label = `Recebimento de "${income.title}" (${monthYear})`;
+    if (receipt) {
+      await commit(label, [{ table: 'income_receipts', op: 'update', key: receipt.id, changes: { ...received, isReceived: true } }]);
+    } else {
+      await commit(label, [{
+        table: 'income_receipts',
+        op: 'insert',
+        records: [{ id: uuidv4(), incomeId: id, monthYear, isReceived: true, ...received }]
+      }]);
     }
   };
 
+  const addCard = async (card: Omit<CreditCard, 'id'>) => {
+    await commit(`Novo cartão "${card.name}"`, [{ table: 'cards', op: 'insert', records: [{ ...card, id: uuidv4() }] }]);
+  };
+
+  const updateCard = async (id: string, updates: Partial<CreditCard>) => {
+    await commit(`Edição do cartão "${nameOf(cards, id)}"`, [{ table: 'cards', op: 'update', key: id, changes: definedFields(updates) }]);
+  };
+
+  // Leva junto as despesas lançadas no cartão e os pagamentos das faturas, para desfazer restaurar tudo
   const deleteCard = async (id: string) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const { error } = await supabase.from('cards').delete().eq('id', id);
-      if (!error) { await loadData(); showSuccess(); }
-    } finally {
-      setIsSaving(false);
+    await commit(`Exclusão do cartão "${nameOf(cards, id)}"`, [
+      { table: 'cards', op: 'delete', key: id },
+      ...parcelDeletions(expenses.filter(e => e.paymentMethod === id)),
+      ...cardPayments
+        .filter(p => p.cardId === id)
+        .map(p => ({ table: 'card_payments' as const, op: 'delete' as const, key: [p.cardId, p.monthYear] }))
+    ]);
+  };
+
+  // accountId: conta de onde sai o dinheiro da fatura
+  const toggleCardPaid = async (cardId: string, monthYear: string, accountId?: string) => {
+    const exists = cardPayments.find(p => p.cardId === cardId && p.monthYear === monthYear);
+    const label = `Pagamento da fatura "${nameOf(cards, cardId)}" (${monthYear})`;
+    const paidAt = format(new Date(), 'yyyy-MM-dd');
+    if (exists) {
+      // Marcar como paga quita a fatura inteira; desmarcar apaga o pagamento parcial
+      const changes = exists.isPaid
+        ? { isPaid: false, paidAmount: null, paidAt: null, rollover: null, accountId: null }
+        : { isPaid: true, paidAmount: null, paidAt, rollover: null, accountId: accountId || null };
+      await commit(label, [{ table: 'card_payments', op: 'update', key: [cardId, monthYear], changes }]);
+    } else {
+      await commit(label, [{ table: 'card_payments', op: 'insert', records: [{ cardId, monthYear, isPaid: true, paidAt, accountId }] }]);
     }
   };
 
-  const toggleCardPaid = async (cardId: string, monthYear: string) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const exists = cardPayments.find(p => p.cardId === cardId && p.monthYear === monthYear);
-      if (exists) {
-        const { error } = await supabase.from('card_payments').update({ is_paid: !exists.isPaid }).eq('card_id', cardId).eq('month_year', monthYear);
-        if (!error) await loadData();
-      } else {
-        const { error } = await supabase.from('card_payments').insert({ user_id: user.id, card_id: cardId, month_year: monthYear, is_paid: true });
-        if (!error) await loadData();
-      }
-      showSuccess();
-    } finally {
-      setIsSaving(false);
+  // Pagamento de parte da fatura; o restante pode ir para a próxima com os juros do rotativo
+  const payCardInvoice = async (cardId: string, monthYear: string, payment: { paidAmount: number; paidAt: string; rollover: boolean; accountId?: string }) => {
+    const invoice = getCardInvoice(cardId, monthYear);
+    if (!invoice) return;
+    const record = {
+      isPaid: payment.paidAmount >= invoice.total - 0.005 || payment.rollover,
+      paidAmount: payment.paidAmount,
+      paidAt: payment.paidAt,
+      rollover: payment.rollover,
+      accountId: payment.accountId || null
+    };
+    const label = `Pagamento da fatura "${nameOf(cards, cardId)}" (${monthYear})`;
+    if (invoice.payment) {
+      await commit(label, [{ table: 'card_payments', op: 'update', key: [cardId, monthYear], changes: record }]);
+    } else {
+      await commit(label, [{ table: 'card_payments', op: 'insert', records: [{ cardId, monthYear, ...record }] }]);
     }
   };
 
+  const addAccount = async (account: Omit<Account, 'id'>) => {
+    await commit(`Nova conta "${account.name}"`, [{ table: 'accounts', op: 'insert', records: [{ ...account, id: uuidv4() }] }]);
+  };
+
+  const updateAccount = async (id: string, updates: Partial<Account>) => {
+    await commit(`Edição da conta "${nameOf(accounts, id)}"`, [{ table: 'accounts', op: 'update', key: id, changes: definedFields(updates) }]);
+  };
+
+  // Lançamentos da conta excluída passam a contar como dinheiro e as transferências dela são removidas
+  const deleteAccount = async (id: string) => {
+    await commit(`Exclusão da conta "${nameOf(accounts, id)}"`, [
+      { table: 'accounts', op: 'delete', key: id },
+      ...transfers
+        .filter(t => t.fromAccountId === id || t.toAccountId === id)
+        .map(t => ({ table: 'transfers' as const, op: 'delete' as const, key: t.id })),
+      ...expenses
+        .filter(e => e.paymentMethod === id)
+        .map(e => ({ table: 'expenses' as const, op: 'update' as const, key: e.id, changes: { paymentMethod: 'cash' } })),
+      ...incomes
+        .filter(i => i.paymentMethod === id)
+        .map(i => ({ table: 'incomes' as const, op: 'update' as const, key: i.id, changes: { paymentMethod: 'cash' } })),
+      ...cardPayments
+        .filter(p => p.accountId === id)
+        .map(p => ({ table: 'card_payments' as const, op: 'update' as const, key: [p.cardId, p.monthYear], changes: { accountId: null } }))
+    ]);
+  };
+
+  // Transferência entre contas: muda os saldos, mas não é receita nem despesa
+  const addTransfer = async (transfer: Omit<Transfer, 'id'>) => {
+    if (transfer.fromAccountId === transfer.toAccountId) throw new Error('Escolha contas diferentes para a transferência.');
+    if (!(transfer.amount > 0)) throw new Error('Informe o valor da transferência.');
+    const label = `Transferência de ${paymentMethodName(transfer.fromAccountId, cards, accounts)} para ${paymentMethodName(transfer.toAccountId, cards, accounts)}`;
+    await commit(label, [{ table: 'transfers', op: 'insert', records: [{ ...transfer, id: uuidv4() }] }]);
+  };
+
+  const deleteTransfer = async (id: string) => {
+    const transfer = transfers.find(t => t.id === id);
+    if (!transfer) return;
+    await commit(`Exclusão da transferência de ${paymentMethodName(transfer.fromAccountId, cards, accounts)} para ${paymentMethodName(transfer.toAccountId, cards, accounts)}`, [{ table: 'transfers', op: 'delete', key: id }]);
+  };
+
   const addCategory = async (category: Omit<Category, 'id'>) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const { error } = await supabase.from('categories').insert({
-        id: uuidv4(),
-        user_id: user.id,
-        name: category.name,
-        color: category.color,
-        type: category.type
-      });
-      if (!error) { await loadData(); showSuccess(); }
-    } finally {
-      setIsSaving(false);
-    }
+    await commit(`Nova categoria "${category.name}"`, [{ table: 'categories', op: 'insert', records: [{ ...category, id: uuidv4() }] }]);
   };
 
   const updateCategory = async (id: string, updates: Partial<Category>) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const mapped: any = {};
-      if (updates.name !== undefined) mapped.name = updates.name;
-      if (updates.color !== undefined) mapped.color = updates.color;
-      if (updates.type !== undefined) mapped.type = updates.type;
-
-      const { error } = await supabase.from('categories').update(mapped).eq('id', id);
-      if (!error) { await loadData(); showSuccess(); }
-    } finally {
-      setIsSaving(false);
-    }
+    await commit(`Edição da categoria "${nameOf([...expenseCategories, ...incomeCategories], id)}"`, [{ table: 'categories', op: 'update', key: id, changes: definedFields(updates) }]);
   };
 
   const deleteCategory = async (id: string) => {
-    if (!user) return;
-    setIsSaving(true);
-    try {
-      const { error } = await supabase.from('categories').delete().eq('id', id);
-      if (!error) { await loadData(); showSuccess(); }
-    } finally {
-      setIsSaving(false);
+    await commit(`Exclusão da categoria "${nameOf([...expenseCategories, ...incomeCategories], id)}"`, [{ table: 'categories', op: 'delete', key: id }]);
+  };
+
+  // Orçamento a partir de um mês (permanente) ou só naquele mês (exceção), como nas despesas fixas
+  const updateCategoryBudget = async (id: string, monthYear: string, newValue: number, isException?: boolean) => {
+    const category = expenseCategories.find(c => c.id === id);
+    if (!category) return;
+    const type = isException ? 'exception' as const : 'permanent' as const;
+    const newHistory = [
+      ...(category.budgetHistory || []).filter(h => !(h.monthYear === monthYear && (h.type || 'permanent') === type)),
+      { monthYear, value: newValue, type }
+    ].sort((a, b) => a.monthYear.localeCompare(b.monthYear));
+    await commit(`Orçamento da categoria "${category.name}" (${monthYear})`, [{ table: 'categories', op: 'update', key: id, changes: { budgetHistory: newHistory } }]);
+  };
+
+  const deleteCategoryBudgetItem = async (id: string, monthYear: string, type?: 'exception' | 'permanent') => {
+    const category = expenseCategories.find(c => c.id === id);
+    if (!category) return;
+    const targetType = type || 'permanent';
+    const newHistory = (category.budgetHistory || []).filter(h => !(h.monthYear === monthYear && (h.type || 'permanent') === targetType));
+    await commit(`Orçamento da categoria "${category.name}" (${monthYear})`, [{ table: 'categories', op: 'update', key: id, changes: { budgetHistory: newHistory } }]);
+  };
+
+  // --- CONFIGURAÇÕES ---
+  // Um único registro por usuário, criado na primeira alteração
+  const settings = settingsRecords[0] || null;
+
+  const updateSettings = async (updates: Partial<Omit<UserSettings, 'id'>>) => {
+    if (settings) {
+      await commit('Edição do saldo inicial', [{ table: 'settings', op: 'update', key: settings.id, changes: definedFields(updates) }]);
+    } else {
+      await commit('Saldo inicial definido', [{
+        table: 'settings',
+        op: 'insert',
+        records: [{ openingBalance: 0, openingMonth: format(new Date(), 'yyyy-MM'), ...updates, id: uuidv4() }]
+      }]);
     }
   };
 
+  // --- BACKUP ---
+  const importBackup = async (data: BackupData, mode: 'merge' | 'replace') => {
+    const current: BackupData = {
+      expenses, incomes, cards, accounts, transfers, card_payments: cardPayments, expense_payments: expensePayments, income_receipts: incomeReceipts,
+      categories: [...expenseCategories, ...incomeCategories], settings: settingsRecords
+    };
+    const imported = remapBackup(data, mode === 'merge' ? current : undefined);
+    if (mode === 'merge') {
+      // Faturas já marcadas continuam como estão
+      imported.card_payments = imported.card_payments.filter(p => !cardPayments.some(c => c.cardId === p.cardId && c.monthYear === p.monthYear));
+      // O saldo inicial já definido também
+      if (settings) imported.settings = [];
+    }
+
+    // Uma remoção e uma inclusão por tabela, para a fila não crescer com o tamanho do backup
+    const removals: Omit<NewOutboxEntry, 'label'>[] = mode === 'replace'
+      ? [...RESTORE_ORDER].reverse()
+        .filter(table => current[table].length)
+        .map(table => ({ table, op: 'delete', keys: current[table].map(record => recordKey(table, record)) }))
+      : [];
+    const inserts: Omit<NewOutboxEntry, 'label'>[] = RESTORE_ORDER
+      .filter(table => imported[table].length)
+      .map(table => ({ table, op: 'insert', records: imported[table] }));
+
+    await commit(mode === 'replace' ? 'Backup restaurado (substituição)' : 'Backup importado (mesclagem)', [...removals, ...inserts]);
+  };
   const getIncomeValueForMonth = (income: Income, monthYear: string): number => {
     if (income.type === 'temporary') {
+      // Valores por mês têm prioridade sobre o valor único
+      if (income.schedule?.length) return income.schedule.find(item => item.monthYear === monthYear)?.value || 0;
       if (!income.startMonth || !income.durationMonths) return 0;
       const start = income.startMonth;
       const end = format(addMonths(parseISO(`${start}-01`), income.durationMonths - 1), 'yyyy-MM');
       return (monthYear >= start && monthYear <= end) ? (income.amount || 0) : 0;
     }
     const history = income.valueHistory || [];
-    if (history.length === 0) return 0;
+    if (history.length === 0 || (income.endMonth && monthYear > income.endMonth)) return 0;
     const applicable = history.filter(h => h.monthYear <= monthYear).sort((a, b) => b.monthYear.localeCompare(a.monthYear))[0];
     return applicable ? applicable.value : history[0].value;
   };
@@ -600,7 +1066,8 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
   const getExpenseValueForMonth = (expense: Expense, monthYear: string): { value: number; paymentMethod: string } => {
     if (expense.type === 'fixed') {
       const history = expense.valueHistory || [];
-      if (history.length === 0) return { value: 0, paymentMethod: expense.paymentMethod };
+      // Fora da recorrência (ex.: anual) não há cobrança no mês
+      if (history.length === 0 || !isExpenseDueInMonth(expense, monthYear)) return { value: 0, paymentMethod: expense.paymentMethod };
       
       const exception = history.find(h => h.monthYear === monthYear && h.type === 'exception');
       if (exception) return { value: exception.value, paymentMethod: exception.paymentMethod || expense.paymentMethod };
@@ -611,34 +1078,89 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
       const applicable = permanents.filter(h => h.monthYear <= monthYear).sort((a, b) => b.monthYear.localeCompare(a.monthYear))[0];
       return applicable ? { value: applicable.value, paymentMethod: applicable.paymentMethod || expense.paymentMethod } : { value: permanents[0].value, paymentMethod: permanents[0].paymentMethod || expense.paymentMethod };
     }
-    return expense.billingMonth === monthYear ? { value: expense.installmentValue, paymentMethod: expense.paymentMethod } : { value: 0, paymentMethod: expense.paymentMethod };
+    // Estornos abatem da fatura (ou do caixa) do mês em que entram
+    const value = expense.type === 'refund' ? -expense.installmentValue : expense.installmentValue;
+    return expense.billingMonth === monthYear ? { value, paymentMethod: expense.paymentMethod } : { value: 0, paymentMethod: expense.paymentMethod };
+  };
+
+  // Receitas entram pelo valor recebido quando marcadas, e pela previsão até lá
+  const getIncomeInflow = (income: Income, monthYear: string) => getReceivedIncomeValue(income, monthYear, incomeReceipts, getIncomeValueForMonth);
+
+  // Saldo projetado mês a mês; sem saldo inicial definido, parte de zero no mês atual
+  const getCashFlow = (fromMonth: string, toMonth: string) => simulateCashFlow([], fromMonth, toMonth);
+
+  // Mesmo fluxo de caixa com mudanças hipotéticas aplicadas em memória; nada é salvo
+  const simulateCashFlow = (changes: ScenarioChange[], fromMonth: string, toMonth: string) => {
+    const scenario = applyScenario(changes, { incomes, expenses, getIncomeValueForMonth: getIncomeInflow, getExpenseValueForMonth });
+    return computeCashFlow(
+      fromMonth,
+      toMonth,
+      settings
+        ? { balance: settings.openingBalance, monthYear: settings.openingMonth }
+        : { balance: 0, monthYear: format(new Date(), 'yyyy-MM') },
+      scenario.incomes,
+      scenario.expenses,
+      scenario.getIncomeValueForMonth,
+      scenario.getExpenseValueForMonth,
+      // Saldos já levados ao rotativo não mudam com o cenário
+      monthYear => getRolloverAdjustment(cards, monthYear, expenses, cardPayments, getExpenseValueForMonth)
+    );
+  };
+
+  // Limite comprometido do cartão; null quando o cartão não tem limite cadastrado
+  const getCardLimit = (cardId: string) => {
+    const card = cards.find(c => c.id === cardId);
+    return card ? getCardLimitUsage(card, cards, expenses, cardPayments, expensePayments, getExpenseValueForMonth) : null;
+  };
+
+  const getCardInvoice = (cardId: string, monthYear: string) => {
+    const card = cards.find(c => c.id === cardId);
+    return card ? computeCardInvoice(card, monthYear, expenses, cardPayments, getExpenseValueForMonth) : null;
+  };
+
+  // Saldo de uma conta no mês, a partir do saldo inicial dela; inclui transferências e faturas pagas com ela
+  const getAccountFlow = (accountId: string, monthYear: string) => {
+    const account = accounts.find(a => a.id === accountId);
+    if (!account) return null;
+    const getInvoicePaid = (payment: CardPaymentStatus) => getCardInvoice(payment.cardId, payment.monthYear)?.paid || 0;
+    return computeAccountFlow(
+      account, monthYear, monthYear, incomes, expenses, getIncomeInflow, getExpenseValueForMonth,
+      month => getAccountOutflow(account.id, month, transfers, cardPayments, getInvoicePaid)
+    )[0];
   };
 
   const value = {
-    user, loading, isSaving, saveSuccess, expenses, incomes, expenseCategories, incomeCategories, cards, cardPayments, expensePayments,
+    user, loading, isSaving, saveSuccess, isOnline, pendingWrites, canUndo: historySize.undo > 0, canRedo: historySize.redo > 0, undo, redo, expenses, incomes, expenseCategories, incomeCategories, cards, accounts, transfers, cardPayments, expensePayments, incomeReceipts, settings,
+    failedWrites, clearFailedWrites: () => setFailedWrites(0),
     lastUsedPaymentMethod, setLastUsedPaymentMethod, loadData,
-    addExpense, addInstallmentExpense, updateExpense, deleteExpense, toggleExpensePaid, updateFixedExpenseValue, deleteFixedExpenseHistoryItem, togglePauseFixedExpense,
-    addIncome, updateIncome, deleteIncome, updateFixedIncomeValue,
-    addCard, updateCard, deleteCard, toggleCardPaid,
-    addCategory, updateCategory, deleteCategory,
-    getIncomeValueForMonth, getExpenseValueForMonth
+    addExpense, addInstallmentExpense, updateExpense, deleteExpense, anticipateInstallments, cancelRemainingInstallments, deleteInstallmentSeries, addRefund, refundInstallments, toggleExpensePaid, updateFixedExpenseValue, deleteFixedExpenseHistoryItem, togglePauseFixedExpense, endFixedExpense,
+    addIncome, updateIncome, deleteIncome, updateFixedIncomeValue, endFixedIncome, toggleIncomeReceived, recordIncomeReceipt, addSalaryIncome, updateSalaryValue, generateSalaryExtras,
+    addCard, updateCard, deleteCard, toggleCardPaid, payCardInvoice,
+    addAccount, updateAccount, deleteAccount, addTransfer, deleteTransfer,
+    addCategory, updateCategory, deleteCategory, updateCategoryBudget, deleteCategoryBudgetItem, updateSettings, importBackup,
+    getIncomeValueForMonth, getExpenseValueForMonth, getCashFlow, simulateCashFlow, getCardLimit, getCardInvoice, getAccountFlow
   };
 
   return (
     <FinanceContext.Provider value={value}>
       {children}
       <AnimatePresence>
-        {isSaving && (
+        {toast && !syncError && (
           <motion.div 
-            initial={{ opacity: 0 }} 
-            animate={{ opacity: 1 }} 
-            exit={{ opacity: 0 }} 
-            className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/80 backdrop-blur-md"
+            initial={{ opacity: 0, y: 50 }} 
+            animate={{ opacity: 1, y: 0 }} 
+            exit={{ opacity: 0, y: 50 }} 
+            className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[100] bg-zinc-900 border border-zinc-800 text-zinc-100 pl-6 pr-2 py-2 rounded-full shadow-xl flex items-center gap-4 font-medium max-w-[90vw]"
           >
-            <div className="bg-zinc-900 border border-zinc-800 p-8 rounded-3xl text-center space-y-4 shadow-2xl">
-              <div className="w-12 h-12 border-4 border-yellow-500/20 border-t-yellow-500 rounded-full animate-spin mx-auto" />
-              <p className="text-zinc-100 font-bold">⚠️ Sincronizando com a nuvem...</p>
-            </div>
+            <span className="truncate">✅ {toast.message}</span>
+            {toast.action && (
+              <button
+                onClick={() => toast.action === 'undo' ? undo() : redo()}
+                className="shrink-0 px-4 py-1.5 rounded-full bg-emerald-500/10 text-emerald-500 hover:bg-emerald-500/20 transition-colors font-bold text-sm"
+              >
+                {toast.action === 'undo' ? 'Desfazer' : 'Refazer'}
+              </button>
+            )}
           </motion.div>
         )}
         {syncError && (
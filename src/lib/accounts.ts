@@ -0,0 +1,84 @@
+import { format } from 'date-fns';
+import { Account, AccountType, CardPaymentStatus, CreditCard, Expense, Income, PaymentMethod, Transfer } from '../types';
+import { MonthCashFlow, computeCashFlow } from './cashFlow';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Conta corrente',
+  savings: 'Poupança',
+  wallet: 'Carteira',
+  pix: 'Pix',
+  meal_voucher: 'Vale-refeição / alimentação',
+};
+
+// Name of the 'cash' payment method, used before accounts existed and for loose money
+export const CASH_LABEL = 'Dinheiro';
+
+/** Whether a payment method is loose cash, an account or a card. Ids of deleted accounts fall back to cash. */
+export const getPaymentMethodKind = (method: string | undefined, cards: CreditCard[], accounts: Account[]): PaymentMethod => {
+  if (cards.some(c => c.id === method)) return 'credit_card';
+  if (accounts.some(a => a.id === method)) return 'account';
+  return 'cash';
+};
+
+export const paymentMethodName = (method: string | undefined, cards: CreditCard[], accounts: Account[]) =>
+  cards.find(c => c.id === method)?.name || accounts.find(a => a.id === method)?.name || CASH_LABEL;
+
+/** Where an income is received in a month: the destination of its applicable value, or of the income itself. */
+export const getIncomeDestination = (income: Income, monthYear: string) => {
+  const history = income.valueHistory || [];
+  const applicable = history.filter(h => h.monthYear <= monthYear).sort((a, b) => b.monthYear.localeCompare(a.monthYear))[0] || history[0];
+  return applicable?.paymentMethod || income.paymentMethod || 'cash';
+};
+
+/**
+ * Money leaving an account in a month that is not spending: transfers to other accounts
+ * and card invoices paid from it, minus transfers received. Card purchases are already
+ * counted as expenses, so paying the invoice only moves the money out of the account.
+ */
+export const getAccountOutflow = (
+  accountId: string,
+  monthYear: string,
+  transfers: Transfer[],
+  cardPayments: CardPaymentStatus[],
+  getInvoicePaid: (payment: CardPaymentStatus) => number
+) => {
+  const transferred = transfers.reduce((acc, t) => {
+    if (t.date.slice(0, 7) !== monthYear) return acc;
+    if (t.fromAccountId === accountId) acc += t.amount;
+    if (t.toAccountId === accountId) acc -= t.amount;
+    return acc;
+  }, 0);
+  const invoices = cardPayments
+    .filter(p => p.accountId === accountId && (p.paidAt?.slice(0, 7) || p.monthYear) === monthYear)
+    .reduce((acc, p) => acc + getInvoicePaid(p), 0);
+  return transferred + invoices;
+};
+
+/**
+ * Balance of a single account month by month: its opening balance plus the incomes
+ * received in it minus the expenses paid from it and its outflow (transfers, card invoices).
+ * Without an opening balance it starts at zero this month.
+ */
+export const computeAccountFlow = (
+  account: Account,
+  fromMonth: string,
+  toMonth: string,
+  incomes: Income[],
+  expenses: Expense[],
+  getIncomeValueForMonth: (income: Income, monthYear: string) => number,
+  getExpenseValueForMonth: (expense: Expense, monthYear: string) => { value: number; paymentMethod: string },
+  getOutflow: (monthYear: string) => number = () => 0,
+  today = new Date()
+): MonthCashFlow[] => computeCashFlow(
+  fromMonth,
+  toMonth,
+  { balance: account.openingBalance || 0, monthYear: account.openingMonth || format(today, 'yyyy-MM') },
+  incomes,
+  expenses,
+  (income, monthYear) => (getIncomeDestination(income, monthYear) === account.id ? getIncomeValueForMonth(income, monthYear) : 0),
+  (expense, monthYear) => {
+    const { value, paymentMethod } = getExpenseValueForMonth(expense, monthYear);
+    return { value: paymentMethod === account.id ? value : 0 };
+  },
+  getOutflow
+);
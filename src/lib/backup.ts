@@ -0,0 +1,162 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CreditCard, Account, Category } from '../types';
+import { TABLES, TableName, TableRecords } from './mappers';
+
+export const BACKUP_VERSION = 1;
+
+export type BackupData = { [T in TableName]: TableRecords[T][] };
+
+export interface BackupFile {
+  app: 'fluxonext';
+  version: number;
+  exportedAt: string;
+  data: BackupData;
+}
+
+// Referenced tables first, so restoring never points at a missing record
+export const RESTORE_ORDER: TableName[] = ['categories', 'cards', 'accounts', 'incomes', 'expenses', 'expense_payments', 'income_receipts', 'card_payments', 'transfers', 'settings'];
+
+const REQUIRED_FIELDS: Record<TableName, string[]> = {
+  expenses: ['id', 'title', 'type', 'billingMonth', 'totalValue', 'installmentValue', 'paymentMethod'],
+  incomes: ['id', 'title', 'type'],
+  cards: ['id', 'name', 'closingDay', 'dueDay'],
+  accounts: ['id', 'name', 'type'],
+  transfers: ['id', 'fromAccountId', 'toAccountId', 'amount', 'date'],
+  categories: ['id', 'name', 'type'],
+  card_payments: ['cardId', 'monthYear'],
+  expense_payments: ['id', 'expenseId', 'monthYear'],
+  income_receipts: ['id', 'incomeId', 'monthYear'],
+  settings: ['id'],
+};
+
+const TABLE_LABELS: Record<TableName, string> = {
+  expenses: 'despesas',
+  incomes: 'receitas',
+  cards: 'cartões',
+  accounts: 'contas',
+  transfers: 'transferências',
+  categories: 'categorias',
+  card_payments: 'faturas pagas',
+  expense_payments: 'pagamentos de despesas',
+  income_receipts: 'recebimentos de receitas',
+  settings: 'configurações',
+};
+
+export const backupTableLabel = (table: TableName) => TABLE_LABELS[table];
+
+export const createBackup = (data: BackupData): BackupFile => ({
+  app: 'fluxonext',
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  data,
+});
+
+export const backupFileName = (date = new Date()) => `fluxonext-backup-${date.toISOString().slice(0, 10)}.json`;
+
+/** Reads a backup file's text, throwing a user-facing message when it is not a valid FluxoNext backup. */
+export const parseBackup = (text: string): BackupFile => {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('O arquivo não é um JSON válido.');
+  }
+  if (!file || file.app !== 'fluxonext' || !file.data || typeof file.data !== 'object') {
+    throw new Error('O arquivo não é um backup do FluxoNext.');
+  }
+  if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+    throw new Error(`Versão de backup não suportada (${file.version}). Atualize o aplicativo.`);
+  }
+
+  const data: any = {};
+  TABLES.forEach(table => {
+    const records = file.data[table] ?? [];
+    if (!Array.isArray(records)) throw new Error(`Seção "${table}" inválida no backup.`);
+    records.forEach((record: any, index: number) => {
+      const missing = REQUIRED_FIELDS[table].filter(field => record?.[field] === undefined || record?.[field] === null);
+      if (missing.length) {
+        throw new Error(`Registro ${index + 1} de ${TABLE_LABELS[table]} sem ${missing.join(', ')}.`);
+      }
+    });
+    data[table] = records;
+  });
+  return { ...file, data };
+};
+
+export const backupCounts = (data: BackupData) =>
+  Object.fromEntries(TABLES.map(table => [table, data[table].length])) as Record<TableName, number>;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Gives every imported record a new id and rewrites the references between them
+ * (categories, cards and accounts used as payment method, installment series, salary extras, payments).
+ * With `existing`, cards, accounts and categories matching by name reuse the current ones instead of being duplicated.
+ */
+export const remapBackup = (data: BackupData, existing?: { cards: CreditCard[]; accounts: Account[]; categories: Category[] }): BackupData => {
+  const ids = new Map<string, string>();
+  const newId = (id: string) => {
+    if (!ids.has(id)) ids.set(id, uuidv4());
+    return ids.get(id)!;
+  };
+  // Ids that are not part of the backup ('cash', missing categories) stay as they are
+  const mapped = (id?: string) => (id !== undefined && ids.has(id) ? ids.get(id)! : id);
+
+  const categories = data.categories.filter(category => {
+    const match = existing?.categories.find(c => c.type === category.type && sameName(c.name, category.name));
+    if (match) ids.set(category.id, match.id);
+    return !match;
+  }).map(category => ({ ...category, id: newId(category.id) }));
+
+  const cards = data.cards.filter(card => {
+    const match = existing?.cards.find(c => sameName(c.name, card.name));
+    if (match) ids.set(card.id, match.id);
+    return !match;
+  }).map(card => ({ ...card, id: newId(card.id) }));
+
+  const accounts = data.accounts.filter(account => {
+    const match = existing?.accounts.find(a => sameName(a.name, account.name));
+    if (match) ids.set(account.id, match.id);
+    return !match;
+  }).map(account => ({ ...account, id: newId(account.id) }));
+
+  const remapHistory = <T extends { valueHistory?: TableRecords['expenses']['valueHistory'] }>(record: T) =>
+    record.valueHistory?.map(item => ({ ...item, paymentMethod: mapped(item.paymentMethod) }));
+
+  const incomes = data.incomes.map(income => ({
+    ...income,
+    id: newId(income.id),
+    categoryId: mapped(income.categoryId)!,
+    paymentMethod: mapped(income.paymentMethod),
+    valueHistory: remapHistory(income),
+    salaryExtra: income.salaryExtra && { ...income.salaryExtra, salaryId: newId(income.salaryExtra.salaryId) },
+  }));
+
+  const expenses = data.expenses.map(expense => ({
+    ...expense,
+    id: newId(expense.id),
+    categoryId: mapped(expense.categoryId)!,
+    paymentMethod: mapped(expense.paymentMethod)!,
+    originalId: expense.originalId ? newId(expense.originalId) : undefined,
+    refundOf: expense.refundOf ? newId(expense.refundOf) : undefined,
+    valueHistory: remapHistory(expense),
+  }));
+
+  return {
+    categories,
+    cards,
+    accounts,
+    incomes,
+    expenses,
+    expense_payments: data.expense_payments.map(payment => ({ ...payment, id: uuidv4(), expenseId: mapped(payment.expenseId)! })),
+    income_receipts: data.income_receipts.map(receipt => ({ ...receipt, id: uuidv4(), incomeId: mapped(receipt.incomeId)! })),
+    card_payments: data.card_payments.map(payment => ({ ...payment, cardId: mapped(payment.cardId)!, accountId: mapped(payment.accountId) })),
+    transfers: data.transfers.map(transfer => ({
+      ...transfer,
+      id: uuidv4(),
+      fromAccountId: mapped(transfer.fromAccountId)!,
+      toAccountId: mapped(transfer.toAccountId)!,
+    })),
+    settings: data.settings.map(settings => ({ ...settings, id: uuidv4() })),
+  };
+};
@@ -0,0 +1,30 @@
+import { addMonths, format, getDaysInMonth, parseISO } from 'date-fns';
+import { CreditCard } from '../types';
+
+// Cards closing on the 29th-31st close on the last day of shorter months
+const closingDayInMonth = (closingDay: number, date: Date) =>
+  Math.min(Math.max(closingDay || 1, 1), getDaysInMonth(date));
+
+/**
+ * Month (YYYY-MM) in which the invoice containing a purchase is due.
+ *
+ * Purchases made on or after the closing day fall into the next invoice. The
+ * invoice closing in a given month is due in that same month when the due day
+ * comes after the closing day, otherwise in the following month.
+ * Cash purchases stay on the purchase month.
+ */
+export const getBillingMonth = (purchaseDate: string, paymentMethod: string, cards: CreditCard[]): string => {
+  const date = parseISO(purchaseDate);
+  if (isNaN(date.getTime())) return format(addMonths(new Date(), 1), 'yyyy-MM');
+
+  const card = cards.find(c => c.id === paymentMethod);
+  if (!card) return format(date, 'yyyy-MM');
+
+  const closingMonth = date.getDate() >= closingDayInMonth(card.closingDay, date) ? addMonths(date, 1) : date;
+  const dueMonth = card.dueDay > card.closingDay ? closingMonth : addMonths(closingMonth, 1);
+  return format(dueMonth, 'yyyy-MM');
+};
+
+/** Describes a card for the AI prompt, e.g. "Nubank (fecha dia 5, vence dia 12)". */
+export const describeCardForPrompt = (card: CreditCard) =>
+  `${card.name} (fecha dia ${card.closingDay}, vence dia ${card.dueDay})`;
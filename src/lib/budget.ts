@@ -0,0 +1,44 @@
+import { Category, Expense } from '../types';
+
+export interface BudgetStatus {
+  category: Category;
+  budget: number;
+  spent: number;
+  ratio: number; // spent / budget
+}
+
+// Share of the budget from which a category is flagged as close to the limit
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/** Budget of a category in a month: a single-month override, else the latest change up to that month, else the default. */
+export const getBudgetForMonth = (category: Category, monthYear: string) => {
+  const history = category.budgetHistory || [];
+  const exception = history.find(h => h.monthYear === monthYear && h.type === 'exception');
+  if (exception) return exception.value;
+  const applicable = history
+    .filter(h => h.type !== 'exception' && h.monthYear <= monthYear)
+    .sort((a, b) => b.monthYear.localeCompare(a.monthYear))[0];
+  return applicable ? applicable.value : category.budget || 0;
+};
+
+/** Spending against each budgeted category in a month, from what is due in that month. */
+export const getBudgetStatus = (
+  categories: Category[],
+  expenses: Expense[],
+  monthYear: string,
+  getExpenseValueForMonth: (expense: Expense, monthYear: string) => { value: number }
+): BudgetStatus[] => {
+  const spentByCategory: Record<string, number> = {};
+  expenses.forEach(e => {
+    const { value } = getExpenseValueForMonth(e, monthYear);
+    if (value !== 0) spentByCategory[e.categoryId] = (spentByCategory[e.categoryId] || 0) + value;
+  });
+
+  return categories
+    .map(category => {
+      const budget = getBudgetForMonth(category, monthYear);
+      const spent = spentByCategory[category.id] || 0;
+      return { category, budget, spent, ratio: budget > 0 ? spent / budget : 0 };
+    })
+    .filter(status => status.budget > 0);
+};
@@ -0,0 +1,74 @@
+import { CardPaymentStatus, CreditCard, Expense } from '../types';
+import { shiftMonth } from './cashFlow';
+
+export interface CardInvoice {
+  charges: number; // purchases billed in the month
+  carried: number; // remainder of the previous invoice plus rotativo interest
+  total: number;
+  paid: number;
+  remaining: number; // still owed on this invoice after payments
+  rolledOver: number; // part of the remaining moved to the next invoice
+  isPaid: boolean;
+  payment?: CardPaymentStatus;
+}
+
+// How far back a chain of rolled-over invoices is followed
+const MAX_ROLLOVER_MONTHS = 24;
+
+/** Invoice of a card in a month, including any balance rolled over from the months before. */
+export const computeCardInvoice = (
+  card: CreditCard,
+  monthYear: string,
+  expenses: Expense[],
+  cardPayments: CardPaymentStatus[],
+  getExpenseValueForMonth: (expense: Expense, monthYear: string) => { value: number; paymentMethod: string },
+  depth = 0
+): CardInvoice => {
+  const charges = expenses.reduce((acc, e) => {
+    const { value, paymentMethod } = getExpenseValueForMonth(e, monthYear);
+    return paymentMethod === card.id ? acc + value : acc;
+  }, 0);
+
+  const previousMonth = shiftMonth(monthYear, -1);
+  const previousPayment = cardPayments.find(p => p.cardId === card.id && p.monthYear === previousMonth);
+  let carried = 0;
+  if (previousPayment?.rollover && depth < MAX_ROLLOVER_MONTHS) {
+    const previous = computeCardInvoice(card, previousMonth, expenses, cardPayments, getExpenseValueForMonth, depth + 1);
+    carried = previous.rolledOver * (1 + (card.revolvingRate || 0) / 100);
+  }
+
+  const total = charges + carried;
+  const payment = cardPayments.find(p => p.cardId === card.id && p.monthYear === monthYear);
+  // A payment without an amount is the old "paid" checkbox: the whole invoice
+  const paid = payment ? (payment.paidAmount ?? (payment.isPaid ? total : 0)) : 0;
+  const remaining = Math.max(total - paid, 0);
+  const rolledOver = payment?.rollover ? remaining : 0;
+
+  return {
+    charges,
+    carried,
+    total,
+    paid,
+    remaining,
+    rolledOver,
+    isPaid: !!payment && (remaining < 0.01 || !!payment.rollover),
+    payment,
+  };
+};
+
+/**
+ * What card rollovers change in a month's spending: the remainder moved out of this
+ * month's invoices is not paid now, and what came in from the previous month (with interest) is.
+ */
+export const getRolloverAdjustment = (
+  cards: CreditCard[],
+  monthYear: string,
+  expenses: Expense[],
+  cardPayments: CardPaymentStatus[],
+  getExpenseValueForMonth: (expense: Expense, monthYear: string) => { value: number; paymentMethod: string }
+) => cards.reduce((acc, card) => {
+  const involved = cardPayments.some(p => p.cardId === card.id && p.rollover && (p.monthYear === monthYear || p.monthYear === shiftMonth(monthYear, -1)));
+  if (!involved) return acc;
+  const invoice = computeCardInvoice(card, monthYear, expenses, cardPayments, getExpenseValueForMonth);
+  return acc + invoice.carried - invoice.rolledOver;
+}, 0);
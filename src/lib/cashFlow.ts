@@ -0,0 +1,57 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import { Expense, Income } from '../types';
+
+export interface MonthCashFlow {
+  monthYear: string; // YYYY-MM
+  income: number;
+  expense: number;
+  net: number;
+  // Account balance before and after the month; null for months before the opening balance
+  openingBalance: number | null;
+  closingBalance: number | null;
+}
+
+export interface OpeningBalance {
+  balance: number;
+  monthYear: string; // month the balance refers to (its start)
+}
+
+export const shiftMonth = (monthYear: string, amount: number) =>
+  format(addMonths(parseISO(`${monthYear}-01`), amount), 'yyyy-MM');
+
+/**
+ * Projects the account balance month by month: starting from the opening balance,
+ * each month's income minus expenses is carried into the next one.
+ * Returns one entry per month from `fromMonth` to `toMonth` (inclusive).
+ */
+export const computeCashFlow = (
+  fromMonth: string,
+  toMonth: string,
+  opening: OpeningBalance,
+  incomes: Income[],
+  expenses: Expense[],
+  getIncomeValueForMonth: (income: Income, monthYear: string) => number,
+  getExpenseValueForMonth: (expense: Expense, monthYear: string) => { value: number },
+  // Spending not tied to a single expense, such as card balances rolled into the next invoice
+  getAdjustment: (monthYear: string) => number = () => 0
+): MonthCashFlow[] => {
+  const result: MonthCashFlow[] = [];
+  let balance: number | null = null;
+  // Months between the opening and the requested range still move the balance
+  let month = opening.monthYear < fromMonth ? opening.monthYear : fromMonth;
+
+  while (month <= toMonth) {
+    const income = incomes.reduce((acc, inc) => acc + getIncomeValueForMonth(inc, month), 0);
+    const expense = expenses.reduce((acc, e) => acc + getExpenseValueForMonth(e, month).value, 0) + getAdjustment(month);
+    const net = income - expense;
+    if (month === opening.monthYear) balance = opening.balance;
+    const openingBalance = balance;
+    if (balance !== null) balance += net;
+
+    if (month >= fromMonth) {
+      result.push({ monthYear: month, income, expense, net, openingBalance, closingBalance: balance });
+    }
+    month = shiftMonth(month, 1);
+  }
+  return result;
+};
@@ -0,0 +1,41 @@
+import { repository, RepositoryError, TableRepository } from './repository';
+import { TABLES, TableName, TableRecords } from './mappers';
+import { OutboxEntry, entryKeys } from './localStore';
+
+export interface PushResult {
+  ok: boolean;
+  // Request never reached the backend: keep the entry queued and retry later
+  offline?: boolean;
+  error?: string;
+}
+
+/**
+ * Downloads every table of the user. A table the backend rejects (e.g. a Supabase project
+ * missing a migration) is left out so the others still load; throws when offline or when all fail.
+ */
+export const pullAll = async (userId: string): Promise<{ [T in TableName]?: TableRecords[T][] }> => {
+  const results = await Promise.allSettled(TABLES.map(table => repository.tables[table].list(userId)));
+  const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  const offline = failures.find(failure => failure.reason instanceof RepositoryError && failure.reason.offline);
+  if (offline || failures.length === results.length) throw (offline || failures[0]).reason;
+
+  const data: any = {};
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') data[TABLES[index]] = result.value;
+    else console.warn(`Table ${TABLES[index]} could not be loaded:`, result.reason?.message || result.reason);
+  });
+  return data;
+};
+
+/** Replays one outbox entry against the configured backend. */
+export const pushEntry = async (entry: OutboxEntry, userId: string): Promise<PushResult> => {
+  const table: TableRepository<TableName> = repository.tables[entry.table];
+  try {
+    if (entry.op === 'insert') await table.insert(userId, entry.records || []);
+    else if (entry.op === 'update') await table.update(userId, entry.key, entry.changes || {});
+    else await table.delete(userId, entryKeys(entry));
+    return { ok: true };
+  } catch (err: any) {
+    return { ok: false, offline: err instanceof RepositoryError && err.offline, error: err?.message || String(err) };
+  }
+};
@@ -0,0 +1,55 @@
+import { format } from 'date-fns';
+import { CardPaymentStatus, CreditCard, Expense, ExpensePayment } from '../types';
+import { getBillingMonth } from './billing';
+import { shiftMonth } from './cashFlow';
+
+export interface CardLimitUsage {
+  limit: number;
+  openInvoice: number; // last closed invoice (if unpaid) plus the one accumulating now
+  future: number; // charges billed after the open invoice, mostly installment parcels
+  used: number;
+  available: number;
+  ratio: number; // used / limit
+}
+
+// Share of the limit from which a card is flagged as close to the limit
+export const LIMIT_WARNING_RATIO = 0.8;
+
+/**
+ * How much of a card's limit is committed: unpaid charges of the last closed invoice,
+ * everything in the open invoice and all future installment parcels.
+ * Future occurrences of fixed expenses do not hold limit.
+ */
+export const getCardLimitUsage = (
+  card: CreditCard,
+  cards: CreditCard[],
+  expenses: Expense[],
+  cardPayments: CardPaymentStatus[],
+  expensePayments: ExpensePayment[],
+  getExpenseValueForMonth: (expense: Expense, monthYear: string) => { value: number; paymentMethod: string },
+  today = new Date()
+): CardLimitUsage | null => {
+  if (!card.limit || card.limit <= 0) return null;
+  const openMonth = getBillingMonth(format(today, 'yyyy-MM-dd'), card.id, cards);
+  const closedMonth = shiftMonth(openMonth, -1);
+  const invoicePaid = (monthYear: string) => cardPayments.some(p => p.cardId === card.id && p.monthYear === monthYear && p.isPaid);
+  const chargePaid = (expense: Expense, monthYear: string) =>
+    invoicePaid(monthYear) ||
+    (expense.type === 'one_time' ? expense.isPaid : expensePayments.some(p => p.expenseId === expense.id && p.monthYear === monthYear && p.isPaid));
+
+  let openInvoice = 0;
+  let future = 0;
+  expenses.forEach(expense => {
+    const months = expense.type === 'fixed' ? [closedMonth, openMonth] : [expense.billingMonth];
+    months.forEach(monthYear => {
+      if (monthYear < closedMonth || chargePaid(expense, monthYear)) return;
+      const { value, paymentMethod } = getExpenseValueForMonth(expense, monthYear);
+      if (value === 0 || paymentMethod !== card.id) return;
+      if (monthYear <= openMonth) openInvoice += value;
+      else future += value;
+    });
+  });
+
+  const used = openInvoice + future;
+  return { limit: card.limit, openInvoice, future, used, available: card.limit - used, ratio: used / card.limit };
+};
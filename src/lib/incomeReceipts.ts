@@ -0,0 +1,76 @@
+import { format, getDaysInMonth, isWeekend, parseISO, setDate } from 'date-fns';
+import { Income, IncomeReceipt, Payday } from '../types';
+
+export interface IncomeMonthStatus {
+  income: Income;
+  expected: number; // forecast for the month
+  expectedDate?: string; // YYYY-MM-DD, from the payday
+  receipt?: IncomeReceipt;
+  received: number; // 0 until marked as received
+  isLate: boolean; // payday has passed and nothing was received
+}
+
+export const describePayday = (payday: Payday) =>
+  payday.kind === 'business_day' ? `${payday.day}º dia útil` : `Dia ${payday.day}`;
+
+/**
+ * Date an income is expected in a month. Business days skip weekends (holidays are not known);
+ * days past the end of the month fall on its last (business) day.
+ */
+export const getPaydayDate = (payday: Payday, monthYear: string) => {
+  const first = parseISO(`${monthYear}-01`);
+  const daysInMonth = getDaysInMonth(first);
+  if (payday.kind === 'day') return format(setDate(first, Math.min(Math.max(payday.day, 1), daysInMonth)), 'yyyy-MM-dd');
+
+  let found = first;
+  let count = 0;
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = setDate(first, day);
+    if (isWeekend(date)) continue;
+    found = date;
+    if (++count >= payday.day) break;
+  }
+  return format(found, 'yyyy-MM-dd');
+};
+
+export const findIncomeReceipt = (receipts: IncomeReceipt[], incomeId: string, monthYear: string) =>
+  receipts.find(r => r.incomeId === incomeId && r.monthYear === monthYear);
+
+/** What an income adds to a month: the amount actually received once marked, the forecast until then. */
+export const getReceivedIncomeValue = (
+  income: Income,
+  monthYear: string,
+  receipts: IncomeReceipt[],
+  getIncomeValueForMonth: (income: Income, monthYear: string) => number
+) => {
+  const receipt = findIncomeReceipt(receipts, income.id, monthYear);
+  return receipt?.isReceived ? receipt.receivedValue : getIncomeValueForMonth(income, monthYear);
+};
+
+/** Expected vs. received for every income of a month, in payday order. */
+export const getIncomeMonthStatuses = (
+  incomes: Income[],
+  receipts: IncomeReceipt[],
+  monthYear: string,
+  getIncomeValueForMonth: (income: Income, monthYear: string) => number,
+  today = new Date()
+): IncomeMonthStatus[] => {
+  const todayKey = format(today, 'yyyy-MM-dd');
+  return incomes
+    .map(income => {
+      const receipt = findIncomeReceipt(receipts, income.id, monthYear);
+      const expected = getIncomeValueForMonth(income, monthYear);
+      const expectedDate = income.payday ? getPaydayDate(income.payday, monthYear) : undefined;
+      const isReceived = !!receipt?.isReceived;
+      return {
+        income,
+        expected,
+        expectedDate,
+        receipt,
+        received: isReceived ? receipt!.receivedValue : 0,
+        isLate: !isReceived && expected > 0 && !!expectedDate && expectedDate < todayKey,
+      };
+    })
+    .filter(status => status.expected > 0 || status.receipt?.isReceived)
+    .sort((a, b) => (a.expectedDate || '9999').localeCompare(b.expectedDate || '9999'));
+};
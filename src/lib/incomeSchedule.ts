@@ -0,0 +1,15 @@
+import { Income } from '../types';
+import { shiftMonth } from './cashFlow';
+
+export const getScheduleMonths = (startMonth: string, durationMonths: number) =>
+  Array.from({ length: Math.max(durationMonths, 0) }, (_, index) => shiftMonth(startMonth, index));
+
+/**
+ * Fields of a temporary income from its month-by-month values. The same value in every month
+ * is kept as a plain amount, so a schedule is only stored when the values really vary.
+ * Cleared fields are null so updates remove them.
+ */
+export const toTemporaryIncomeFields = (startMonth: string, values: number[]): Pick<Income, 'startMonth' | 'durationMonths' | 'amount' | 'schedule'> =>
+  values.every(value => value === values[0])
+    ? { startMonth, durationMonths: values.length, amount: values[0] || 0, schedule: null }
+    : { startMonth, durationMonths: values.length, amount: null, schedule: values.map((value, index) => ({ monthYear: shiftMonth(startMonth, index), value })) };
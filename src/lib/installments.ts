@@ -0,0 +1,20 @@
+import { CardPaymentStatus, Expense, ExpensePayment } from '../types';
+
+/** The parcels of one purchase, in order. */
+export const getInstallmentSeries = (expenses: Expense[], originalId: string) =>
+  expenses
+    .filter(expense => expense.originalId === originalId && expense.type === 'installment')
+    .sort((a, b) => (a.installments?.current || 0) - (b.installments?.current || 0));
+
+/** One-time charges that paid off parcels of the series in advance. */
+export const getInstallmentPayoffs = (expenses: Expense[], originalId: string) =>
+  expenses.filter(expense => expense.originalId === originalId && expense.type === 'one_time');
+
+/** A parcel is paid when marked on its own or when the card invoice it belongs to was paid. */
+export const isInstallmentPaid = (expense: Expense, expensePayments: ExpensePayment[], cardPayments: CardPaymentStatus[]) =>
+  expensePayments.some(p => p.expenseId === expense.id && p.monthYear === expense.billingMonth && p.isPaid) ||
+  cardPayments.some(p => p.cardId === expense.paymentMethod && p.monthYear === expense.billingMonth && p.isPaid);
+
+/** Unpaid parcels billed from the given month on. */
+export const getRemainingInstallments = (series: Expense[], fromMonth: string, expensePayments: ExpensePayment[], cardPayments: CardPaymentStatus[]) =>
+  series.filter(expense => expense.billingMonth >= fromMonth && !isInstallmentPaid(expense, expensePayments, cardPayments));
@@ -0,0 +1,55 @@
+import { Expense } from '../types';
+
+export interface InstallmentInterest {
+  cashPrice: number;
+  financedTotal: number;
+  interest: number;
+  monthlyRate: number; // effective rate per month, 0.0153 = 1,53% a.m.
+  cet: number; // annualized total cost, 0.199 = 19,9% a.a.
+}
+
+/** Monthly rate that makes `count` payments of `installment`, the first one month out, worth `cashPrice` today. */
+export const getMonthlyRate = (cashPrice: number, installment: number, count: number) => {
+  if (installment * count <= cashPrice) return 0;
+  const presentValue = (rate: number) => installment * (1 - Math.pow(1 + rate, -count)) / rate;
+  // The present value falls as the rate grows, so bisection converges
+  let low = 0;
+  let high = 1;
+  while (presentValue(high) > cashPrice) high *= 2;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(mid) > cashPrice) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+export const toAnnualRate = (monthlyRate: number) => Math.pow(1 + monthlyRate, 12) - 1;
+
+/** Interest of an installment purchase, or null when the cash price is unknown. */
+export const getInstallmentInterest = (cashPrice: number | undefined, installmentValue: number, count: number): InstallmentInterest | null => {
+  if (!cashPrice || cashPrice <= 0 || installmentValue <= 0 || count < 1) return null;
+  const financedTotal = installmentValue * count;
+  const monthlyRate = getMonthlyRate(cashPrice, installmentValue, count);
+  return {
+    cashPrice,
+    financedTotal,
+    interest: Math.max(financedTotal - cashPrice, 0),
+    monthlyRate,
+    cet: toAnnualRate(monthlyRate),
+  };
+};
+
+export const getExpenseInterest = (expense: Expense) =>
+  expense.type === 'installment' && expense.installments
+    ? getInstallmentInterest(expense.cashPrice, expense.installmentValue, expense.installments.total)
+    : null;
+
+/** Interest inside one parcel, spread evenly over the series. */
+export const getParcelInterest = (expense: Expense) => {
+  const interest = getExpenseInterest(expense);
+  return interest ? interest.interest / expense.installments!.total : 0;
+};
+
+export const formatRate = (rate: number) =>
+  `${(rate * 100).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}%`;
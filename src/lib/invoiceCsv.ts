@@ -0,0 +1,135 @@
+import { Expense } from '../types';
+
+export interface InvoiceRow {
+  date: string; // YYYY-MM-DD
+  description: string; // without the installment suffix
+  value: number;
+  installment?: { current: number; total: number };
+}
+
+export interface InvoiceCsv {
+  rows: InvoiceRow[];
+  // Payments and credits listed in the invoice, left out of the import
+  skippedCredits: number;
+}
+
+/** Decodes the raw file: UTF-8 when valid, otherwise Windows-1252 (common in Itaú exports). */
+export const decodeCsv = (buffer: ArrayBuffer) => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+const splitLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+// Header keywords of the Nubank (date,title,amount), Inter (Data;Lançamento;Categoria;Tipo;Valor) and Itaú (data,lançamento,valor) exports
+const COLUMN_PATTERNS = {
+  date: /^(data|date)/i,
+  description: /(lan[cç]amento|descri[cç][aã]o|title|estabelecimento|hist[oó]rico)/i,
+  value: /(valor|amount|value)/i,
+  type: /(tipo|parcela)/i,
+};
+
+const parseValue = (raw: string) => {
+  let value = raw.replace(/R\$|\s/g, '');
+  // 1.234,56 (Brazilian) or 1234.56
+  value = /,\d{1,2}$/.test(value) ? value.replace(/\./g, '').replace(',', '.') : value.replace(/,/g, '');
+  return parseFloat(value);
+};
+
+const parseDate = (raw: string) => {
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const br = raw.match(/^(\d{2})\/(\d{2})\/(\d{2,4})/);
+  if (!br) return '';
+  const year = br[3].length === 2 ? `20${br[3]}` : br[3];
+  return `${year}-${br[2]}-${br[1]}`;
+};
+
+const INSTALLMENT_PATTERN = /\s*-?\s*parcela\s*(\d{1,2})\s*(?:\/|de)\s*(\d{1,2})/i;
+// Itaú writes the installment as a trailing "03/10"
+const TRAILING_INSTALLMENT_PATTERN = /\s+(\d{1,2})\/(\d{1,2})$/;
+
+const parseInstallment = (description: string, type = '') => {
+  for (const [text, pattern] of [[description, INSTALLMENT_PATTERN], [type, INSTALLMENT_PATTERN], [description, TRAILING_INSTALLMENT_PATTERN]] as const) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const current = parseInt(match[1]);
+    const total = parseInt(match[2]);
+    if (total > 1 && current >= 1 && current <= total) {
+      return {
+        installment: { current, total },
+        description: text === description ? description.replace(pattern, '').trim() : description,
+      };
+    }
+  }
+  return { installment: undefined, description };
+};
+
+/** Parses a card invoice CSV. Throws a user-facing message when the layout is not recognized. */
+export const parseInvoiceCsv = (text: string): InvoiceCsv => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) throw new Error('O arquivo está vazio.');
+
+  const delimiter = lines[0].split(';').length > lines[0].split(',').length ? ';' : ',';
+  const header = splitLine(lines[0], delimiter);
+  const column = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+  const dateColumn = column(COLUMN_PATTERNS.date);
+  const descriptionColumn = column(COLUMN_PATTERNS.description);
+  const valueColumn = column(COLUMN_PATTERNS.value);
+  const typeColumn = column(COLUMN_PATTERNS.type);
+  if (dateColumn < 0 || descriptionColumn < 0 || valueColumn < 0) {
+    throw new Error('Formato não reconhecido. O CSV precisa das colunas de data, descrição e valor.');
+  }
+
+  let skippedCredits = 0;
+  const rows: InvoiceRow[] = [];
+  lines.slice(1).forEach(line => {
+    const cells = splitLine(line, delimiter);
+    const date = parseDate(cells[dateColumn] || '');
+    const value = parseValue(cells[valueColumn] || '');
+    if (!date || isNaN(value)) return;
+    if (value <= 0) {
+      skippedCredits++;
+      return;
+    }
+    const { installment, description } = parseInstallment(cells[descriptionColumn] || '', typeColumn >= 0 ? cells[typeColumn] : '');
+    rows.push({ date, description: description || 'Sem descrição', value, installment });
+  });
+
+  if (!rows.length) throw new Error('Nenhuma compra encontrada na fatura.');
+  return { rows, skippedCredits };
+};
+
+/** An installment of the same card, value and position already recorded in the invoice month. */
+export const findRecordedInstallment = (row: InvoiceRow, cardId: string, billingMonth: string, expenses: Expense[]) =>
+  row.installment && expenses.find(expense =>
+    expense.type === 'installment' &&
+    expense.paymentMethod === cardId &&
+    expense.billingMonth === billingMonth &&
+    expense.installments?.current === row.installment!.current &&
+    expense.installments?.total === row.installment!.total &&
+    Math.abs(expense.installmentValue - row.value) < 0.01
+  );
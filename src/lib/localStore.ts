@@ -0,0 +1,185 @@
+import { TABLES, TableName, RecordKey, recordKey } from './mappers';
+
+export type OutboxOperation = 'insert' | 'update' | 'delete';
+
+/** State of one record; `record` is undefined when it did not exist. */
+export interface RecordSnapshot {
+  key: RecordKey;
+  record?: any;
+}
+
+/** A mutation already applied locally that still has to reach the cloud. */
+export interface OutboxEntry {
+  seq?: number;
+  table: TableName;
+  op: OutboxOperation;
+  records?: any[]; // insert
+  key?: RecordKey; // update / delete
+  keys?: RecordKey[]; // delete of several records at once
+  changes?: Record<string, any>; // update
+  label?: string; // what the user did, for error messages
+  before?: RecordSnapshot[]; // records as they were, to roll back a rejected write
+  createdAt: string;
+}
+
+export type NewOutboxEntry = Omit<OutboxEntry, 'seq' | 'before' | 'createdAt'>;
+
+/** Keys of the records an entry touches. */
+export const entryKeys = (entry: Pick<OutboxEntry, 'table' | 'op' | 'records' | 'key' | 'keys'>): RecordKey[] =>
+  entry.op === 'insert'
+    ? (entry.records || []).map(record => recordKey(entry.table, record))
+    : entry.keys || (entry.key !== undefined ? [entry.key] : []);
+
+// Bumped whenever a table is added, so existing databases get its object store
+const DB_VERSION = 5;
+const OUTBOX = 'outbox';
+
+const promisify = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = (name: string) => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    TABLES.forEach(table => {
+      if (db.objectStoreNames.contains(table)) return;
+      db.createObjectStore(table, { keyPath: table === 'card_payments' ? ['cardId', 'monthYear'] : 'id' });
+    });
+    if (!db.objectStoreNames.contains(OUTBOX)) {
+      db.createObjectStore(OUTBOX, { keyPath: 'seq', autoIncrement: true });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const snapshot = async (store: IDBObjectStore, keys: RecordKey[]): Promise<RecordSnapshot[]> =>
+  Promise.all(keys.map(async key => ({ key, record: await promisify(store.get(key)) })));
+
+/** Applies an outbox operation to a table's object store. */
+const applyToStore = async (store: IDBObjectStore, entry: OutboxEntry) => {
+  if (entry.op === 'insert') {
+    (entry.records || []).forEach(record => store.put(record));
+  } else if (entry.op === 'update' && entry.key !== undefined) {
+    const current = await promisify(store.get(entry.key));
+    if (current) store.put({ ...current, ...entry.changes });
+  } else if (entry.op === 'delete') {
+    entryKeys(entry).forEach(key => store.delete(key));
+  }
+};
+
+/** Opens (or creates) the local database of a user. Each account gets its own database. */
+export const openLocalStore = async (userId: string) => {
+  const db = await openDatabase(`fluxonext-${userId}`);
+
+  const getAll = async <T = any,>(table: TableName): Promise<T[]> => {
+    const tx = db.transaction(table, 'readonly');
+    return promisify(tx.objectStore(table).getAll());
+  };
+
+  // Replaces a table with a fresh copy from the cloud
+  const replaceAll = async (table: TableName, records: any[]) => {
+    const tx = db.transaction(table, 'readwrite');
+    const store = tx.objectStore(table);
+    store.clear();
+    records.forEach(record => store.put(record));
+    await transactionDone(tx);
+  };
+
+  // Applies a mutation locally and queues it for replay, atomically. Returns the touched records before and after.
+  const commit = async (entry: NewOutboxEntry): Promise<{ before: RecordSnapshot[]; after: RecordSnapshot[] }> => {
+    const tx = db.transaction([entry.table, OUTBOX], 'readwrite');
+    const store = tx.objectStore(entry.table);
+    const keys = entryKeys(entry);
+    const before = await snapshot(store, keys);
+    const queued: OutboxEntry = { ...entry, before, createdAt: new Date().toISOString() };
+    await applyToStore(store, queued);
+    const after = await snapshot(store, keys);
+    tx.objectStore(OUTBOX).add(queued);
+    await transactionDone(tx);
+    return { before, after };
+  };
+
+  // Undoes rejected entries (newest first) and drops them from the outbox
+  const rollback = async (entries: OutboxEntry[]) => {
+    const tables = Array.from(new Set(entries.map(entry => entry.table)));
+    const tx = db.transaction([...tables, OUTBOX], 'readwrite');
+    [...entries].sort((a, b) => b.seq! - a.seq!).forEach(entry => {
+      const store = tx.objectStore(entry.table);
+      (entry.before || []).forEach(({ key, record }) => {
+        if (record) store.put(record);
+        else store.delete(key);
+      });
+      tx.objectStore(OUTBOX).delete(entry.seq!);
+    });
+    await transactionDone(tx);
+  };
+
+  // Re-applies queued mutations on top of data just pulled from the cloud
+  const reapply = async (entries: OutboxEntry[]) => {
+    for (const entry of entries) {
+      const tx = db.transaction(entry.table, 'readwrite');
+      await applyToStore(tx.objectStore(entry.table), entry);
+      await transactionDone(tx);
+    }
+  };
+
+  // Realtime changes from the cloud touch a single record, outside the outbox
+  const put = async <T = any,>(table: TableName, record: Partial<T>): Promise<T> => {
+    const tx = db.transaction(table, 'readwrite');
+    const store = tx.objectStore(table);
+    const current = await promisify(store.get(recordKey(table, record)));
+    const merged = { ...current, ...record };
+    store.put(merged);
+    await transactionDone(tx);
+    return merged;
+  };
+
+  const remove = async (table: TableName, key: RecordKey) => {
+    const tx = db.transaction(table, 'readwrite');
+    tx.objectStore(table).delete(key);
+    await transactionDone(tx);
+  };
+
+  const listOutbox = async (): Promise<OutboxEntry[]> => {
+    const tx = db.transaction(OUTBOX, 'readonly');
+    return promisify(tx.objectStore(OUTBOX).getAll());
+  };
+
+  const removeFromOutbox = async (seq: number) => {
+    const tx = db.transaction(OUTBOX, 'readwrite');
+    tx.objectStore(OUTBOX).delete(seq);
+    await transactionDone(tx);
+  };
+
+  return { getAll, replaceAll, commit, rollback, reapply, put, remove, listOutbox, removeFromOutbox, close: () => db.close() };
+};
+
+export type LocalStore = Awaited<ReturnType<typeof openLocalStore>>;
+
+/**
+ * Entries that take the records of `current` back to `target` (undo and redo). The whole record is
+ * restored: fields the target lacks are sent as null, so a field the action added is cleared.
+ */
+export const restoreEntries = (table: TableName, target: RecordSnapshot[], current: RecordSnapshot[]): Omit<NewOutboxEntry, 'label'>[] => {
+  const inserts: any[] = [];
+  const entries: Omit<NewOutboxEntry, 'label'>[] = [];
+  target.forEach(({ key, record }, index) => {
+    const existing = current[index]?.record;
+    if (record && existing) {
+      const cleared = Object.fromEntries(Object.keys(existing).filter(field => !(field in record)).map(field => [field, null]));
+      entries.push({ table, op: 'update', key, changes: { ...cleared, ...record } });
+    }
+    else if (record) inserts.push(record);
+    else if (existing) entries.push({ table, op: 'delete', key });
+  });
+  return inserts.length ? [{ table, op: 'insert', records: inserts }, ...entries] : entries;
+};
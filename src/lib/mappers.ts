@@ -0,0 +1,155 @@
+import { Income, Expense, Category, CreditCard, Account, Transfer, CardPaymentStatus, ExpensePayment, IncomeReceipt, UserSettings } from '../types';
+
+// Tabelas espelhadas localmente e na nuvem
+export type TableName = 'expenses' | 'incomes' | 'cards' | 'accounts' | 'transfers' | 'categories' | 'card_payments' | 'expense_payments' | 'income_receipts' | 'settings';
+
+export const TABLES: TableName[] = ['expenses', 'incomes', 'cards', 'accounts', 'transfers', 'categories', 'card_payments', 'expense_payments', 'income_receipts', 'settings'];
+
+export interface TableRecords {
+  expenses: Expense;
+  incomes: Income;
+  cards: CreditCard;
+  accounts: Account;
+  transfers: Transfer;
+  categories: Category;
+  card_payments: CardPaymentStatus;
+  expense_payments: ExpensePayment;
+  income_receipts: IncomeReceipt;
+  settings: UserSettings;
+}
+
+// card_payments has no id of its own: a card has one payment status per month
+export type RecordKey = string | [string, string];
+
+export const recordKey = (table: TableName, record: any): RecordKey =>
+  table === 'card_payments' ? [record.cardId, record.monthYear] : record.id;
+
+// camelCase field -> snake_case column
+const COLUMNS: Record<TableName, Record<string, string>> = {
+  expenses: {
+    id: 'id',
+    title: 'title',
+    categoryId: 'category_id',
+    type: 'type',
+    purchaseDate: 'purchase_date',
+    billingMonth: 'billing_month',
+    isInstallment: 'is_installment',
+    totalValue: 'total_value',
+    installmentValue: 'installment_value',
+    cashPrice: 'cash_price',
+    paymentMethod: 'payment_method',
+    isPaid: 'is_paid',
+    originalId: 'original_id',
+    refundOf: 'refund_of',
+    valueHistory: 'value_history',
+    recurrence: 'recurrence',
+    createdAt: 'created_at',
+  },
+  incomes: {
+    id: 'id',
+    title: 'title',
+    categoryId: 'category_id',
+    paymentMethod: 'payment_method',
+    type: 'type',
+    amount: 'amount',
+    startMonth: 'start_month',
+    durationMonths: 'duration_months',
+    schedule: 'schedule',
+    valueHistory: 'value_history',
+    endMonth: 'end_month',
+    payday: 'payday',
+    salaryExtra: 'salary_extra',
+  },
+  cards: {
+    id: 'id',
+    name: 'name',
+    closingDay: 'closing_day',
+    dueDay: 'due_day',
+    color: 'color',
+    limit: 'credit_limit',
+    revolvingRate: 'revolving_rate',
+  },
+  accounts: {
+    id: 'id',
+    name: 'name',
+    type: 'type',
+    color: 'color',
+    openingBalance: 'opening_balance',
+    openingMonth: 'opening_month',
+  },
+  transfers: {
+    id: 'id',
+    fromAccountId: 'from_account_id',
+    toAccountId: 'to_account_id',
+    amount: 'amount',
+    date: 'date',
+    description: 'description',
+  },
+  categories: {
+    id: 'id',
+    name: 'name',
+    color: 'color',
+    type: 'type',
+    budget: 'budget',
+    budgetHistory: 'budget_history',
+  },
+  card_payments: {
+    cardId: 'card_id',
+    monthYear: 'month_year',
+    isPaid: 'is_paid',
+    paidAmount: 'paid_amount',
+    paidAt: 'paid_at',
+    rollover: 'rollover',
+    accountId: 'account_id',
+  },
+  expense_payments: {
+    id: 'id',
+    expenseId: 'expense_id',
+    monthYear: 'month_year',
+    isPaid: 'is_paid',
+    paidValue: 'paid_value',
+  },
+  income_receipts: {
+    id: 'id',
+    incomeId: 'income_id',
+    monthYear: 'month_year',
+    isReceived: 'is_received',
+    receivedValue: 'received_value',
+    receivedAt: 'received_at',
+  },
+  settings: {
+    id: 'id',
+    openingBalance: 'opening_balance',
+    openingMonth: 'opening_month',
+  },
+};
+
+const NUMERIC_COLUMNS = new Set(['total_value', 'installment_value', 'cash_price', 'credit_limit', 'revolving_rate', 'amount', 'paid_value', 'received_value', 'paid_amount', 'opening_balance', 'budget']);
+
+/** Converts a (partial) record to a database row. Undefined fields are left out so updates only touch what changed. */
+export const toRow = (table: TableName, record: Record<string, any>): Record<string, any> => {
+  const row: Record<string, any> = {};
+  Object.entries(COLUMNS[table]).forEach(([field, column]) => {
+    if (record[field] !== undefined) row[column] = record[field];
+  });
+  // null clears the parcel position, like any other field
+  if (table === 'expenses' && record.installments !== undefined) {
+    row.installments_current = record.installments?.current ?? null;
+    row.installments_total = record.installments?.total ?? null;
+  }
+  return row;
+};
+
+/** Converts a database row back to the app's camelCase shape. */
+export const fromRow = <T extends TableName>(table: T, row: Record<string, any>): TableRecords[T] => {
+  const record: Record<string, any> = {};
+  Object.entries(COLUMNS[table]).forEach(([field, column]) => {
+    const value = row[column];
+    if (value === null || value === undefined) return;
+    record[field] = NUMERIC_COLUMNS.has(column) ? Number(value) : value;
+  });
+  if (table === 'expenses' && row.installments_current) {
+    record.installments = { current: row.installments_current, total: row.installments_total };
+  }
+  return record as TableRecords[T];
+};
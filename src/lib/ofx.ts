@@ -0,0 +1,184 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { Category, CreditCard, Expense, ExpensePayment, Income } from '../types';
+import { CardInvoice } from './cardInvoice';
+import { shiftMonth } from './cashFlow';
+
+export interface OfxTransaction {
+  id: string; // FITID
+  type: string; // TRNTYPE (DEBIT, CREDIT, PAYMENT...)
+  date: string; // YYYY-MM-DD
+  amount: number; // negative = money out
+  description: string;
+}
+
+export interface OfxStatement {
+  kind: 'bank' | 'card';
+  transactions: OfxTransaction[];
+}
+
+// Days between the statement date and the recorded purchase date still considered the same entry
+export const MATCH_WINDOW_DAYS = 3;
+
+/** Decodes the raw file; Brazilian banks usually export OFX 1.x in Windows-1252. */
+export const decodeOfx = (buffer: ArrayBuffer) => {
+  const head = new TextDecoder('ascii').decode(buffer.slice(0, 512));
+  const latin = /CHARSET:\s*(1252|ISO-8859-1)/i.test(head) || /ENCODING="?(USASCII|windows-1252)/i.test(head);
+  return new TextDecoder(latin ? 'windows-1252' : 'utf-8').decode(buffer);
+};
+
+const decodeEntities = (value: string) => value
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// Works for both SGML (OFX 1.x, unclosed tags) and XML (OFX 2.x)
+const field = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+};
+
+const parseDate = (value: string) => {
+  const digits = value.replace(/\D/g, '').slice(0, 8);
+  return digits.length === 8 ? `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}` : '';
+};
+
+/** Parses the STMTTRN entries of an OFX file. Throws a user-facing message when nothing can be read. */
+export const parseOfx = (text: string): OfxStatement => {
+  if (!/<OFX>/i.test(text)) throw new Error('O arquivo não parece ser um extrato OFX.');
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]);
+  const transactions = blocks.map((block, index) => {
+    const name = field(block, 'NAME');
+    const memo = field(block, 'MEMO');
+    return {
+      id: field(block, 'FITID') || `linha-${index + 1}`,
+      type: field(block, 'TRNTYPE').toUpperCase(),
+      date: parseDate(field(block, 'DTPOSTED')),
+      amount: parseFloat(field(block, 'TRNAMT').replace(',', '.')),
+      // Some banks put the description in MEMO, others in NAME
+      description: (memo && memo !== name ? (name ? `${name} - ${memo}` : memo) : name) || 'Sem descrição',
+    };
+  }).filter(tx => tx.date && !isNaN(tx.amount) && tx.amount !== 0);
+
+  if (!transactions.length) throw new Error('Nenhum lançamento encontrado no extrato.');
+  return { kind: /<CREDITCARDMSGSRSV1>|<CCSTMTRS>/i.test(text) ? 'card' : 'bank', transactions };
+};
+
+const normalize = (value: string) => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9 ]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const words = (value: string) => normalize(value).split(' ').filter(word => word.length > 2 && !/^\d+$/.test(word));
+
+/** Suggests a category: first from past entries with a similar title, then from category names in the description. */
+export const guessCategoryId = (description: string, categories: Category[], history: { title: string; categoryId: string }[]) => {
+  const target = words(description);
+  if (!target.length) return undefined;
+  const best = history
+    .filter(item => categories.some(c => c.id === item.categoryId))
+    .map(item => ({ item, score: words(item.title).filter(word => target.includes(word)).length }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)[0];
+  if (best) return best.item.categoryId;
+  return categories.find(c => words(c.name).some(word => target.includes(word)))?.id;
+};
+
+const sameValue = (a: number, b: number) => Math.abs(a - b) < 0.01;
+
+const withinWindow = (a: string, b?: string) =>
+  !!b && Math.abs(differenceInCalendarDays(parseISO(a), parseISO(b))) <= MATCH_WINDOW_DAYS;
+
+export interface ExpenseMatch {
+  expense: Expense;
+  monthYear: string;
+  isPaid: boolean;
+}
+
+/**
+ * Looks for an expense already recorded for a statement debit: same value and payment method,
+ * and either a purchase date within the window (one-time) or an entry due in the line's invoice month.
+ * `taken` holds "expenseId|monthYear" pairs already claimed by other statement lines.
+ */
+export const findExpenseMatch = (
+  tx: OfxTransaction,
+  paymentMethod: string,
+  expenses: Expense[],
+  expensePayments: ExpensePayment[],
+  getExpenseValueForMonth: (expense: Expense, monthYear: string) => { value: number; paymentMethod: string },
+  billingMonth: string,
+  taken: Set<string>
+): ExpenseMatch | undefined => {
+  const value = Math.abs(tx.amount);
+
+  for (const expense of expenses) {
+    if (expense.type === 'one_time') {
+      if (taken.has(`${expense.id}|${expense.billingMonth}`)) continue;
+      if (expense.paymentMethod === paymentMethod && sameValue(expense.installmentValue, value) && withinWindow(tx.date, expense.purchaseDate)) {
+        return { expense, monthYear: expense.billingMonth, isPaid: expense.isPaid };
+      }
+      continue;
+    }
+
+    // Fixed entries repeat every month and installments have one entry per invoice: match the line's month
+    if (expense.type === 'installment' && expense.billingMonth !== billingMonth) continue;
+    if (taken.has(`${expense.id}|${billingMonth}`)) continue;
+    const due = getExpenseValueForMonth(expense, billingMonth);
+    const dueMethod = expense.type === 'fixed' ? due.paymentMethod : expense.paymentMethod;
+    if (dueMethod === paymentMethod && due.value > 0 && sameValue(due.value, value)) {
+      const payment = expensePayments.find(p => p.expenseId === expense.id && p.monthYear === billingMonth);
+      return { expense, monthYear: billingMonth, isPaid: !!payment?.isPaid };
+    }
+  }
+  return undefined;
+};
+
+/** Finds an income that already accounts for a statement credit in that month. */
+export const findIncomeMatch = (
+  tx: OfxTransaction,
+  incomes: Income[],
+  getIncomeValueForMonth: (income: Income, monthYear: string) => number,
+  taken: Set<string>
+) => {
+  const monthYear = tx.date.slice(0, 7);
+  return incomes.find(income =>
+    !taken.has(`${income.id}|${monthYear}`) && sameValue(getIncomeValueForMonth(income, monthYear), tx.amount)
+  );
+};
+
+export interface InvoiceMatch {
+  cardId: string;
+  monthYear: string;
+  paid: number; // already paid before this line
+  isPaid: boolean;
+}
+
+/**
+ * Finds the card invoice a bank debit pays: an invoice due in the line's month (or the next one,
+ * when paid early) whose total or open remainder matches the value. Paying it only moves money to the card.
+ * `taken` holds "cardId|monthYear" pairs already claimed by other statement lines.
+ */
+export const findInvoiceMatch = (
+  tx: OfxTransaction,
+  cards: CreditCard[],
+  getCardInvoice: (cardId: string, monthYear: string) => CardInvoice | null,
+  taken: Set<string>
+): InvoiceMatch | undefined => {
+  const value = Math.abs(tx.amount);
+  const monthYear = tx.date.slice(0, 7);
+  for (const month of [monthYear, shiftMonth(monthYear, 1)]) {
+    for (const card of cards) {
+      if (taken.has(`${card.id}|${month}`)) continue;
+      const invoice = getCardInvoice(card.id, month);
+      if (invoice && invoice.total > 0 && (sameValue(invoice.total, value) || sameValue(invoice.remaining, value))) {
+        return { cardId: card.id, monthYear: month, paid: invoice.paid, isPaid: invoice.isPaid };
+      }
+    }
+  }
+  return undefined;
+};
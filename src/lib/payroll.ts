@@ -0,0 +1,151 @@
+import { Income, PayrollBreakdown, PayrollInput, SalaryExtraKind } from '../types';
+import { getIncomeDestination } from './accounts';
+
+interface PayrollTable {
+  from: string; // YYYY-MM the table applies from
+  inss: { upTo: number; rate: number }[]; // progressive, the last bracket is the contribution ceiling
+  irrf: { upTo: number; rate: number; deduction: number }[];
+  dependentDeduction: number;
+  simplifiedDeduction: number; // desconto simplificado, used instead of INSS + dependents when larger
+  // Lei 15.270/2025: tax cut for monthly income up to `exemptUpTo`, phased out until `phaseOutUpTo`
+  reduction?: { exemptUpTo: number; phaseOutUpTo: number; base: number; factor: number };
+}
+
+// Official INSS and IRRF tables, newest last; add the new one when the government publishes it
+const PAYROLL_TABLES: PayrollTable[] = [
+  {
+    from: '2025-05',
+    inss: [
+      { upTo: 1518.00, rate: 0.075 },
+      { upTo: 2793.88, rate: 0.09 },
+      { upTo: 4190.83, rate: 0.12 },
+      { upTo: 8157.41, rate: 0.14 },
+    ],
+    irrf: [
+      { upTo: 2428.80, rate: 0, deduction: 0 },
+      { upTo: 2826.65, rate: 0.075, deduction: 182.16 },
+      { upTo: 3751.05, rate: 0.15, deduction: 394.16 },
+      { upTo: 4664.68, rate: 0.225, deduction: 675.49 },
+      { upTo: Infinity, rate: 0.275, deduction: 908.73 },
+    ],
+    dependentDeduction: 189.59,
+    simplifiedDeduction: 607.20,
+  },
+  {
+    from: '2026-01',
+    inss: [
+      { upTo: 1621.00, rate: 0.075 },
+      { upTo: 2902.84, rate: 0.09 },
+      { upTo: 4354.27, rate: 0.12 },
+      { upTo: 8475.55, rate: 0.14 },
+    ],
+    irrf: [
+      { upTo: 2428.80, rate: 0, deduction: 0 },
+      { upTo: 2826.65, rate: 0.075, deduction: 182.16 },
+      { upTo: 3751.05, rate: 0.15, deduction: 394.16 },
+      { upTo: 4664.68, rate: 0.225, deduction: 675.49 },
+      { upTo: Infinity, rate: 0.275, deduction: 908.73 },
+    ],
+    dependentDeduction: 189.59,
+    simplifiedDeduction: 607.20,
+    reduction: { exemptUpTo: 5000, phaseOutUpTo: 7350, base: 978.62, factor: 0.133145 },
+  },
+];
+
+export const SALARY_EXTRA_LABELS: Record<SalaryExtraKind, string> = {
+  thirteenth_first: '13º salário (1ª parcela)',
+  thirteenth_second: '13º salário (2ª parcela)',
+  vacation: 'Férias (+1/3)',
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Months before the first table use it as well
+const getPayrollTable = (monthYear: string) =>
+  [...PAYROLL_TABLES].reverse().find(table => table.from <= monthYear) || PAYROLL_TABLES[0];
+
+export const computeInss = (gross: number, monthYear: string) => {
+  let previous = 0;
+  const total = getPayrollTable(monthYear).inss.reduce((acc, bracket) => {
+    const taxed = Math.min(gross, bracket.upTo) - previous;
+    previous = bracket.upTo;
+    return taxed > 0 ? acc + taxed * bracket.rate : acc;
+  }, 0);
+  return roundCents(total);
+};
+
+/** Income tax withheld on a taxable amount, picking the larger of the legal and the simplified deductions. */
+export const computeIrrf = (taxable: number, inss: number, dependents: number, monthYear: string) => {
+  const table = getPayrollTable(monthYear);
+  const legalBase = taxable - inss - dependents * table.dependentDeduction;
+  const base = Math.max(Math.min(legalBase, taxable - table.simplifiedDeduction), 0);
+  const bracket = table.irrf.find(b => base <= b.upTo)!;
+  let tax = base * bracket.rate - bracket.deduction;
+
+  const { reduction } = table;
+  if (reduction && taxable <= reduction.exemptUpTo) tax = 0;
+  else if (reduction && taxable <= reduction.phaseOutUpTo) tax -= reduction.base - reduction.factor * taxable;
+  return roundCents(Math.max(tax, 0));
+};
+
+/** Net pay of a monthly salary: gross minus INSS, IRRF, health plan and other deductions. */
+export const computePayroll = (input: PayrollInput, monthYear: string): PayrollBreakdown => {
+  const inss = computeInss(input.gross, monthYear);
+  const irrf = computeIrrf(input.gross, inss, input.dependents, monthYear);
+  return { ...input, inss, irrf, net: roundCents(input.gross - inss - irrf - input.healthPlan - input.otherDeductions) };
+};
+
+/** Payroll behind a salary income's value in a month, following its history like the value itself. */
+export const getSalaryPayroll = (income: Income, monthYear: string): PayrollBreakdown | undefined => {
+  const history = (income.valueHistory || []).filter(h => h.payroll);
+  const applicable = history.filter(h => h.monthYear <= monthYear).sort((a, b) => b.monthYear.localeCompare(a.monthYear))[0] || history[0];
+  return applicable?.payroll;
+};
+
+export const isSalaryIncome = (income: Income) => income.type === 'fixed' && !!income.valueHistory?.some(h => h.payroll);
+
+/**
+ * 13º salário and vacation pay of a salary in a year, as one-month incomes.
+ * The 13º is based on December's salary: half paid by November 30 without deductions,
+ * the rest by December 20 minus INSS and IRRF, which are taxed apart from the salary.
+ * Vacation pay (salary + 1/3) is taxed on its own and paid before the vacation starts;
+ * since it stands in for that month's salary, only what it adds on top of the regular net pay is generated.
+ */
+export const buildSalaryExtras = (salary: Income, year: number, vacationMonth?: string): Omit<Income, 'id'>[] => {
+  const extra = (kind: SalaryExtraKind, monthYear: string, amount: number, payday?: Income['payday']): Omit<Income, 'id'> => ({
+    title: `${SALARY_EXTRA_LABELS[kind]} - ${salary.title}`,
+    categoryId: salary.categoryId,
+    type: 'temporary',
+    paymentMethod: getIncomeDestination(salary, monthYear),
+    amount: roundCents(amount),
+    startMonth: monthYear,
+    durationMonths: 1,
+    payday,
+    salaryExtra: { salaryId: salary.id, kind, year },
+  });
+  const extras: Omit<Income, 'id'>[] = [];
+
+  const december = `${year}-12`;
+  const payroll = getSalaryPayroll(salary, december);
+  const isActiveInDecember = (salary.valueHistory?.[0]?.monthYear || december) <= december && !(salary.endMonth && salary.endMonth < december);
+  if (payroll && isActiveInDecember) {
+    const first = payroll.gross / 2;
+    const inss = computeInss(payroll.gross, december);
+    const irrf = computeIrrf(payroll.gross, inss, payroll.dependents, december);
+    extras.push(
+      extra('thirteenth_first', `${year}-11`, first, { kind: 'day', day: 30 }),
+      extra('thirteenth_second', december, payroll.gross - first - inss - irrf, { kind: 'day', day: 20 })
+    );
+  }
+
+  const vacationPayroll = vacationMonth && getSalaryPayroll(salary, vacationMonth);
+  if (vacationPayroll) {
+    const total = vacationPayroll.gross * 4 / 3;
+    const inss = computeInss(total, vacationMonth);
+    const irrf = computeIrrf(total, inss, vacationPayroll.dependents, vacationMonth);
+    const regular = computePayroll(vacationPayroll, vacationMonth);
+    const added = total - inss - irrf - (regular.gross - regular.inss - regular.irrf);
+    if (added > 0) extras.push(extra('vacation', vacationMonth, added));
+  }
+  return extras;
+};
@@ -0,0 +1,63 @@
+import { addMonths, differenceInCalendarMonths, format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Expense, Recurrence, RecurrenceFrequency } from '../types';
+
+// Months between occurrences; 'custom' uses the listed months instead
+const INTERVALS: Record<Exclude<RecurrenceFrequency, 'custom'>, number> = {
+  monthly: 1,
+  bimonthly: 2,
+  quarterly: 3,
+  semiannual: 6,
+  annual: 12,
+};
+
+export const RECURRENCE_LABELS: Record<RecurrenceFrequency, string> = {
+  monthly: 'Mensal',
+  bimonthly: 'Bimestral',
+  quarterly: 'Trimestral',
+  semiannual: 'Semestral',
+  annual: 'Anual',
+  custom: 'Meses específicos',
+};
+
+export const monthName = (month: number) => format(new Date(2024, month - 1, 1), 'MMM', { locale: ptBR });
+
+// Without an explicit start, intervals count from the first value recorded
+const anchorMonth = (expense: Expense) =>
+  expense.recurrence?.startMonth ||
+  [...(expense.valueHistory || [])].sort((a, b) => a.monthYear.localeCompare(b.monthYear))[0]?.monthYear ||
+  expense.billingMonth;
+
+/** Whether a fixed expense has an occurrence in the month. Expenses without a rule repeat every month. */
+export const isExpenseDueInMonth = (expense: Expense, monthYear: string) => {
+  const recurrence = expense.recurrence;
+  if (!recurrence) return true;
+  if (recurrence.startMonth && monthYear < recurrence.startMonth) return false;
+  if (recurrence.endMonth && monthYear > recurrence.endMonth) return false;
+  if (recurrence.frequency === 'custom') {
+    return (recurrence.months || []).includes(parseInt(monthYear.slice(5, 7)));
+  }
+  const interval = INTERVALS[recurrence.frequency] || 1;
+  const offset = differenceInCalendarMonths(parseISO(`${monthYear}-01`), parseISO(`${anchorMonth(expense)}-01`));
+  return ((offset % interval) + interval) % interval === 0;
+};
+
+/** Short description such as "Anual • até dez/2027" or "Meses específicos: mar, set". */
+export const describeRecurrence = (recurrence?: Recurrence) => {
+  if (!recurrence) return RECURRENCE_LABELS.monthly;
+  const base = recurrence.frequency === 'custom'
+    ? `${RECURRENCE_LABELS.custom}: ${[...(recurrence.months || [])].sort((a, b) => a - b).map(monthName).join(', ')}`
+    : RECURRENCE_LABELS[recurrence.frequency];
+  return recurrence.endMonth
+    ? `${base} • até ${format(parseISO(`${recurrence.endMonth}-01`), 'MMM/yyyy', { locale: ptBR })}`
+    : base;
+};
+
+/** Last month of a fixed item cancelled from `fromMonth` on (the month before it). */
+export const endMonthBefore = (fromMonth: string) => format(addMonths(parseISO(`${fromMonth}-01`), -1), 'yyyy-MM');
+
+/** Last month of a fixed expense; its end lives only in the recurrence rule. */
+export const getExpenseEndMonth = (expense: Expense) => expense.recurrence?.endMonth;
+
+/** Fixed items whose end month has passed are archived. */
+export const isArchived = (endMonth: string | undefined, today = new Date()) => !!endMonth && endMonth < format(today, 'yyyy-MM');
@@ -0,0 +1,26 @@
+import { BackendName, FinanceRepository } from './types';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createMemoryRepository } from './memoryRepository';
+import { createRestRepository } from './restRepository';
+
+export * from './types';
+export { createSupabaseRepository, createMemoryRepository, createRestRepository };
+
+const env = (import.meta as any).env || {};
+
+/** Picks the storage backend from VITE_FINANCE_BACKEND (supabase, memory or rest). */
+export const createRepository = (backend: BackendName = env.VITE_FINANCE_BACKEND || 'supabase'): FinanceRepository => {
+  switch (backend) {
+    case 'memory':
+      return createMemoryRepository();
+    case 'rest':
+      return createRestRepository(env.VITE_API_URL || '/api');
+    case 'supabase':
+      return createSupabaseRepository();
+    default:
+      console.warn(`Unknown VITE_FINANCE_BACKEND "${backend}", falling back to Supabase.`);
+      return createSupabaseRepository();
+  }
+};
+
+export const repository = createRepository();
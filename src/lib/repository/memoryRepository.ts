@@ -0,0 +1,80 @@
+import { TABLES, TableName, RecordKey, recordKey } from '../mappers';
+import { FinanceRepository, FinanceUser, RepositoryChange, TableRepository } from './types';
+
+const LOCAL_USER: FinanceUser = { id: 'local', email: 'local@fluxonext' };
+
+const keyString = (key: RecordKey) => (Array.isArray(key) ? key.join('|') : key);
+
+/**
+ * Keeps everything in memory for the lifetime of the page. Useful for demos and
+ * tests: no Supabase project, server or login required.
+ */
+export const createMemoryRepository = (): FinanceRepository => {
+  // userId -> table -> key -> record
+  const data = new Map<string, Map<TableName, Map<string, any>>>();
+  const listeners = new Set<{ userId: string; onChange: (change: RepositoryChange) => void }>();
+  const authListeners = new Set<(user: FinanceUser | null) => void>();
+  let currentUser: FinanceUser | null = LOCAL_USER;
+
+  const rowsOf = (userId: string, table: TableName) => {
+    if (!data.has(userId)) data.set(userId, new Map(TABLES.map(t => [t, new Map()])));
+    return data.get(userId)!.get(table)!;
+  };
+
+  const emit = (userId: string, change: RepositoryChange) => listeners.forEach(listener => {
+    if (listener.userId === userId) listener.onChange(change);
+  });
+
+  const createTable = <T extends TableName>(table: T): TableRepository<T> => ({
+    list: async (userId) => Array.from(rowsOf(userId, table).values()).map(record => ({ ...record })),
+    insert: async (userId, records) => {
+      records.forEach(record => {
+        const key = keyString(recordKey(table, record));
+        const old = rowsOf(userId, table).get(key);
+        rowsOf(userId, table).set(key, { ...record });
+        emit(userId, { table, type: old ? 'UPDATE' : 'INSERT', new: { ...record }, old });
+      });
+    },
+    update: async (userId, key, changes) => {
+      const rows = rowsOf(userId, table);
+      const old = rows.get(keyString(key));
+      if (!old) return;
+      const updated = { ...old, ...changes };
+      rows.set(keyString(key), updated);
+      emit(userId, { table, type: 'UPDATE', new: { ...updated }, old });
+    },
+    delete: async (userId, keys) => {
+      const rows = rowsOf(userId, table);
+      keys.forEach(key => {
+        const old = rows.get(keyString(key));
+        if (!old) return;
+        rows.delete(keyString(key));
+        emit(userId, { table, type: 'DELETE', old });
+      });
+    },
+  });
+
+  const setUser = (user: FinanceUser | null) => {
+    currentUser = user;
+    authListeners.forEach(listener => listener(user));
+  };
+
+  return {
+    backend: 'memory',
+    auth: {
+      getUser: async () => currentUser,
+      onChange: (callback) => {
+        authListeners.add(callback);
+        return () => authListeners.delete(callback);
+      },
+      signIn: async (email) => setUser({ id: email, email }),
+      signOut: async () => setUser(LOCAL_USER),
+    },
+    tables: Object.fromEntries(TABLES.map(table => [table, createTable(table)])) as FinanceRepository['tables'],
+    subscribe: (userId, onChange) => {
+      const listener = { userId, onChange };
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
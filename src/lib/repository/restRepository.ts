@@ -0,0 +1,119 @@
+import { TABLES, TableName, RecordKey, fromRow, toRow } from '../mappers';
+import { FinanceRepository, FinanceUser, RepositoryError, TableRepository } from './types';
+
+const TOKEN_KEY = 'fluxonext-token';
+
+const keyPath = (key: RecordKey) =>
+  Array.isArray(key) ? key.map(encodeURIComponent).join('/') : encodeURIComponent(key);
+
+const keyRow = (table: TableName, key: RecordKey) =>
+  table === 'card_payments' && Array.isArray(key) ? { card_id: key[0], month_year: key[1] } : { id: key };
+
+/**
+ * Talks to a FluxoNext server exposing the same six tables over REST, with
+ * snake_case rows like Supabase. Auth is a bearer token kept in localStorage.
+ */
+export const createRestRepository = (baseUrl: string): FinanceRepository => {
+  const authListeners = new Set<(user: FinanceUser | null) => void>();
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const token = localStorage.getItem(TOKEN_KEY);
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...init.headers,
+        },
+      });
+    } catch (err: any) {
+      throw new RepositoryError(err?.message || 'Network error', true);
+    }
+    const body = response.status === 204 ? null : await response.json().catch(() => null);
+    if (!response.ok) throw new RepositoryError(body?.error || `HTTP ${response.status}`);
+    return body;
+  };
+
+  const setUser = (user: FinanceUser | null) => authListeners.forEach(listener => listener(user));
+
+  const startSession = ({ token, user }: { token: string; user: FinanceUser }) => {
+    localStorage.setItem(TOKEN_KEY, token);
+    localStorage.setItem(`${TOKEN_KEY}-user`, JSON.stringify(user));
+    setUser(user);
+  };
+
+  const createTable = <T extends TableName>(table: T): TableRepository<T> => ({
+    list: async () => {
+      const rows: any[] = await request(`/${table}`);
+      return rows.map(row => fromRow(table, row));
+    },
+    insert: async (_userId, records) => {
+      await request(`/${table}`, { method: 'POST', body: JSON.stringify(records.map(record => toRow(table, record))) });
+    },
+    update: async (_userId, key, changes) => {
+      await request(`/${table}/${keyPath(key)}`, { method: 'PATCH', body: JSON.stringify(toRow(table, changes)) });
+    },
+    delete: async (_userId, keys) => {
+      if (keys.length === 1) await request(`/${table}/${keyPath(keys[0])}`, { method: 'DELETE' });
+      else if (keys.length) await request(`/${table}`, { method: 'DELETE', body: JSON.stringify(keys.map(key => keyRow(table, key))) });
+    },
+  });
+
+  return {
+    backend: 'rest',
+    auth: {
+      getUser: async () => {
+        if (!localStorage.getItem(TOKEN_KEY)) return null;
+        try {
+          const { user } = await request('/auth/me');
+          localStorage.setItem(`${TOKEN_KEY}-user`, JSON.stringify(user));
+          return user;
+        } catch (err) {
+          // Offline: trust the stored session so local data stays available
+          if (err instanceof RepositoryError && err.offline) {
+            const cached = localStorage.getItem(`${TOKEN_KEY}-user`);
+            return cached ? JSON.parse(cached) : null;
+          }
+          localStorage.removeItem(TOKEN_KEY);
+          return null;
+        }
+      },
+      onChange: (callback) => {
+        authListeners.add(callback);
+        return () => authListeners.delete(callback);
+      },
+      signIn: async (email, password) => {
+        startSession(await request('/auth/login', { method: 'POST', body: JSON.stringify({ email, password }) }));
+      },
+      signUp: async (email, password) => {
+        startSession(await request('/auth/register', { method: 'POST', body: JSON.stringify({ email, password }) }));
+      },
+      signOut: async () => {
+        await request('/auth/logout', { method: 'POST' }).catch(() => undefined);
+        localStorage.removeItem(TOKEN_KEY);
+        localStorage.removeItem(`${TOKEN_KEY}-user`);
+        setUser(null);
+      },
+    },
+    tables: Object.fromEntries(TABLES.map(table => [table, createTable(table)])) as FinanceRepository['tables'],
+    // Server-sent events; EventSource cannot send headers, so the token goes in the query string
+    subscribe: (_userId, onChange) => {
+      const token = localStorage.getItem(TOKEN_KEY);
+      if (!token || typeof EventSource === 'undefined') return () => undefined;
+      const source = new EventSource(`${baseUrl}/events?token=${encodeURIComponent(token)}`);
+      source.onmessage = (event) => {
+        const { table, type, new: newRow, old: oldRow } = JSON.parse(event.data);
+        if (!TABLES.includes(table)) return;
+        onChange({
+          table,
+          type,
+          new: newRow ? fromRow(table, newRow) : undefined,
+          old: oldRow ? fromRow(table, oldRow) : undefined,
+        });
+      };
+      return () => source.close();
+    },
+  };
+};
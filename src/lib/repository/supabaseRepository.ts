@@ -0,0 +1,100 @@
+import { getSupabase } from '../supabase';
+import { TABLES, TableName, RecordKey, fromRow, toRow } from '../mappers';
+import { FinanceRepository, FinanceUser, RepositoryError, TableRepository } from './types';
+
+// postgrest-js reports fetch failures (no connection) with status 0
+const check = ({ error, status }: { error: { message: string } | null; status: number }) => {
+  if (error) throw new RepositoryError(error.message, status === 0);
+};
+
+const matchKey = (query: any, key: RecordKey) =>
+  Array.isArray(key) ? query.eq('card_id', key[0]).eq('month_year', key[1]) : query.eq('id', key);
+
+// Keeps the `in` filters short enough for the request URL
+const DELETE_CHUNK = 100;
+
+const chunks = <T,>(items: T[]) =>
+  Array.from({ length: Math.ceil(items.length / DELETE_CHUNK) }, (_, index) => items.slice(index * DELETE_CHUNK, (index + 1) * DELETE_CHUNK));
+
+const createTable = <T extends TableName>(table: T): TableRepository<T> => ({
+  list: async (userId) => {
+    const response = await getSupabase().from(table).select('*').eq('user_id', userId);
+    check(response);
+    return (response.data || []).map(row => fromRow(table, row));
+  },
+  insert: async (userId, records) => {
+    const rows = records.map(record => ({ ...toRow(table, record), user_id: userId }));
+    // card_payments has no id: it is unique per user, card and month
+    check(await getSupabase().from(table).upsert(rows, table === 'card_payments' ? { onConflict: 'user_id,card_id,month_year' } : undefined));
+  },
+  update: async (_userId, key, changes) => {
+    check(await matchKey(getSupabase().from(table).update(toRow(table, changes)), key));
+  },
+  delete: async (_userId, keys) => {
+    if (keys.length === 1) {
+      check(await matchKey(getSupabase().from(table).delete(), keys[0]));
+      return;
+    }
+    // Composite keys are grouped by card, plain ids go in as a list
+    const groups = new Map<string, string[]>();
+    keys.forEach(key => {
+      const [group, value] = Array.isArray(key) ? key : ['', key];
+      groups.set(group, [...(groups.get(group) || []), value]);
+    });
+    for (const [group, values] of groups) {
+      for (const chunk of chunks(values)) {
+        const query = getSupabase().from(table).delete();
+        check(await (group ? query.eq('card_id', group).in('month_year', chunk) : query.in('id', chunk)));
+      }
+    }
+  },
+});
+
+const toUser = (user: { id: string; email?: string } | null | undefined): FinanceUser | null =>
+  user ? { id: user.id, email: user.email } : null;
+
+export const createSupabaseRepository = (): FinanceRepository => ({
+  backend: 'supabase',
+  auth: {
+    getUser: async () => {
+      const { data: { session } } = await getSupabase().auth.getSession();
+      return toUser(session?.user);
+    },
+    onChange: (callback) => {
+      const { data: { subscription } } = getSupabase().auth.onAuthStateChange((_event, session) => callback(toUser(session?.user)));
+      return () => subscription.unsubscribe();
+    },
+    signIn: async (email, password) => {
+      const { error } = await getSupabase().auth.signInWithPassword({ email, password });
+      if (error) throw new RepositoryError(error.message);
+    },
+    signOut: async () => {
+      await getSupabase().auth.signOut();
+    },
+  },
+  tables: Object.fromEntries(TABLES.map(table => [table, createTable(table)])) as FinanceRepository['tables'],
+  subscribe: (userId, onChange) => {
+    const supabase = getSupabase();
+    const toChange = (table: TableName, payload: any) => onChange({
+      table,
+      type: payload.eventType,
+      new: payload.new && Object.keys(payload.new).length ? fromRow(table, payload.new) : undefined,
+      old: payload.old && Object.keys(payload.old).length ? fromRow(table, payload.old) : undefined,
+    });
+    const channel = TABLES.reduce(
+      (ch, table) => ch
+        .on('postgres_changes' as any, { event: 'INSERT', schema: 'public', table, filter: `user_id=eq.${userId}` }, (payload: any) => toChange(table, payload))
+        .on('postgres_changes' as any, { event: 'UPDATE', schema: 'public', table, filter: `user_id=eq.${userId}` }, (payload: any) => toChange(table, payload))
+        // Supabase cannot filter DELETE events, so other users' deletions are dropped here. Under RLS the
+        // payload may only carry the primary key; keys are then ids that only exist in this user's data
+        .on('postgres_changes' as any, { event: 'DELETE', schema: 'public', table }, (payload: any) => {
+          if (payload.old?.user_id && payload.old.user_id !== userId) return;
+          toChange(table, payload);
+        }),
+      supabase.channel(`db_changes:${userId}`)
+    ).subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+});
@@ -0,0 +1,49 @@
+import { TableName, TableRecords, RecordKey } from '../mappers';
+
+export type BackendName = 'supabase' | 'memory' | 'rest';
+
+export interface FinanceUser {
+  id: string;
+  email?: string;
+}
+
+/** A row changed by someone else (another tab, device or the server). */
+export interface RepositoryChange<T extends TableName = TableName> {
+  table: T;
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  new?: TableRecords[T];
+  old?: Partial<TableRecords[T]>;
+}
+
+/** Raised by every backend. `offline` means the request never reached it and can be retried. */
+export class RepositoryError extends Error {
+  constructor(message: string, public offline = false) {
+    super(message);
+    this.name = 'RepositoryError';
+  }
+}
+
+export interface TableRepository<T extends TableName> {
+  list: (userId: string) => Promise<TableRecords[T][]>;
+  // Inserting an existing key replaces it, so replaying a write is harmless
+  insert: (userId: string, records: TableRecords[T][]) => Promise<void>;
+  update: (userId: string, key: RecordKey, changes: Partial<TableRecords[T]>) => Promise<void>;
+  delete: (userId: string, keys: RecordKey[]) => Promise<void>;
+}
+
+export interface AuthProvider {
+  getUser: () => Promise<FinanceUser | null>;
+  onChange: (callback: (user: FinanceUser | null) => void) => () => void;
+  signIn: (email: string, password: string) => Promise<void>;
+  // Only backends with local accounts let the app create them
+  signUp?: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export interface FinanceRepository {
+  backend: BackendName;
+  auth: AuthProvider;
+  tables: { [T in TableName]: TableRepository<T> };
+  // Changes to the user's rows, delivered one by one
+  subscribe: (userId: string, onChange: (change: RepositoryChange) => void) => () => void;
+}
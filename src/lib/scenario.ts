@@ -0,0 +1,115 @@
+import { Expense, Income } from '../types';
+import { shiftMonth } from './cashFlow';
+
+// Hypothetical changes of the simulator; they only live in memory and are never saved
+
+export interface ScenarioPurchase {
+  id: string;
+  kind: 'purchase';
+  title: string;
+  total: number;
+  installments: number; // 1 = paid at once
+  firstMonth: string; // YYYY-MM, first invoice or month it is paid
+  paymentMethod: string; // 'cash', accountId or cardId
+}
+
+export interface ScenarioCancelExpense {
+  id: string;
+  kind: 'cancel_expense';
+  expenseId: string;
+  fromMonth: string; // first month without it
+}
+
+export interface ScenarioChangeIncome {
+  id: string;
+  kind: 'change_income';
+  incomeId: string;
+  fromMonth: string;
+  value: number; // new monthly value, 0 = losing it
+}
+
+export interface ScenarioNewIncome {
+  id: string;
+  kind: 'new_income';
+  title: string;
+  value: number;
+  fromMonth: string;
+  months?: number; // absent = from then on
+}
+
+export type ScenarioChange = ScenarioPurchase | ScenarioCancelExpense | ScenarioChangeIncome | ScenarioNewIncome;
+
+export interface ScenarioData {
+  incomes: Income[];
+  expenses: Expense[];
+  getIncomeValueForMonth: (income: Income, monthYear: string) => number;
+  getExpenseValueForMonth: (expense: Expense, monthYear: string) => { value: number; paymentMethod: string };
+}
+
+// Months an income pays in: fixed ones until their end, temporary ones in their schedule or duration
+const isIncomeActive = (income: Income, monthYear: string) => {
+  if (income.type === 'fixed') return !(income.endMonth && monthYear > income.endMonth);
+  if (income.schedule?.length) return income.schedule.some(item => item.monthYear === monthYear);
+  if (!income.startMonth || !income.durationMonths) return false;
+  return monthYear >= income.startMonth && monthYear <= shiftMonth(income.startMonth, income.durationMonths - 1);
+};
+
+/**
+ * The data as it would be with the changes applied: purchases and new incomes become
+ * extra records, cancellations and income changes override the values from their month on.
+ * An income changed more than once follows the change with the latest month, and only while it still pays.
+ */
+export const applyScenario = (changes: ScenarioChange[], base: ScenarioData): ScenarioData => {
+  const purchases = changes.filter((c): c is ScenarioPurchase => c.kind === 'purchase');
+  const cancellations = changes.filter((c): c is ScenarioCancelExpense => c.kind === 'cancel_expense');
+  const incomeChanges = changes.filter((c): c is ScenarioChangeIncome => c.kind === 'change_income');
+  const newIncomes = changes.filter((c): c is ScenarioNewIncome => c.kind === 'new_income');
+
+  const extraExpenses: Expense[] = purchases.flatMap(purchase => {
+    const count = Math.max(Math.round(purchase.installments), 1);
+    return Array.from({ length: count }, (_, index): Expense => ({
+      id: `${purchase.id}-${index + 1}`,
+      title: purchase.title,
+      categoryId: '',
+      type: count > 1 ? 'installment' : 'one_time',
+      purchaseDate: `${purchase.firstMonth}-01`,
+      billingMonth: shiftMonth(purchase.firstMonth, index),
+      isInstallment: count > 1,
+      totalValue: purchase.total,
+      installmentValue: purchase.total / count,
+      installments: count > 1 ? { current: index + 1, total: count } : undefined,
+      paymentMethod: purchase.paymentMethod,
+      isPaid: false,
+      originalId: purchase.id,
+    }));
+  });
+
+  const extraIncomes: Income[] = newIncomes.map(income => ({
+    id: income.id,
+    title: income.title,
+    categoryId: '',
+    type: 'fixed',
+    valueHistory: [{ monthYear: income.fromMonth, value: income.value }],
+    endMonth: income.months ? shiftMonth(income.fromMonth, income.months - 1) : undefined,
+  }));
+
+  return {
+    incomes: [...base.incomes, ...extraIncomes],
+    expenses: [...base.expenses, ...extraExpenses],
+    getIncomeValueForMonth: (income, monthYear) => {
+      // Before its first month a new fixed income would fall back to its first value
+      const added = newIncomes.find(c => c.id === income.id);
+      if (added && monthYear < added.fromMonth) return 0;
+      const change = incomeChanges
+        .filter(c => c.incomeId === income.id && c.fromMonth <= monthYear)
+        .sort((a, b) => a.fromMonth.localeCompare(b.fromMonth))
+        .pop();
+      return change && isIncomeActive(income, monthYear) ? change.value : base.getIncomeValueForMonth(income, monthYear);
+    },
+    getExpenseValueForMonth: (expense, monthYear) => {
+      const result = base.getExpenseValueForMonth(expense, monthYear);
+      const cancelled = cancellations.some(c => c.expenseId === expense.id && c.fromMonth <= monthYear);
+      return cancelled ? { ...result, value: 0 } : result;
+    },
+  };
+};
@@ -1,10 +1,17 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 const supabaseUrl = (import.meta as any).env.VITE_SUPABASE_URL || '';
 const supabaseAnonKey = (import.meta as any).env.VITE_SUPABASE_ANON_KEY || '';
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.warn('Supabase environment variables are missing. Cloud sync will not work.');
-}
+let client: SupabaseClient | null = null;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Created on first use so the other storage backends run without a Supabase project
+export const getSupabase = () => {
+  if (!client) {
+    if (!supabaseUrl || !supabaseAnonKey) {
+      console.warn('Supabase environment variables are missing. Cloud sync will not work.');
+    }
+    client = createClient(supabaseUrl, supabaseAnonKey);
+  }
+  return client;
+};
@@ -1,5 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
-import { ParseChatResponse } from "../types";
+import { Account, CreditCard, ParseChatResponse } from "../types";
+import { describeCardForPrompt } from "../lib/billing";
 
 // Initialize Gemini API
 const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
@@ -8,7 +9,8 @@ export const parseTransactionText = async (
   text: string, 
   history: { role: 'user' | 'ai'; content: string }[] = [],
   categories: string[] = [],
-  cards: string[] = [],
+  cards: CreditCard[] = [],
+  accounts: Account[] = [],
   today: string = new Date().toISOString()
 ): Promise<ParseChatResponse> => {
   try {
@@ -20,13 +22,18 @@ export const parseTransactionText = async (
       Use o histórico de mensagens para entender o contexto, como correções ou novos lançamentos.
       
       Categorias Disponíveis: ${categories.join(', ')}.
-      Cartões Disponíveis: ${cards.join(', ')}.
+      Cartões Disponíveis: ${cards.map(describeCardForPrompt).join(', ')}.
+      Contas Disponíveis (débito, Pix, carteira, vale): ${accounts.map(a => a.name).join(', ')}.
       
       REGRAS: 
       - Se não tiver certeza da categoria ou cartão, retorne null no JSON.
       - Se o usuário citar apenas o mês (ex: 'Junho'), use o ano atual de ${today}.
-      - REGRA DA FATURA (billingMonth): O mês da fatura DEVE ser SEMPRE o mês SEGUINTE ao da data da compra (purchaseDate). Exemplo: se a compra foi em Fevereiro, a fatura é em Março. Aplique essa regra matematicamente em todos os casos, a menos que o usuário exija explicitamente um mês de fatura diferente.
+      - REGRA DA FATURA (billingMonth): Use o dia de fechamento do cartão escolhido. Compras feitas ANTES do dia de fechamento entram na fatura que fecha no mesmo mês da compra; compras NO dia do fechamento ou depois entram na fatura que fecha no mês seguinte. O mês da fatura é o mês do VENCIMENTO dessa fatura: se o dia de vencimento for maior que o de fechamento, vence no mesmo mês do fechamento; caso contrário, no mês seguinte. Pagamentos em Dinheiro ou em uma conta usam o próprio mês da compra.
+      - Se o usuário exigir explicitamente um mês de fatura diferente, use-o e retorne "billingMonthExplicit": true; caso contrário retorne false.
+      - Em "paymentMethod", retorne apenas o nome do cartão (sem os dias de fechamento/vencimento), o nome da conta ou 'Dinheiro'.
       - PARCELAMENTO: Aja de forma lógica. Se o usuário disser "1000 em 10x", o valor total é 1000 e parcelas é 10. Se ele disser "10x de 150", o valor total é 1500 e parcelas é 10. Sempre retorne o 'value' como o VALOR TOTAL.
+      - JUROS: Se o parcelamento tiver juros (ex: "12x de 110 com juros num produto de 1200", "à vista 1200 ou 12x de 110"), 'value' continua sendo o total pago nas parcelas (1320) e "cashPrice" é o preço à vista (1200). Sem juros ou sem preço à vista informado, retorne "cashPrice": null.
+      - RECORRÊNCIA: Se o usuário descrever uma conta que se repete (ex: 'IPVA todo ano em março', 'seguro semestral', 'academia todo mês', 'IPTU de fevereiro a novembro'), retorne "recurrence" com "frequency" ('monthly', 'bimonthly', 'quarterly', 'semiannual', 'annual' ou 'custom'), "months" (números de 1 a 12, apenas para 'custom'), "startMonth" (YYYY-MM da primeira cobrança) e "endMonth" (YYYY-MM da última cobrança ou null). Nesse caso 'value' é o valor de CADA cobrança e não há parcelamento. Para gastos únicos ou parcelados, retorne "recurrence": null.
       
       Retorne EXCLUSIVAMENTE um JSON no seguinte formato:
       {
@@ -36,11 +43,14 @@ export const parseTransactionText = async (
             "name": "Nome curto do gasto",
             "value": Valor TOTAL numérico (ex: 50.00),
             "category": "Nome da categoria inferida ou null",
-            "paymentMethod": "Nome do cartão ou 'Dinheiro'",
+            "paymentMethod": "Nome do cartão, nome da conta ou 'Dinheiro'",
             "purchaseDate": "YYYY-MM-DD",
             "billingMonth": "YYYY-MM",
+            "billingMonthExplicit": true ou false,
             "isInstallment": true ou false,
-            "installments": número de parcelas (padrão 1)
+            "installments": número de parcelas (padrão 1),
+            "cashPrice": preço à vista numérico ou null,
+            "recurrence": null ou { "frequency": "annual", "months": null, "startMonth": "YYYY-MM", "endMonth": null }
           }
         ]
       }
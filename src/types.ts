@@ -1,10 +1,35 @@
-export type PaymentMethod = 'cash' | 'credit_card';
+export type PaymentMethod = 'cash' | 'account' | 'credit_card';
+
+export type AccountType = 'checking' | 'savings' | 'wallet' | 'pix' | 'meal_voucher';
+
+// Where money is kept outside the cards: bank accounts, wallets, meal vouchers (VR/VA)
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  color: string;
+  openingBalance?: number; // balance at the start of openingMonth
+  openingMonth?: string; // YYYY-MM
+}
+
+// Money moved between two accounts ('cash' for loose money); not income nor spending
+export interface Transfer {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: string; // YYYY-MM-DD
+  description?: string;
+}
 
 export interface Category {
   id: string;
   name: string;
   color: string;
   type: 'income' | 'expense';
+  // Monthly spending limit (expense categories); budgetHistory holds changes and single-month overrides
+  budget?: number;
+  budgetHistory?: ValueHistoryItem[];
 }
 
 export interface CreditCard {
@@ -13,13 +38,50 @@ export interface CreditCard {
   closingDay: number;
   dueDay: number;
   color: string;
+  limit?: number; // credit limit
+  revolvingRate?: number; // rotativo interest, % per month
 }
 
 export interface ValueHistoryItem {
   monthYear: string; // YYYY-MM
   value: number;
-  paymentMethod?: string; // 'cash' or cardId
+  paymentMethod?: string; // 'cash', accountId or cardId
   type?: 'exception' | 'permanent';
+  payroll?: PayrollBreakdown; // salary incomes: how the net value was computed from the gross
+}
+
+// What goes into a CLT payroll calculation
+export interface PayrollInput {
+  gross: number;
+  dependents: number;
+  healthPlan: number; // employee's share, discounted in the payslip
+  otherDeductions: number; // transport voucher, union fee, payroll loans...
+}
+
+export interface PayrollBreakdown extends PayrollInput {
+  inss: number;
+  irrf: number;
+  net: number;
+}
+
+export type SalaryExtraKind = 'thirteenth_first' | 'thirteenth_second' | 'vacation';
+
+// Links an income generated from a salary (13º salário, férias) back to it
+export interface SalaryExtra {
+  salaryId: string;
+  kind: SalaryExtraKind;
+  year: number;
+}
+
+export interface ScheduledValue {
+  monthYear: string; // YYYY-MM
+  value: number;
+}
+
+// When an income is expected: a fixed day of the month or the nth business day (e.g. 5º dia útil)
+export interface Payday {
+  kind: 'day' | 'business_day';
+  day: number;
 }
 
 export interface Income {
@@ -27,41 +89,64 @@ export interface Income {
   title: string;
   categoryId: string;
   type: 'fixed' | 'temporary';
-  paymentMethod?: string; // 'cash' or cardId
+  paymentMethod?: string; // 'cash', accountId or cardId
   // For Fixed
   valueHistory?: ValueHistoryItem[]; 
+  endMonth?: string; // YYYY-MM, last month received
+  payday?: Payday; // expected day of the month it arrives
+  salaryExtra?: SalaryExtra; // generated from a salary income
   // For Temporary
-  amount?: number;
+  amount?: number; // same value every month
   startMonth?: string; // YYYY-MM
   durationMonths?: number;
+  schedule?: ScheduledValue[]; // value changing month to month (freelance, commissions); overrides amount
+}
+
+export type RecurrenceFrequency = 'monthly' | 'bimonthly' | 'quarterly' | 'semiannual' | 'annual' | 'custom';
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  months?: number[]; // 1-12, for 'custom'
+  startMonth?: string; // YYYY-MM, first occurrence (anchors the interval)
+  endMonth?: string; // YYYY-MM, last month it can occur
 }
 
 export interface Expense {
   id: string;
   title: string;
   categoryId: string;
-  type: 'fixed' | 'one_time' | 'installment';
+  type: 'fixed' | 'one_time' | 'installment' | 'refund'; // refund = credit that lowers its invoice
   purchaseDate: string; // YYYY-MM-DD
   billingMonth: string; // YYYY-MM
   isInstallment: boolean;
   totalValue: number;
   installmentValue: number;
+  cashPrice?: number; // à vista price of an installment purchase with interest
   installments?: {
     current: number;
     total: number;
   };
-  paymentMethod: string; // 'cash' or cardId
+  paymentMethod: string; // 'cash', accountId or cardId
   isPaid: boolean;
   originalId?: string; // To link installments
+  refundOf?: string; // expense a refund credits back
   // For Fixed
   valueHistory?: ValueHistoryItem[];
+  recurrence?: Recurrence; // absent = every month
   createdAt?: string; // ISO string
 }
 
+// Which parcels of an installment purchase an edit applies to
+export type InstallmentScope = 'only' | 'future' | 'all';
+
 export interface CardPaymentStatus {
   cardId: string;
   monthYear: string;
-  isPaid: boolean;
+  isPaid: boolean; // settled: paid in full, or the remainder was rolled into the next invoice
+  paidAmount?: number; // absent = paid in full
+  paidAt?: string; // YYYY-MM-DD
+  rollover?: boolean; // unpaid remainder goes to the next invoice with rotativo interest
+  accountId?: string; // account the payment was debited from
 }
 
 export interface ExpensePayment {
@@ -72,6 +157,23 @@ export interface ExpensePayment {
   paidValue: number;
 }
 
+// What actually arrived of an income in a month, which may differ from the forecast
+export interface IncomeReceipt {
+  id: string;
+  incomeId: string;
+  monthYear: string;
+  isReceived: boolean;
+  receivedValue: number;
+  receivedAt?: string; // YYYY-MM-DD
+}
+
+export interface UserSettings {
+  id: string;
+  // Account balance at the start of openingMonth, carried forward month by month
+  openingBalance: number;
+  openingMonth: string; // YYYY-MM
+}
+
 export interface ExtractedData {
   tempId?: string;
   name?: string;
@@ -80,9 +182,12 @@ export interface ExtractedData {
   paymentMethod?: string;
   isInstallment?: boolean;
   installments?: number;
+  cashPrice?: number; // à vista price when the installments carry interest
   // Keep these for internal mapping if needed, but the AI will return the above
   purchaseDate?: string;
   billingMonth?: string;
+  billingMonthExplicit?: boolean; // User asked for a specific invoice month
+  recurrence?: Recurrence | null; // Recurring bill (IPVA, insurance...) to save as a fixed expense
   confidence?: number;
   missingFields?: string[];
 }
@@ -0,0 +1,10 @@
+-- A card has one payment status per month; the app upserts on this key
+delete from public.card_payments a
+  using public.card_payments b
+  where a.ctid < b.ctid
+    and a.user_id = b.user_id
+    and a.card_id = b.card_id
+    and a.month_year = b.month_year;
+
+create unique index if not exists card_payments_user_card_month_key
+  on public.card_payments (user_id, card_id, month_year);
@@ -0,0 +1,16 @@
+-- Opening balance the monthly cash flow is carried forward from (one row per user)
+create table if not exists public.settings (
+  id text primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  opening_balance numeric not null default 0,
+  opening_month text
+);
+
+create index if not exists settings_user_id_idx on public.settings (user_id);
+
+alter table public.settings enable row level security;
+
+create policy "Users manage their own settings" on public.settings
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.settings;
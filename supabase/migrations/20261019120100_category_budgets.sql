@@ -0,0 +1,3 @@
+-- Monthly budget of expense categories, with per-month changes
+alter table public.categories add column if not exists budget numeric;
+alter table public.categories add column if not exists budget_history jsonb;
@@ -0,0 +1,2 @@
+-- Recurrence rule of fixed expenses (monthly when null)
+alter table public.expenses add column if not exists recurrence jsonb;
@@ -0,0 +1,2 @@
+-- Last month of a fixed income that has ended
+alter table public.incomes add column if not exists end_month text;
@@ -0,0 +1,2 @@
+-- Cash (à vista) price of an installment purchase, to work out its interest
+alter table public.expenses add column if not exists cash_price numeric;
@@ -0,0 +1,2 @@
+-- Credit limit of a card
+alter table public.cards add column if not exists credit_limit numeric;
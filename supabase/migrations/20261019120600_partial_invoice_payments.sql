@@ -0,0 +1,6 @@
+-- Revolving credit rate of a card and partial payments of its invoices
+alter table public.cards add column if not exists revolving_rate numeric;
+
+alter table public.card_payments add column if not exists paid_amount numeric;
+alter table public.card_payments add column if not exists paid_at text;
+alter table public.card_payments add column if not exists rollover boolean;
@@ -0,0 +1,2 @@
+-- Expense a refund credits back
+alter table public.expenses add column if not exists refund_of text;
@@ -0,0 +1,19 @@
+-- Bank accounts and wallets used as payment sources
+create table if not exists public.accounts (
+  id text primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  type text not null,
+  color text,
+  opening_balance numeric,
+  opening_month text
+);
+
+create index if not exists accounts_user_id_idx on public.accounts (user_id);
+
+alter table public.accounts enable row level security;
+
+create policy "Users manage their own accounts" on public.accounts
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.accounts;
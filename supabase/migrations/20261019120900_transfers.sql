@@ -0,0 +1,21 @@
+-- Transfers between accounts, and the account an invoice was paid from
+create table if not exists public.transfers (
+  id text primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  from_account_id text not null,
+  to_account_id text not null,
+  amount numeric not null,
+  date text not null,
+  description text
+);
+
+create index if not exists transfers_user_id_idx on public.transfers (user_id);
+
+alter table public.transfers enable row level security;
+
+create policy "Users manage their own transfers" on public.transfers
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.transfers;
+
+alter table public.card_payments add column if not exists account_id text;
@@ -0,0 +1,21 @@
+-- Incomes received per month, and the expected payday of an income
+create table if not exists public.income_receipts (
+  id text primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  income_id text not null,
+  month_year text not null,
+  is_received boolean not null default false,
+  received_value numeric,
+  received_at text
+);
+
+create index if not exists income_receipts_user_id_idx on public.income_receipts (user_id);
+
+alter table public.income_receipts enable row level security;
+
+create policy "Users manage their own income receipts" on public.income_receipts
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.income_receipts;
+
+alter table public.incomes add column if not exists payday jsonb;
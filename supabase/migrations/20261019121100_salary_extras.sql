@@ -0,0 +1,2 @@
+-- Links a 13º or vacation pay income to its salary
+alter table public.incomes add column if not exists salary_extra jsonb;
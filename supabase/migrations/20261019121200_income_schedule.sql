@@ -0,0 +1,2 @@
+-- Per-month values of a temporary income
+alter table public.incomes add column if not exists schedule jsonb;